@@ -48,7 +48,11 @@ function AuthenticatedApp() {
       {!selectedChat ? (
         <ChatSelect onSelectChat={(chatId) => setSelectedChat(chatId)} />
       ) : (
-        <Chat chatId={selectedChat} onBackToSelection={() => setSelectedChat(null)} />
+        <Chat
+          chatId={selectedChat}
+          onBackToSelection={() => setSelectedChat(null)}
+          onSelectChat={(chatId) => setSelectedChat(chatId)}
+        />
       )}
     </AblyProvider>
   )
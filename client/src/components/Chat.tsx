@@ -1,50 +1,123 @@
 import { useState, useEffect } from 'react';
+import { Bookmark, MessageSearchResult, PinnedMessage, UserListEntry, UserSummary, getConversationId } from 'shared';
 import { MessageList } from './MessageList';
 import { MessageInput } from './MessageInput';
 import { UserList } from './UserList';
 import { UserAvatar } from './UserAvatar';
+import { RoomMembers } from './RoomMembers';
+import { ThreadPanel } from './ThreadPanel';
+import { SearchPanel } from './SearchPanel';
+import { PinnedMessages } from './PinnedMessages';
+import { SavedPanel } from './SavedPanel';
+import { UnreadBadge } from './UnreadBadge';
 import { useAuth } from '../context/AuthContext';
 import { useAbly } from '../context/AblyContext';
+import { getOtherParticipantId } from '../utils/conversations';
 
-// Use the same User interface as in UserList to avoid type conflicts
-interface User {
-    id: string;
-    username: string;
-    isOnline?: boolean;
-    isonline?: boolean;
-    lastSeen?: string;
-}
+// The other participant of a direct message; their status is unknown if they are not in the user list
+type DirectUser = UserSummary & Partial<Pick<UserListEntry, 'isOnline'>>;
+
+// "Alice is typing…", "Alice and Bob are typing…", "Alice, Bob and 2 others are typing…"
+const formatTypingUsers = (names: string[]) => {
+    if (names.length === 1) {
+        return `${names[0]} is typing…`;
+    }
+    if (names.length <= 3) {
+        return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]} are typing…`;
+    }
+    return `${names.slice(0, 2).join(', ')} and ${names.length - 2} others are typing…`;
+};
+
+// How long a message that was jumped to stays highlighted
+const HIGHLIGHT_MS = 3000;
 
 interface ChatProps {
     chatId: string;
     onBackToSelection: () => void;
+    onSelectChat: (chatId: string) => void;
 }
 
-export function Chat({ chatId, onBackToSelection }: ChatProps) {
+export function Chat({ chatId, onBackToSelection, onSelectChat }: ChatProps) {
     const { user, signOut } = useAuth();
-    const { users, activeChatId, setActiveChatId, messages, sendMessage } = useAbly();
-    const [selectedUser, setSelectedUser] = useState<User | null>(null);
+    const { users, rooms, conversations, activeChatId, setActiveChatId, activeThreadId, setActiveThreadId, messages, hasMoreMessages, readMarkers, previousReadMarkers, markRead, unreadCounts, typingUsers, setTyping, sendMessage, uploadAttachment, editMessage, deleteMessage, toggleReaction, getMessageEdits, loadMoreMessages, hasNewerMessages, loadNewerMessages, jumpToLatest, jumpTarget, jumpToMessage, clearJumpTarget, pinnedMessages, togglePin, bookmarks, toggleBookmark } = useAbly();
     const [showUserList, setShowUserList] = useState(true);
-    const [chatName, setChatName] = useState('');
+    const [showMembers, setShowMembers] = useState(false);
+    const [showSearch, setShowSearch] = useState(false);
+    const [showSaved, setShowSaved] = useState(false);
 
-    // Set active chat in Ably context when chatId changes
+    // For a direct message conversation, the other participant
+    const directUserId = user ? getOtherParticipantId(chatId, user.id) : null;
+    const directUser: DirectUser | null = directUserId
+        ? users.find(u => u.id === directUserId)
+            || conversations.find(c => c.id === chatId)?.other_user
+            || null
+        : null;
+
+    // Room names come from the room data, which updates live when a room is renamed
+    const room = rooms.find(r => r.id === chatId);
+    const chatName = directUserId
+        ? directUser?.username || 'Direct message'
+        : room?.name || chatId;
+
+    const canModerate = room?.role === 'owner' || room?.role === 'admin';
+
+    // Direct messages cannot have pins
+    const pins = directUserId ? [] : pinnedMessages[chatId] || [];
+
+    // Others who have read up to the last message
+    const chatMessages = messages[activeChatId || ''] || [];
+    const lastMessage = chatMessages[chatMessages.length - 1];
+    const seenBy = (readMarkers[chatId] || [])
+        .filter(marker => lastMessage?.id
+            && marker.last_read_message_id === lastMessage.id
+            && marker.user_id !== user?.id
+            && marker.user_id !== lastMessage.sender.id)
+        .map(marker => ({ id: marker.user_id, username: marker.user?.username || 'Unknown User' }));
+
+    // Everyone else can be mentioned
+    const mentionCandidates = users.filter(u => u.id !== user?.id);
+
+    // Unread messages in all other chats, shown on the way back to the chat list
+    const otherUnread = Object.values(unreadCounts).filter(count => count.chat_id !== chatId);
+    const otherUnreadCount = otherUnread.reduce((total, count) => total + count.unread_count, 0);
+    const otherMentionCount = otherUnread.reduce((total, count) => total + count.mention_count, 0);
+
+    // The message being jumped to in this chat, once its history is loaded
+    const highlightedMessageId = jumpTarget?.chatId === chatId && chatMessages.some(m => m.id === jumpTarget.messageId)
+        ? jumpTarget.messageId
+        : null;
+
+    // Stop highlighting a message some time after jumping to it
     useEffect(() => {
-        setActiveChatId(chatId);
+        if (!highlightedMessageId) return;
+        const timer = setTimeout(clearJumpTarget, HIGHLIGHT_MS);
+        return () => clearTimeout(timer);
+    }, [highlightedMessageId, clearJumpTarget]);
+
+    // Open the chat of a search result at the result
+    const handleSelectResult = (result: MessageSearchResult) => {
+        jumpToMessage(result.chat_id, result.id, result.parent_id);
+        if (result.chat_id !== chatId) {
+            onSelectChat(result.chat_id);
+        }
+    };
 
-        // Determine chat name based on chatId
-        switch (chatId) {
-            case 'general':
-                setChatName('General Chat');
-                break;
-            case 'tech':
-                setChatName('Tech Chat');
-                break;
-            case 'resources':
-                setChatName('Resources');
-                break;
-            default:
-                setChatName(chatId);
+    // Open the chat of a saved message at the message
+    const handleSelectBookmark = (bookmark: Bookmark) => {
+        jumpToMessage(bookmark.chat_id, bookmark.message_id, bookmark.message.parent_id);
+        if (bookmark.chat_id !== chatId) {
+            onSelectChat(bookmark.chat_id);
         }
+    };
+
+    // Scroll to a pinned message, loading the history around it if needed
+    const handleSelectPin = (pin: PinnedMessage) => {
+        jumpToMessage(chatId, pin.message_id, pin.message.parent_id);
+    };
+
+    // Set active chat in Ably context when chatId changes
+    useEffect(() => {
+        setActiveChatId(chatId);
     }, [chatId, setActiveChatId]);
 
     // Log users and messages for debugging
@@ -53,8 +126,11 @@ export function Chat({ chatId, onBackToSelection }: ChatProps) {
         console.log('Chat component - Current messages:', messages[activeChatId || ''] || []);
     }, [users, messages, activeChatId]);
 
-    const handleUserSelect = (user: User) => {
-        setSelectedUser(user);
+    // Selecting a user opens the direct message conversation with them
+    const handleUserSelect = (selected: UserSummary) => {
+        if (user) {
+            onSelectChat(getConversationId(user.id, selected.id));
+        }
         // On mobile, hide the user list after selecting
         if (window.innerWidth < 768) {
             setShowUserList(false);
@@ -66,19 +142,15 @@ export function Chat({ chatId, onBackToSelection }: ChatProps) {
     };
 
     // Handle sending a message
-    const handleSendMessage = (content: string) => {
+    const handleSendMessage = (content: string, attachmentIds: string[]) => {
         if (activeChatId) {
-            return sendMessage(
-                content,
-                activeChatId,
-                selectedUser ? { id: selectedUser.id, username: selectedUser.username } : undefined
-            );
+            return sendMessage(content, activeChatId, undefined, attachmentIds);
         }
         return Promise.resolve();
     };
 
     // Count online users
-    const onlineUsersCount = users.filter(u => u.isOnline || u.isonline).length;
+    const onlineUsersCount = users.filter(u => u.isOnline).length;
 
     return (
         <div className="flex flex-col h-screen bg-gray-100">
@@ -87,11 +159,12 @@ export function Chat({ chatId, onBackToSelection }: ChatProps) {
                 <div className="flex items-center space-x-4">
                     <button
                         onClick={onBackToSelection}
-                        className="text-gray-600 hover:text-gray-800 focus:outline-none"
+                        className="flex items-center gap-1 text-gray-600 hover:text-gray-800 focus:outline-none"
                     >
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
                         </svg>
+                        <UnreadBadge count={otherUnreadCount} mentions={otherMentionCount} />
                     </button>
                     <h1 className="text-xl font-semibold">{chatName}</h1>
                 </div>
@@ -132,7 +205,7 @@ export function Chat({ chatId, onBackToSelection }: ChatProps) {
                     {/* User list */}
                     <UserList
                         onUserSelect={handleUserSelect}
-                        selectedUserId={selectedUser?.id}
+                        selectedUserId={directUserId || undefined}
                     />
                 </div>
 
@@ -149,16 +222,16 @@ export function Chat({ chatId, onBackToSelection }: ChatProps) {
                                 {showUserList ? '✕' : '☰'}
                             </button>
 
-                            {selectedUser ? (
+                            {directUser ? (
                                 <>
                                     <UserAvatar
-                                        userId={selectedUser.id}
-                                        username={selectedUser.username}
+                                        userId={directUser.id}
+                                        username={directUser.username}
                                     />
                                     <div>
-                                        <div className="font-semibold">{selectedUser.username}</div>
+                                        <div className="font-semibold">{directUser.username}</div>
                                         <div className="text-xs">
-                                            {selectedUser.isOnline || selectedUser.isonline ? (
+                                            {directUser.isOnline ? (
                                                 <span className="text-green-500">Online</span>
                                             ) : (
                                                 <span className="text-gray-500">Offline</span>
@@ -170,25 +243,117 @@ export function Chat({ chatId, onBackToSelection }: ChatProps) {
                                 <div className="font-semibold">{chatName}</div>
                             )}
                         </div>
+                        <div className="flex items-center gap-4">
+                            <button
+                                onClick={() => {
+                                    setShowSaved(false);
+                                    setShowSearch(prev => !prev);
+                                }}
+                                className="text-sm text-gray-600 hover:text-gray-800 focus:outline-none"
+                            >
+                                Search
+                            </button>
+                            <button
+                                onClick={() => {
+                                    setShowSearch(false);
+                                    setShowSaved(prev => !prev);
+                                }}
+                                className="text-sm text-gray-600 hover:text-gray-800 focus:outline-none"
+                            >
+                                Saved
+                            </button>
+                            {room?.is_private && (
+                                <button
+                                    onClick={() => setShowMembers(prev => !prev)}
+                                    className="text-sm text-gray-600 hover:text-gray-800 focus:outline-none"
+                                >
+                                    Members
+                                </button>
+                            )}
+                        </div>
                     </div>
 
+                    {/* Members and invites of a private room */}
+                    {room?.is_private && showMembers && (
+                        <RoomMembers room={room} onClose={() => setShowMembers(false)} />
+                    )}
+
+                    {/* Messages pinned by the room's owner and admins */}
+                    <PinnedMessages
+                        pins={pins}
+                        onSelectPin={handleSelectPin}
+                        onUnpin={canModerate ? (pin) => togglePin(chatId, pin.message_id) : undefined}
+                    />
+
                     {/* Message list */}
-                    <div className="flex-1 overflow-y-auto p-4">
+                    <div className="flex-1 overflow-hidden">
                         <MessageList
-                            messages={messages[activeChatId || ''] || []}
+                            messages={chatMessages}
                             currentUserId={user?.id || ''}
+                            currentUsername={user?.user_metadata.username}
+                            hasMore={hasMoreMessages[activeChatId || ''] || false}
+                            onLoadMore={() => activeChatId ? loadMoreMessages(activeChatId) : Promise.resolve()}
+                            onEditMessage={(message, content) => editMessage(chatId, message.id!, content)}
+                            onLoadEditHistory={(message) => getMessageEdits(chatId, message.id!)}
+                            onDeleteMessage={(message) => deleteMessage(chatId, message.id!)}
+                            onToggleReaction={(message, emoji) => toggleReaction(chatId, message.id!, emoji)}
+                            onOpenThread={(message) => setActiveThreadId(message.id!)}
+                            canModerate={canModerate}
+                            pinnedMessageIds={pins.map(pin => pin.message_id)}
+                            onTogglePin={canModerate ? (message) => togglePin(chatId, message.id!) : undefined}
+                            bookmarkedMessageIds={bookmarks.map(bookmark => bookmark.message_id)}
+                            onToggleBookmark={(message) => toggleBookmark(message.id!)}
+                            onMessageSeen={(message) => markRead(chatId, message.id!)}
+                            lastReadMessageId={previousReadMarkers[chatId]}
+                            seenBy={seenBy}
+                            hasNewer={hasNewerMessages[activeChatId || ''] || false}
+                            onLoadNewer={() => activeChatId ? loadNewerMessages(activeChatId) : Promise.resolve()}
+                            onJumpToLatest={() => {
+                                clearJumpTarget();
+                                return jumpToLatest(chatId);
+                            }}
+                            highlightedMessageId={highlightedMessageId}
                         />
                     </div>
 
+                    {/* Typing indicator */}
+                    <div className="h-5 px-4 text-xs italic text-gray-500">
+                        {typingUsers.length > 0 && formatTypingUsers(typingUsers.map(u => u.username))}
+                    </div>
+
                     {/* Message input */}
                     <div className="border-t border-gray-200">
                         <MessageInput
                             onSendMessage={handleSendMessage}
-                            placeholder={`Message ${selectedUser ? selectedUser.username : chatName}...`}
+                            onTypingChange={setTyping}
+                            placeholder={`Message ${chatName}...`}
                             disabled={!activeChatId}
+                            mentionCandidates={mentionCandidates}
+                            onUploadFile={uploadAttachment}
                         />
                     </div>
                 </div>
+
+                {/* Thread side panel, over the search and saved panels when both are open */}
+                {activeThreadId ? (
+                    <ThreadPanel
+                        chatId={chatId}
+                        parentId={activeThreadId}
+                        canModerate={canModerate}
+                        onClose={() => setActiveThreadId(null)}
+                    />
+                ) : showSearch ? (
+                    <SearchPanel
+                        chatId={chatId}
+                        onSelectResult={handleSelectResult}
+                        onClose={() => setShowSearch(false)}
+                    />
+                ) : showSaved && (
+                    <SavedPanel
+                        onSelectBookmark={handleSelectBookmark}
+                        onClose={() => setShowSaved(false)}
+                    />
+                )}
             </div>
         </div>
     );
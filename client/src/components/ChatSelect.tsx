@@ -1,11 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, FormEvent } from 'react';
+import { getConversationId } from 'shared';
 import { useAuth } from '../context/AuthContext';
-
-interface ChatRoom {
-    id: string;
-    name: string;
-    description: string;
-}
+import { useAbly } from '../context/AblyContext';
+import { UserAvatar } from './UserAvatar';
+import { UnreadBadge } from './UnreadBadge';
 
 interface ChatSelectProps {
     onSelectChat: (chatId: string) => void;
@@ -13,39 +11,73 @@ interface ChatSelectProps {
 
 export function ChatSelect({ onSelectChat }: ChatSelectProps) {
     const { user } = useAuth();
-    const [chatRooms, setChatRooms] = useState<ChatRoom[]>([]);
-    const [loading, setLoading] = useState(true);
+    const { rooms, roomsLoaded, createRoom, invites, acceptInvite, declineInvite, conversations, users, unreadCounts } = useAbly();
+    const [showNewRoom, setShowNewRoom] = useState(false);
+    const [roomName, setRoomName] = useState('');
+    const [roomDescription, setRoomDescription] = useState('');
+    const [roomIsPrivate, setRoomIsPrivate] = useState(false);
+    const [creating, setCreating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
 
-    // Fetch available chat rooms when component mounts
+    // Join a room from an invite link (?invite=<token>) once
     useEffect(() => {
-        async function fetchChatRooms() {
-            try {
-                const response = await fetch(`${import.meta.env.VITE_API_URL}/api/chat-rooms`);
-                if (!response.ok) {
-                    throw new Error('Failed to fetch chat rooms');
-                }
-
-                const data = await response.json();
-                setChatRooms(data);
-            } catch (error) {
-                console.error('Error fetching chat rooms:', error);
-                // Add fallback rooms in case the server is unreachable
-                setChatRooms([
-                    {
-                        id: 'general',
-                        name: 'General Chat',
-                        description: 'Public chat room for all users'
-                    }
-                ]);
-            } finally {
-                setLoading(false);
-            }
-        }
+        const params = new URLSearchParams(window.location.search);
+        const token = params.get('invite');
+        if (!token) return;
+
+        // Remove the token from the address bar so a reload doesn't use it again
+        params.delete('invite');
+        const query = params.toString();
+        window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
 
-        fetchChatRooms();
+        acceptInvite(token)
+            .then(room => onSelectChat(room.id))
+            .catch(err => setError(err instanceof Error ? err.message : 'Failed to accept invite'));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
-    if (loading) {
+    const handleAcceptInvite = async (token: string) => {
+        try {
+            const room = await acceptInvite(token);
+            onSelectChat(room.id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to accept invite');
+        }
+    };
+
+    // Start (or reopen) a direct message conversation with another user
+    const handleStartConversation = (otherUserId: string) => {
+        if (user && otherUserId) {
+            onSelectChat(getConversationId(user.id, otherUserId));
+        }
+    };
+
+    const handleCreateRoom = async (e: FormEvent) => {
+        e.preventDefault();
+
+        if (!roomName.trim()) {
+            setError('Please enter a room name');
+            return;
+        }
+
+        setCreating(true);
+        setError(null);
+
+        try {
+            const room = await createRoom(roomName.trim(), roomDescription.trim(), roomIsPrivate);
+            setRoomName('');
+            setRoomDescription('');
+            setRoomIsPrivate(false);
+            setShowNewRoom(false);
+            onSelectChat(room.id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create room');
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    if (!roomsLoaded) {
         return (
             <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 p-4">
                 <div className="bg-white rounded-lg shadow-md p-8 w-full max-w-md text-center">
@@ -61,17 +93,159 @@ export function ChatSelect({ onSelectChat }: ChatSelectProps) {
                 <h1 className="text-2xl font-bold text-center mb-6">Welcome, {user?.user_metadata.username || 'User'}</h1>
                 <p className="text-gray-600 mb-6 text-center">Select a chat to begin messaging</p>
 
-                {chatRooms.map(room => (
+                {error && !showNewRoom && (
+                    <div className="bg-red-50 text-red-600 p-3 rounded-lg mb-4 text-sm">
+                        {error}
+                    </div>
+                )}
+
+                {/* Pending invites */}
+                {invites.map(invite => (
+                    <div
+                        key={invite.id}
+                        className="p-4 border border-blue-200 bg-blue-50 rounded-lg mb-4 flex items-center justify-between"
+                    >
+                        <div className="text-sm">
+                            You're invited to <span className="font-semibold">{invite.room?.name || invite.room_id}</span>
+                        </div>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => declineInvite(invite.token)}
+                                className="px-2 py-1 text-sm text-gray-600 hover:text-gray-800 focus:outline-none"
+                            >
+                                Decline
+                            </button>
+                            <button
+                                onClick={() => handleAcceptInvite(invite.token)}
+                                className="bg-blue-500 text-white px-3 py-1 text-sm rounded-lg"
+                            >
+                                Join
+                            </button>
+                        </div>
+                    </div>
+                ))}
+
+                {rooms.length === 0 && (
+                    <p className="text-gray-500 text-sm text-center mb-4">No rooms yet. Create the first one!</p>
+                )}
+
+                {rooms.map(room => (
                     <div
                         key={room.id}
                         className="p-4 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50 transition mb-4"
                         onClick={() => onSelectChat(room.id)}
                     >
-                        <h2 className="font-bold text-lg">{room.name}</h2>
+                        <div className="flex items-center justify-between gap-2">
+                            <h2 className="font-bold text-lg">
+                                {room.name}
+                                {room.is_private && <span className="ml-2 text-xs font-normal text-gray-500">🔒 Private</span>}
+                            </h2>
+                            <UnreadBadge
+                                count={unreadCounts[room.id]?.unread_count || 0}
+                                mentions={unreadCounts[room.id]?.mention_count || 0}
+                            />
+                        </div>
                         <p className="text-gray-500 text-sm">{room.description}</p>
                     </div>
                 ))}
+
+                {/* New room form */}
+                {showNewRoom ? (
+                    <form onSubmit={handleCreateRoom} className="space-y-3 border border-gray-200 rounded-lg p-4">
+                        {error && (
+                            <div className="bg-red-50 text-red-600 p-2 rounded-lg text-sm">
+                                {error}
+                            </div>
+                        )}
+                        <input
+                            type="text"
+                            value={roomName}
+                            onChange={(e) => setRoomName(e.target.value)}
+                            placeholder="Room name"
+                            maxLength={50}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            autoFocus
+                        />
+                        <input
+                            type="text"
+                            value={roomDescription}
+                            onChange={(e) => setRoomDescription(e.target.value)}
+                            placeholder="Description (optional)"
+                            maxLength={200}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={roomIsPrivate}
+                                onChange={(e) => setRoomIsPrivate(e.target.checked)}
+                            />
+                            Private (members join by invite only)
+                        </label>
+                        <div className="flex justify-end gap-2">
+                            <button
+                                type="button"
+                                onClick={() => { setShowNewRoom(false); setError(null); }}
+                                className="px-4 py-2 text-gray-600 hover:text-gray-800 focus:outline-none"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={creating || !roomName.trim()}
+                                className="bg-blue-500 text-white px-4 py-2 rounded-lg disabled:opacity-50"
+                            >
+                                {creating ? 'Creating...' : 'Create'}
+                            </button>
+                        </div>
+                    </form>
+                ) : (
+                    <button
+                        onClick={() => setShowNewRoom(true)}
+                        className="w-full p-3 border border-dashed border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50 transition"
+                    >
+                        + New room
+                    </button>
+                )}
+
+                {/* Direct message conversations */}
+                <h2 className="font-semibold text-gray-700 mt-8 mb-3">Direct messages</h2>
+                {conversations.map(conversation => (
+                    <div
+                        key={conversation.id}
+                        className="p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50 transition mb-3 flex items-center gap-3"
+                        onClick={() => onSelectChat(conversation.id)}
+                    >
+                        <UserAvatar
+                            userId={conversation.other_user.id}
+                            username={conversation.other_user.username}
+                            size="sm"
+                        />
+                        <div className="min-w-0 flex-1">
+                            <div className="font-medium">{conversation.other_user.username}</div>
+                            {conversation.last_message && (
+                                <div className="text-gray-500 text-sm truncate">{conversation.last_message.content}</div>
+                            )}
+                        </div>
+                        <UnreadBadge
+                            count={unreadCounts[conversation.id]?.unread_count || 0}
+                            mentions={unreadCounts[conversation.id]?.mention_count || 0}
+                        />
+                    </div>
+                ))}
+                <select
+                    value=""
+                    onChange={(e) => handleStartConversation(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-600"
+                >
+                    <option value="">+ New direct message...</option>
+                    {users
+                        .filter(u => u.id !== user?.id)
+                        .map(u => (
+                            <option key={u.id} value={u.id}>{u.username}</option>
+                        ))}
+                </select>
             </div>
         </div>
     );
-} 
\ No newline at end of file
+}
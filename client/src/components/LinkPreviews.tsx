@@ -0,0 +1,42 @@
+import { useState } from 'react';
+import { LinkPreview } from 'shared';
+
+function LinkPreviewCard({ preview }: { preview: LinkPreview }) {
+    // Images that fail to load are hidden rather than shown broken
+    const [imageFailed, setImageFailed] = useState(false);
+
+    return (
+        <a
+            href={preview.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex max-w-[360px] bg-white text-gray-800 border border-gray-300 border-l-4 border-l-blue-400 rounded-lg overflow-hidden hover:bg-gray-50"
+        >
+            <div className="flex-1 min-w-0 px-3 py-2">
+                {preview.site_name && <div className="text-xs text-gray-500 truncate">{preview.site_name}</div>}
+                {preview.title && <div className="text-sm font-semibold line-clamp-2">{preview.title}</div>}
+                {preview.description && <div className="text-xs text-gray-600 line-clamp-3">{preview.description}</div>}
+            </div>
+            {preview.image_url && !imageFailed && (
+                <img
+                    src={preview.image_url}
+                    alt=""
+                    loading="lazy"
+                    referrerPolicy="no-referrer"
+                    onError={() => setImageFailed(true)}
+                    className="w-20 h-20 object-cover self-center flex-shrink-0 mr-2 rounded"
+                />
+            )}
+        </a>
+    );
+}
+
+export function LinkPreviews({ previews }: { previews: LinkPreview[] }) {
+    if (previews.length === 0) return null;
+
+    return (
+        <div className="flex flex-col gap-2 mt-2">
+            {previews.map(preview => <LinkPreviewCard key={preview.url} preview={preview} />)}
+        </div>
+    );
+}
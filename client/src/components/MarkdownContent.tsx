@@ -0,0 +1,97 @@
+import { Fragment, ReactNode, useMemo } from 'react';
+import { parseMarkdown, BlockNode, InlineNode } from '../utils/markdown';
+import { highlightCode, CodeTokenType } from '../utils/highlight';
+
+interface MarkdownContentProps {
+    content: string;
+    // Lighter styling for text on a dark background, such as the user's own messages
+    inverted?: boolean;
+    // Renders plain text, e.g. to highlight @mentions; code is never passed through it
+    renderText?: (text: string) => ReactNode;
+}
+
+const TOKEN_CLASSES: Record<CodeTokenType, string> = {
+    plain: '',
+    comment: 'text-gray-400 italic',
+    string: 'text-green-300',
+    number: 'text-orange-300',
+    keyword: 'text-purple-300 font-semibold'
+};
+
+/**
+ * Render text, keeping its line breaks
+ */
+function renderLines(text: string, renderText?: (text: string) => ReactNode) {
+    return text.split('\n').map((line, index) => (
+        <Fragment key={index}>
+            {index > 0 && <br />}
+            {renderText ? renderText(line) : line}
+        </Fragment>
+    ));
+}
+
+function renderInline(nodes: InlineNode[], props: MarkdownContentProps): ReactNode {
+    return nodes.map((node, index) => {
+        switch (node.type) {
+            case 'text':
+                return <Fragment key={index}>{renderLines(node.text, props.renderText)}</Fragment>;
+            case 'code':
+                return (
+                    <code key={index} className={`font-mono text-[0.9em] rounded px-1 ${props.inverted ? 'bg-blue-700' : 'bg-gray-300'}`}>
+                        {node.text}
+                    </code>
+                );
+            case 'strong':
+                return <strong key={index}>{renderInline(node.children, props)}</strong>;
+            case 'em':
+                return <em key={index}>{renderInline(node.children, props)}</em>;
+            case 'link':
+                return (
+                    <a
+                        key={index}
+                        href={node.href}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className={`underline ${props.inverted ? 'text-white' : 'text-blue-700'}`}
+                    >
+                        {renderInline(node.children, props)}
+                    </a>
+                );
+        }
+    });
+}
+
+function renderBlocks(blocks: BlockNode[], props: MarkdownContentProps): ReactNode {
+    return blocks.map((block, index) => {
+        switch (block.type) {
+            case 'paragraph':
+                return <p key={index}>{renderInline(block.children, props)}</p>;
+            case 'code_block':
+                return (
+                    <pre key={index} className="bg-gray-900 text-gray-100 text-sm font-mono rounded-lg px-3 py-2 overflow-x-auto">
+                        <code>
+                            {highlightCode(block.code, block.language).map((token, tokenIndex) => (
+                                <span key={tokenIndex} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+                            ))}
+                        </code>
+                    </pre>
+                );
+            case 'blockquote':
+                return (
+                    <blockquote key={index} className={`border-l-4 pl-3 space-y-1 ${props.inverted ? 'border-blue-300 text-blue-50' : 'border-gray-400 text-gray-600'}`}>
+                        {renderBlocks(block.children, props)}
+                    </blockquote>
+                );
+        }
+    });
+}
+
+/**
+ * Show message content with its Markdown formatting. Content is rendered as React elements
+ * rather than HTML, so anything that looks like markup is shown as text.
+ */
+export function MarkdownContent(props: MarkdownContentProps) {
+    const blocks = useMemo(() => parseMarkdown(props.content), [props.content]);
+
+    return <div className="space-y-2">{renderBlocks(blocks, props)}</div>;
+}
@@ -0,0 +1,122 @@
+import { useState, useEffect, useCallback } from 'react';
+import { MessageAttachment } from 'shared';
+import { useAuth } from '../context/AuthContext';
+
+// Image previews are scaled down to fit in this box
+const PREVIEW_MAX_WIDTH = 240;
+const PREVIEW_MAX_HEIGHT = 180;
+
+// "532 B", "14.2 KB", "3.1 MB"
+const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const isImage = (attachment: MessageAttachment) => attachment.mime_type.startsWith('image/') && !!attachment.width;
+
+/**
+ * Fetch an attachment as the signed-in user. Attachments need the access token,
+ * so they are loaded as blobs rather than linked to directly.
+ */
+function useAttachmentBlob() {
+    const { authFetch } = useAuth();
+
+    return useCallback(async (attachmentId: string) => {
+        const response = await authFetch(`/api/attachments/${attachmentId}`);
+        if (!response.ok) {
+            throw new Error('Failed to load attachment');
+        }
+        return response.blob();
+    }, [authFetch]);
+}
+
+function ImagePreview({ attachment }: { attachment: MessageAttachment }) {
+    const fetchBlob = useAttachmentBlob();
+    const [url, setUrl] = useState<string | null>(null);
+    const [failed, setFailed] = useState(false);
+
+    useEffect(() => {
+        let objectUrl: string | null = null;
+        let cancelled = false;
+
+        fetchBlob(attachment.id)
+            .then(blob => {
+                if (cancelled) return;
+                objectUrl = URL.createObjectURL(blob);
+                setUrl(objectUrl);
+            })
+            .catch(error => {
+                console.error('Error loading image attachment:', error);
+                if (!cancelled) setFailed(true);
+            });
+
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [attachment.id, fetchBlob]);
+
+    // Reserve the scaled-down size of the image while it loads
+    const scale = Math.min(1, PREVIEW_MAX_WIDTH / attachment.width!, PREVIEW_MAX_HEIGHT / attachment.height!);
+    const width = Math.round(attachment.width! * scale);
+    const height = Math.round(attachment.height! * scale);
+
+    if (failed) {
+        return <FileChip attachment={attachment} />;
+    }
+
+    return url ? (
+        <a href={url} target="_blank" rel="noreferrer">
+            <img src={url} alt={attachment.filename} width={width} height={height} className="rounded-lg object-cover" />
+        </a>
+    ) : (
+        <div style={{ width, height }} className="rounded-lg bg-gray-300 animate-pulse" />
+    );
+}
+
+function FileChip({ attachment }: { attachment: MessageAttachment }) {
+    const fetchBlob = useAttachmentBlob();
+    const [downloading, setDownloading] = useState(false);
+
+    const download = async () => {
+        setDownloading(true);
+        try {
+            const url = URL.createObjectURL(await fetchBlob(attachment.id));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = attachment.filename;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('Error downloading attachment:', error);
+        } finally {
+            setDownloading(false);
+        }
+    };
+
+    return (
+        <button
+            onClick={download}
+            disabled={downloading}
+            className="flex items-center gap-2 max-w-[240px] bg-white text-gray-800 border border-gray-300 rounded-lg px-3 py-2 text-sm hover:bg-gray-50 focus:outline-none disabled:opacity-50"
+        >
+            <span>📄</span>
+            <span className="truncate">{attachment.filename}</span>
+            <span className="text-xs text-gray-500 whitespace-nowrap">{formatFileSize(attachment.size_bytes)}</span>
+        </button>
+    );
+}
+
+export function MessageAttachments({ attachments }: { attachments: MessageAttachment[] }) {
+    if (attachments.length === 0) return null;
+
+    return (
+        <div className="flex flex-wrap gap-2 mt-1">
+            {attachments.map(attachment => isImage(attachment)
+                ? <ImagePreview key={attachment.id} attachment={attachment} />
+                : <FileChip key={attachment.id} attachment={attachment} />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,401 @@
+import { Fragment, useState, useEffect, KeyboardEvent } from 'react';
+import { MAX_MESSAGE_LENGTH, Message, MessageEdit } from 'shared';
+import { UserAvatar } from './UserAvatar';
+import { MessageAttachments } from './MessageAttachments';
+import { MarkdownContent } from './MarkdownContent';
+import { LinkPreviews } from './LinkPreviews';
+
+// Emojis offered by the reaction picker
+const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🎉'];
+
+export interface MessageBubbleProps {
+    message: Message;
+    isOwnMessage: boolean;
+    onEdit?: (message: Message, content: string) => Promise<void>;
+    onLoadEditHistory?: (message: Message) => Promise<MessageEdit[]>;
+    onDelete?: (message: Message) => Promise<void>;
+    canDelete?: boolean;
+    onToggleReaction?: (message: Message, emoji: string) => Promise<void>;
+    // Not set inside a thread, where replies cannot start threads of their own
+    onOpenThread?: (message: Message) => void;
+    // Mentions of this username are highlighted more strongly
+    currentUsername?: string;
+    isPinned?: boolean;
+    // Only set for room owners and admins, who may pin messages
+    onTogglePin?: (message: Message) => Promise<void>;
+    // Saved to the current user's bookmarks
+    isBookmarked?: boolean;
+    onToggleBookmark?: (message: Message) => Promise<void>;
+}
+
+// An @username at the start of the message or after whitespace, as the server parses mentions
+const MENTION_PATTERN = /(^|\s)@([\w.-]*\w)/g;
+
+/**
+ * Split message content into text and @mention parts
+ */
+function splitMentions(content: string): { text: string; username?: string }[] {
+    const parts: { text: string; username?: string }[] = [];
+    let last = 0;
+
+    for (const match of content.matchAll(MENTION_PATTERN)) {
+        const start = match.index! + match[1].length;
+        if (start > last) {
+            parts.push({ text: content.slice(last, start) });
+        }
+        parts.push({ text: `@${match[2]}`, username: match[2] });
+        last = start + match[2].length + 1;
+    }
+
+    if (last < content.length) {
+        parts.push({ text: content.slice(last) });
+    }
+    return parts;
+}
+
+// Format timestamp
+const formatTime = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+export function MessageBubble({ message, isOwnMessage, onEdit, onLoadEditHistory, onDelete, canDelete = false, onToggleReaction, onOpenThread, currentUsername, isPinned = false, onTogglePin, isBookmarked = false, onToggleBookmark }: MessageBubbleProps) {
+    const [editing, setEditing] = useState(false);
+    const [draft, setDraft] = useState(message.content);
+    const [saving, setSaving] = useState(false);
+    const [editError, setEditError] = useState<string | null>(null);
+    const [history, setHistory] = useState<MessageEdit[] | null>(null);
+    const [showHistory, setShowHistory] = useState(false);
+    const [deleting, setDeleting] = useState(false);
+    const [showPicker, setShowPicker] = useState(false);
+
+    // Another edit makes any loaded history stale
+    useEffect(() => {
+        setHistory(null);
+        setShowHistory(false);
+    }, [message.edited_at]);
+
+    const startEditing = () => {
+        setDraft(message.content);
+        setEditError(null);
+        setEditing(true);
+    };
+
+    const saveEdit = async () => {
+        if (!onEdit || !draft.trim()) return;
+
+        if (draft === message.content) {
+            setEditing(false);
+            return;
+        }
+
+        setSaving(true);
+        setEditError(null);
+        try {
+            await onEdit(message, draft);
+            setEditing(false);
+        } catch (err) {
+            setEditError(err instanceof Error ? err.message : 'Failed to edit message');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleEditKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            saveEdit();
+        } else if (e.key === 'Escape') {
+            setEditing(false);
+        }
+    };
+
+    const deleteMessage = async () => {
+        if (!onDelete || !window.confirm('Delete this message?')) return;
+
+        setDeleting(true);
+        try {
+            await onDelete(message);
+        } catch (err) {
+            console.error('Error deleting message:', err);
+            window.alert(err instanceof Error ? err.message : 'Failed to delete message');
+        } finally {
+            setDeleting(false);
+        }
+    };
+
+    const toggleReaction = async (emoji: string) => {
+        if (!onToggleReaction) return;
+
+        setShowPicker(false);
+        try {
+            await onToggleReaction(message, emoji);
+        } catch (err) {
+            console.error('Error updating reaction:', err);
+        }
+    };
+
+    const togglePin = async () => {
+        if (!onTogglePin) return;
+
+        try {
+            await onTogglePin(message);
+        } catch (err) {
+            console.error('Error updating pin:', err);
+            window.alert(err instanceof Error ? err.message : 'Failed to update pin');
+        }
+    };
+
+    const toggleBookmark = async () => {
+        if (!onToggleBookmark) return;
+
+        try {
+            await onToggleBookmark(message);
+        } catch (err) {
+            console.error('Error updating bookmark:', err);
+            window.alert(err instanceof Error ? err.message : 'Failed to update bookmark');
+        }
+    };
+
+    const toggleHistory = async () => {
+        if (showHistory) {
+            setShowHistory(false);
+            return;
+        }
+
+        setShowHistory(true);
+        if (!history && onLoadEditHistory) {
+            try {
+                setHistory(await onLoadEditHistory(message));
+            } catch (err) {
+                console.error('Error loading edit history:', err);
+                setHistory([]);
+            }
+        }
+    };
+
+    const replyCount = message.reply_count || 0;
+
+    const contentParts = splitMentions(message.content);
+    const isCurrentUser = (username?: string) =>
+        !!username && !!currentUsername && username.toLowerCase() === currentUsername.toLowerCase();
+    // Messages from others that mention the current user stand out
+    const mentionsCurrentUser = !isOwnMessage && contentParts.some(part => isCurrentUser(part.username));
+
+    // Highlight @mentions in the formatted text
+    const renderMentions = (text: string) => splitMentions(text).map((part, index) => !part.username ? (
+        <Fragment key={index}>{part.text}</Fragment>
+    ) : (
+        <span
+            key={index}
+            className={isCurrentUser(part.username)
+                ? 'bg-yellow-200 text-gray-900 font-semibold rounded px-0.5'
+                : `font-semibold ${isOwnMessage ? 'text-white underline' : 'text-blue-700'}`}
+        >
+            {part.text}
+        </span>
+    ));
+
+    // Link to the thread of a message that has replies
+    const threadLink = onOpenThread && replyCount > 0 && (
+        <button
+            onClick={() => onOpenThread(message)}
+            className={`text-xs text-blue-600 hover:underline focus:outline-none ${isOwnMessage ? '' : 'ml-10'}`}
+        >
+            {replyCount === 1 ? '1 reply' : `${replyCount} replies`}
+        </button>
+    );
+
+    // Deleted messages stay in place as a tombstone
+    if (message.deleted_at) {
+        return (
+            <div className={`flex flex-col gap-1 ${isOwnMessage ? 'items-end' : 'items-start'}`}>
+                <div className="border border-dashed border-gray-300 rounded-lg px-4 py-2 text-sm italic text-gray-400">
+                    message deleted
+                </div>
+                {threadLink}
+            </div>
+        );
+    }
+
+    return (
+        <div className={`group flex flex-col gap-1 ${isOwnMessage ? 'items-end' : 'items-start'}`}>
+            <div className={`flex ${isOwnMessage ? 'flex-row-reverse' : 'flex-row'} items-end gap-2 max-w-[80%]`}>
+                {/* Avatar (only shown for other users) */}
+                {!isOwnMessage && (
+                    <UserAvatar
+                        userId={message.sender.id}
+                        username={message.sender.username}
+                        size="sm"
+                    />
+                )}
+
+                {/* Message bubble */}
+                <div
+                    className={`${isOwnMessage
+                        ? 'bg-blue-500 text-white rounded-tl-lg rounded-tr-lg rounded-bl-lg'
+                        : 'bg-gray-200 text-gray-800 rounded-tl-lg rounded-tr-lg rounded-br-lg'
+                        } ${mentionsCurrentUser ? 'ring-2 ring-yellow-400' : ''} px-4 py-2 min-w-0 break-words`}
+                >
+                    {/* Sender name in [username] format */}
+                    <div className={`text-xs font-semibold mb-1 ${isOwnMessage ? 'text-blue-100' : 'text-gray-600'}`}>
+                        [{message.sender.username}]
+                    </div>
+
+                    {/* Message content, or the inline editor */}
+                    {editing ? (
+                        <div className="space-y-1">
+                            <textarea
+                                className="w-full min-w-[200px] rounded px-2 py-1 text-gray-800 resize-none focus:outline-none"
+                                value={draft}
+                                maxLength={MAX_MESSAGE_LENGTH}
+                                onChange={(e) => setDraft(e.target.value)}
+                                onKeyDown={handleEditKeyDown}
+                                rows={2}
+                                autoFocus
+                                disabled={saving}
+                            />
+                            {editError && <div className="text-xs text-red-200">{editError}</div>}
+                            <div className="flex justify-end gap-2 text-xs">
+                                <button onClick={() => setEditing(false)} className="focus:outline-none" disabled={saving}>
+                                    Cancel
+                                </button>
+                                <button onClick={saveEdit} className="font-semibold focus:outline-none" disabled={saving || !draft.trim()}>
+                                    {saving ? 'Saving...' : 'Save'}
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <MarkdownContent content={message.content} inverted={isOwnMessage} renderText={renderMentions} />
+                    )}
+
+                    {/* Image previews and files */}
+                    {message.attachments && <MessageAttachments attachments={message.attachments} />}
+
+                    {/* Previews of linked pages, added by the server once fetched */}
+                    {message.link_previews && <LinkPreviews previews={message.link_previews} />}
+
+                    {/* Timestamp, edited marker and actions */}
+                    <div className={`text-xs mt-1 flex items-center gap-2 ${isOwnMessage ? 'text-blue-100' : 'text-gray-500'}`}>
+                        <span>{formatTime(message.created_at)}</span>
+                        {isPinned && <span title="Pinned to the top of the room">📌 Pinned</span>}
+                        {isBookmarked && <span title="In your saved messages">🔖</span>}
+                        {message.edited_at && (
+                            <button
+                                onClick={toggleHistory}
+                                className="italic hover:underline focus:outline-none"
+                                title="Show edit history"
+                            >
+                                (edited)
+                            </button>
+                        )}
+                        {isOwnMessage && onEdit && !editing && (
+                            <button
+                                onClick={startEditing}
+                                className="opacity-0 group-hover:opacity-100 hover:underline focus:outline-none focus:opacity-100"
+                            >
+                                Edit
+                            </button>
+                        )}
+                        {onToggleReaction && !editing && (
+                            <button
+                                onClick={() => setShowPicker(!showPicker)}
+                                className="opacity-0 group-hover:opacity-100 hover:underline focus:outline-none focus:opacity-100"
+                                title="Add reaction"
+                            >
+                                React
+                            </button>
+                        )}
+                        {onOpenThread && !editing && (
+                            <button
+                                onClick={() => onOpenThread(message)}
+                                className="opacity-0 group-hover:opacity-100 hover:underline focus:outline-none focus:opacity-100"
+                            >
+                                Reply
+                            </button>
+                        )}
+                        {onToggleBookmark && !editing && (
+                            <button
+                                onClick={toggleBookmark}
+                                className="opacity-0 group-hover:opacity-100 hover:underline focus:outline-none focus:opacity-100"
+                            >
+                                {isBookmarked ? 'Unsave' : 'Save'}
+                            </button>
+                        )}
+                        {onTogglePin && !editing && (
+                            <button
+                                onClick={togglePin}
+                                className="opacity-0 group-hover:opacity-100 hover:underline focus:outline-none focus:opacity-100"
+                            >
+                                {isPinned ? 'Unpin' : 'Pin'}
+                            </button>
+                        )}
+                        {canDelete && onDelete && !editing && (
+                            <button
+                                onClick={deleteMessage}
+                                disabled={deleting}
+                                className="opacity-0 group-hover:opacity-100 hover:underline focus:outline-none focus:opacity-100"
+                            >
+                                {deleting ? 'Deleting...' : 'Delete'}
+                            </button>
+                        )}
+                    </div>
+
+                    {/* Previous versions */}
+                    {showHistory && (
+                        <div className={`mt-2 pt-2 border-t text-xs space-y-1 ${isOwnMessage ? 'border-blue-400 text-blue-100' : 'border-gray-300 text-gray-600'}`}>
+                            {history === null ? (
+                                <div>Loading history...</div>
+                            ) : history.length === 0 ? (
+                                <div>No earlier versions</div>
+                            ) : (
+                                history.map(edit => (
+                                    <div key={edit.id}>
+                                        <span className="opacity-75">{new Date(edit.edited_at).toLocaleString()}:</span>{' '}
+                                        <span className="line-through">{edit.previous_content}</span>
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Reaction picker */}
+            {showPicker && (
+                <div className={`flex gap-1 bg-white border border-gray-200 rounded-full px-2 py-1 shadow-sm ${isOwnMessage ? '' : 'ml-10'}`}>
+                    {REACTION_EMOJIS.map(emoji => (
+                        <button
+                            key={emoji}
+                            onClick={() => toggleReaction(emoji)}
+                            className="text-lg hover:scale-125 transition-transform focus:outline-none"
+                        >
+                            {emoji}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {/* Reaction counts */}
+            {message.reactions && message.reactions.length > 0 && (
+                <div className={`flex flex-wrap gap-1 ${isOwnMessage ? '' : 'ml-10'}`}>
+                    {message.reactions.map(reaction => (
+                        <button
+                            key={reaction.emoji}
+                            onClick={() => toggleReaction(reaction.emoji)}
+                            disabled={!onToggleReaction}
+                            className={`text-xs px-2 py-0.5 rounded-full border focus:outline-none ${reaction.reacted
+                                ? 'bg-blue-50 border-blue-300 text-blue-700'
+                                : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
+                                }`}
+                        >
+                            {reaction.emoji} {reaction.count}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {threadLink}
+        </div>
+    );
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MessageInput } from './MessageInput';
+
+describe('MessageInput', () => {
+    const setup = () => {
+        const onSendMessage = vi.fn(async () => undefined);
+        render(<MessageInput onSendMessage={onSendMessage} />);
+        return { onSendMessage, textarea: screen.getByPlaceholderText('Type a message...') };
+    };
+
+    it('sends the message on Enter and clears the input', async () => {
+        const user = userEvent.setup();
+        const { onSendMessage, textarea } = setup();
+
+        await user.type(textarea, 'Hello there{Enter}');
+
+        expect(onSendMessage).toHaveBeenCalledWith('Hello there', []);
+        expect(textarea).toHaveValue('');
+    });
+
+    it('inserts a new line on Shift+Enter instead of sending', async () => {
+        const user = userEvent.setup();
+        const { onSendMessage, textarea } = setup();
+
+        await user.type(textarea, 'First line{Shift>}{Enter}{/Shift}Second line');
+
+        expect(onSendMessage).not.toHaveBeenCalled();
+        expect(textarea).toHaveValue('First line\nSecond line');
+
+        await user.type(textarea, '{Enter}');
+        expect(onSendMessage).toHaveBeenCalledWith('First line\nSecond line', []);
+    });
+
+    it('does not send blank messages', async () => {
+        const user = userEvent.setup();
+        const { onSendMessage, textarea } = setup();
+
+        await user.type(textarea, '   {Enter}');
+
+        expect(onSendMessage).not.toHaveBeenCalled();
+        expect(screen.getByRole('button', { name: 'Send' })).toBeDisabled();
+    });
+
+    it('sends with the Send button', async () => {
+        const user = userEvent.setup();
+        const { onSendMessage, textarea } = setup();
+
+        await user.type(textarea, 'Clicked');
+        await user.click(screen.getByRole('button', { name: 'Send' }));
+
+        expect(onSendMessage).toHaveBeenCalledWith('Clicked', []);
+    });
+});
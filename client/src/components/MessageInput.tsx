@@ -1,24 +1,264 @@
-import { useState, FormEvent, KeyboardEvent } from 'react';
+import { useState, useRef, useEffect, useCallback, FormEvent, KeyboardEvent, DragEvent, ClipboardEvent } from 'react';
+import { MAX_MESSAGE_LENGTH, MessageAttachment } from 'shared';
+import { MarkdownContent } from './MarkdownContent';
+
+// While the user keeps typing, "typing" is signalled again this often so it does not expire
+const TYPING_HEARTBEAT_MS = 3000;
+// The user counts as no longer typing after this long without a keystroke
+const TYPING_IDLE_MS = 4000;
+// At most this many usernames are suggested while typing a mention
+const MAX_MENTION_SUGGESTIONS = 5;
+
+// A user who can be mentioned as @username
+export interface MentionCandidate {
+    id: string;
+    username: string;
+}
+
+// A file being uploaded, or uploaded and waiting to be sent
+interface PendingUpload {
+    key: number;
+    file: File;
+    progress: number;
+    attachment?: MessageAttachment;
+    error?: string;
+}
+
+// The @username being typed just before the caret
+interface MentionQuery {
+    start: number;
+    text: string;
+}
+
+// Turns the selected text into formatted text, giving the range to select afterwards
+type Formatter = (selected: string) => { text: string; select: [number, number] };
+
+const wrapWith = (marker: string, text: string): ReturnType<Formatter> => ({
+    text: `${marker}${text}${marker}`,
+    select: [marker.length, marker.length + text.length]
+});
+
+// Formatting applied with Ctrl (or Cmd) and a key
+const FORMAT_SHORTCUTS: Record<string, Formatter> = {
+    b: selected => wrapWith('**', selected || 'bold text'),
+    i: selected => wrapWith('_', selected || 'italic text'),
+    e: selected => wrapWith('`', selected || 'code'),
+    // The URL placeholder is selected so it can be typed over
+    k: selected => {
+        const label = selected || 'link text';
+        return { text: `[${label}](url)`, select: [label.length + 3, label.length + 6] };
+    }
+};
+
+/**
+ * Find the mention being typed at the caret, if any
+ */
+function findMentionQuery(value: string, caret: number): MentionQuery | null {
+    const match = /(^|\s)@([\w.-]*)$/.exec(value.slice(0, caret));
+    if (!match) return null;
+    return { start: match.index + match[1].length, text: match[2] };
+}
 
 export interface MessageInputProps {
-    onSendMessage: (content: string) => Promise<void>;
+    onSendMessage: (content: string, attachmentIds: string[]) => Promise<void>;
+    onTypingChange?: (typing: boolean) => void;
     placeholder?: string;
     disabled?: boolean;
+    mentionCandidates?: MentionCandidate[];
+    // Files can only be attached when this is set
+    onUploadFile?: (file: File, onProgress: (progress: number) => void) => Promise<MessageAttachment>;
 }
 
-export function MessageInput({ onSendMessage, placeholder = 'Type a message...', disabled = false }: MessageInputProps) {
+export function MessageInput({ onSendMessage, onTypingChange, placeholder = 'Type a message...', disabled = false, mentionCandidates = [], onUploadFile }: MessageInputProps) {
     const [message, setMessage] = useState('');
+    const [uploads, setUploads] = useState<PendingUpload[]>([]);
+    const [dragging, setDragging] = useState(false);
+    const nextUploadKeyRef = useRef(0);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+    const [selectedSuggestion, setSelectedSuggestion] = useState(0);
+    const [previewing, setPreviewing] = useState(false);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const typingRef = useRef(false);
+    const lastTypingSignalRef = useRef(0);
+    const idleTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+    const onTypingChangeRef = useRef(onTypingChange);
+    onTypingChangeRef.current = onTypingChange;
+
+    const stopTyping = useCallback(() => {
+        clearTimeout(idleTimerRef.current);
+        if (typingRef.current) {
+            typingRef.current = false;
+            onTypingChangeRef.current?.(false);
+        }
+    }, []);
+
+    // Stop typing when the input goes away, e.g. when switching chats
+    useEffect(() => stopTyping, [stopTyping]);
+
+    const suggestions = mentionQuery
+        ? mentionCandidates
+            .filter(candidate => candidate.username.toLowerCase().startsWith(mentionQuery.text.toLowerCase()))
+            .slice(0, MAX_MENTION_SUGGESTIONS)
+        : [];
+
+    const updateMentionQuery = (value: string, caret: number) => {
+        setMentionQuery(findMentionQuery(value, caret));
+        setSelectedSuggestion(0);
+    };
+
+    // Replace the partly typed mention with the chosen username
+    const insertMention = (candidate: MentionCandidate) => {
+        if (!mentionQuery) return;
+
+        const end = mentionQuery.start + 1 + mentionQuery.text.length;
+        const inserted = `@${candidate.username} `;
+        const value = message.slice(0, mentionQuery.start) + inserted + message.slice(end);
+        const caret = mentionQuery.start + inserted.length;
+
+        setMessage(value);
+        setMentionQuery(null);
+        requestAnimationFrame(() => {
+            textareaRef.current?.focus();
+            textareaRef.current?.setSelectionRange(caret, caret);
+        });
+    };
+
+    const handleChange = (value: string, caret: number) => {
+        setMessage(value);
+        updateMentionQuery(value, caret);
+        if (!onTypingChangeRef.current) return;
+
+        if (!value.trim()) {
+            stopTyping();
+            return;
+        }
+
+        // Signal typing on the first keystroke, then at most once per heartbeat
+        const now = Date.now();
+        if (!typingRef.current || now - lastTypingSignalRef.current >= TYPING_HEARTBEAT_MS) {
+            typingRef.current = true;
+            lastTypingSignalRef.current = now;
+            onTypingChangeRef.current(true);
+        }
+
+        clearTimeout(idleTimerRef.current);
+        idleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+    };
+
+    // Format the selected text, keeping it selected
+    const applyFormat = (format: Formatter) => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+
+        const { selectionStart: start, selectionEnd: end } = textarea;
+        const { text, select } = format(message.slice(start, end));
+        handleChange(message.slice(0, start) + text + message.slice(end), start + select[1]);
+        requestAnimationFrame(() => {
+            textarea.focus();
+            textarea.setSelectionRange(start + select[0], start + select[1]);
+        });
+    };
+
+    const togglePreview = () => {
+        setPreviewing(!previewing);
+        setMentionQuery(null);
+        if (previewing) {
+            requestAnimationFrame(() => textareaRef.current?.focus());
+        }
+    };
+
+    const updateUpload = (key: number, changes: Partial<PendingUpload>) => {
+        setUploads(prev => prev.map(upload => upload.key === key ? { ...upload, ...changes } : upload));
+    };
+
+    // Start uploading files as soon as they are dropped, pasted or picked
+    const addFiles = (files: FileList | File[]) => {
+        if (!onUploadFile || disabled) return;
+
+        Array.from(files).forEach(file => {
+            const key = nextUploadKeyRef.current++;
+            setUploads(prev => [...prev, { key, file, progress: 0 }]);
+            onUploadFile(file, progress => updateUpload(key, { progress }))
+                .then(attachment => updateUpload(key, { attachment, progress: 1 }))
+                .catch(error => updateUpload(key, {
+                    error: error instanceof Error ? error.message : 'Upload failed'
+                }));
+        });
+    };
+
+    const removeUpload = (key: number) => {
+        setUploads(prev => prev.filter(upload => upload.key !== key));
+    };
+
+    const uploading = uploads.some(upload => !upload.attachment && !upload.error);
+    const attachmentIds = uploads
+        .map(upload => upload.attachment?.id)
+        .filter((id): id is string => !!id);
+    const canSend = !disabled && !uploading && (!!message.trim() || attachmentIds.length > 0);
 
     const handleSubmit = async (e: FormEvent) => {
         e.preventDefault();
 
-        if (!message.trim() || disabled) return;
+        if (!canSend) return;
 
-        await onSendMessage(message);
+        stopTyping();
+        setMentionQuery(null);
+        await onSendMessage(message, attachmentIds);
         setMessage('');
+        setUploads([]);
+        setPreviewing(false);
+    };
+
+    const handleDragOver = (e: DragEvent<HTMLFormElement>) => {
+        if (!onUploadFile || !e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setDragging(true);
+    };
+
+    const handleDrop = (e: DragEvent<HTMLFormElement>) => {
+        if (!onUploadFile) return;
+        e.preventDefault();
+        setDragging(false);
+        addFiles(e.dataTransfer.files);
+    };
+
+    // Pasted screenshots arrive as files; pasted text is left to the textarea
+    const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+        if (onUploadFile && e.clipboardData.files.length > 0) {
+            e.preventDefault();
+            addFiles(e.clipboardData.files);
+        }
     };
 
     const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+        const format = (e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey && FORMAT_SHORTCUTS[e.key.toLowerCase()];
+        if (format) {
+            e.preventDefault();
+            applyFormat(format);
+            return;
+        }
+
+        // While suggestions are open, the arrow keys, Enter, Tab and Escape drive them
+        if (suggestions.length > 0) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setSelectedSuggestion(prev => (prev + step + suggestions.length) % suggestions.length);
+                return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                e.preventDefault();
+                insertMention(suggestions[Math.min(selectedSuggestion, suggestions.length - 1)]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                setMentionQuery(null);
+                return;
+            }
+        }
+
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
             handleSubmit(e);
@@ -26,20 +266,122 @@ export function MessageInput({ onSendMessage, placeholder = 'Type a message...',
     };
 
     return (
-        <form onSubmit={handleSubmit} className="p-4">
-            <div className="flex items-end gap-2">
-                <textarea
-                    className="flex-1 border border-gray-300 rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none min-h-[40px] max-h-[120px]"
-                    placeholder={placeholder}
-                    value={message}
-                    onChange={(e) => setMessage(e.target.value)}
-                    onKeyDown={handleKeyDown}
-                    rows={1}
+        <form
+            onSubmit={handleSubmit}
+            onDragOver={handleDragOver}
+            onDragLeave={() => setDragging(false)}
+            onDrop={handleDrop}
+            className={`p-4 ${dragging ? 'bg-blue-50 ring-2 ring-inset ring-blue-300' : ''}`}
+        >
+            {/* Files being uploaded or waiting to be sent */}
+            {uploads.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-2">
+                    {uploads.map(upload => (
+                        <div
+                            key={upload.key}
+                            className={`flex items-center gap-2 max-w-[240px] border rounded-lg px-2 py-1 text-xs ${upload.error ? 'border-red-300 text-red-600' : 'border-gray-300 text-gray-700'}`}
+                        >
+                            <div className="min-w-0">
+                                <div className="truncate">{upload.file.name}</div>
+                                {upload.error ? (
+                                    <div>{upload.error}</div>
+                                ) : !upload.attachment && (
+                                    <div className="h-1 w-32 bg-gray-200 rounded mt-1">
+                                        <div className="h-1 bg-blue-500 rounded" style={{ width: `${Math.round(upload.progress * 100)}%` }} />
+                                    </div>
+                                )}
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => removeUpload(upload.key)}
+                                className="text-gray-400 hover:text-gray-600 focus:outline-none"
+                                aria-label={`Remove ${upload.file.name}`}
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <div className="relative flex items-end gap-2">
+                {onUploadFile && (
+                    <>
+                        <button
+                            type="button"
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={disabled}
+                            className="text-gray-500 hover:text-gray-700 px-2 py-2 focus:outline-none disabled:opacity-50"
+                            aria-label="Attach files"
+                        >
+                            📎
+                        </button>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            multiple
+                            className="hidden"
+                            onChange={(e) => {
+                                if (e.target.files) addFiles(e.target.files);
+                                e.target.value = '';
+                            }}
+                        />
+                    </>
+                )}
+                {/* Mention suggestions */}
+                {suggestions.length > 0 && (
+                    <ul className="absolute bottom-full left-0 mb-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-10">
+                        {suggestions.map((candidate, index) => (
+                            <li key={candidate.id}>
+                                <button
+                                    type="button"
+                                    // Keep the focus in the textarea
+                                    onMouseDown={(e) => e.preventDefault()}
+                                    onClick={() => insertMention(candidate)}
+                                    className={`w-full text-left px-3 py-1 text-sm ${index === selectedSuggestion ? 'bg-blue-100' : 'hover:bg-gray-100'}`}
+                                >
+                                    @{candidate.username}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {previewing ? (
+                    <div className="flex-1 min-w-0 border border-gray-300 rounded-lg py-2 px-3 min-h-[40px] max-h-[240px] overflow-y-auto break-words">
+                        {message.trim()
+                            ? <MarkdownContent content={message} />
+                            : <span className="text-gray-400">Nothing to preview</span>}
+                    </div>
+                ) : (
+                    <textarea
+                        ref={textareaRef}
+                        className="flex-1 border border-gray-300 rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none min-h-[40px] max-h-[120px]"
+                        placeholder={placeholder}
+                        value={message}
+                        maxLength={MAX_MESSAGE_LENGTH}
+                        onChange={(e) => handleChange(e.target.value, e.target.selectionStart)}
+                        onSelect={(e) => updateMentionQuery(e.currentTarget.value, e.currentTarget.selectionStart)}
+                        onBlur={() => {
+                            stopTyping();
+                            setMentionQuery(null);
+                        }}
+                        onKeyDown={handleKeyDown}
+                        onPaste={handlePaste}
+                        rows={1}
+                        disabled={disabled}
+                    />
+                )}
+                <button
+                    type="button"
+                    onClick={togglePreview}
                     disabled={disabled}
-                />
+                    className="text-sm text-gray-600 hover:text-gray-800 px-2 py-2 focus:outline-none disabled:opacity-50"
+                    title="Formatting: **bold** (Ctrl+B), _italics_ (Ctrl+I), `code` (Ctrl+E), [links](url) (Ctrl+K), ```code blocks``` and > quotes"
+                >
+                    {previewing ? 'Edit' : 'Preview'}
+                </button>
                 <button
                     type="submit"
-                    disabled={!message.trim() || disabled}
+                    disabled={!canSend}
                     className="bg-blue-500 text-white px-4 py-2 rounded-lg disabled:opacity-50"
                 >
                     Send
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Message } from 'shared';
+import { MessageList } from './MessageList';
+
+vi.mock('../context/AuthContext', () => ({
+    useAuth: () => ({ authFetch: vi.fn() })
+}));
+
+vi.mock('../context/AblyContext', () => ({
+    useAbly: () => ({ userPresence: new Map() })
+}));
+
+const alice = { id: 'alice-id', username: 'alice' };
+const bob = { id: 'bob-id', username: 'bob' };
+
+const message = (id: string, content: string, sender: typeof alice, createdAt: string): Message => ({
+    id,
+    content,
+    sender_id: sender.id,
+    sender,
+    chat_id: 'general',
+    created_at: createdAt
+});
+
+const messages = [
+    message('m1', 'Hi Bob', alice, '2024-01-01T10:00:00.000Z'),
+    message('m2', 'Hi Alice', bob, '2024-01-01T10:01:00.000Z'),
+    message('m3', 'How are you?', bob, '2024-01-01T10:02:00.000Z')
+];
+
+describe('MessageList', () => {
+    it('shows an empty state when there are no messages', () => {
+        render(<MessageList messages={[]} currentUserId={alice.id} />);
+
+        expect(screen.getByText('No messages yet. Start a conversation!')).toBeInTheDocument();
+    });
+
+    it('renders the messages in order', () => {
+        const { container } = render(<MessageList messages={messages} currentUserId={alice.id} />);
+
+        const rendered = Array.from(container.querySelectorAll('[data-message-id]'));
+        expect(rendered.map(element => element.getAttribute('data-message-id'))).toEqual(['m1', 'm2', 'm3']);
+        expect(screen.getByText('Hi Bob')).toBeInTheDocument();
+        expect(screen.getByText('How are you?')).toBeInTheDocument();
+    });
+
+    it('shows when each message was sent', () => {
+        render(<MessageList messages={messages.slice(0, 1)} currentUserId={alice.id} />);
+
+        const sentAt = new Date(messages[0].created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+        expect(screen.getByText(sentAt)).toBeInTheDocument();
+        expect(screen.queryByText('Invalid Date')).not.toBeInTheDocument();
+    });
+
+    it('marks where the unread messages start', () => {
+        render(<MessageList messages={messages} currentUserId={alice.id} lastReadMessageId="m1" />);
+
+        const divider = screen.getByText('New messages');
+        expect(divider.compareDocumentPosition(screen.getByText('Hi Alice'))).toBe(Node.DOCUMENT_POSITION_FOLLOWING);
+        expect(divider.compareDocumentPosition(screen.getByText('Hi Bob'))).toBe(Node.DOCUMENT_POSITION_PRECEDING);
+    });
+
+    it('leaves out the divider when everything has been read', () => {
+        render(<MessageList messages={messages} currentUserId={alice.id} lastReadMessageId="m3" />);
+
+        expect(screen.queryByText('New messages')).not.toBeInTheDocument();
+    });
+
+    it('loads older messages on request', async () => {
+        const user = userEvent.setup();
+        const onLoadMore = vi.fn(async () => undefined);
+        render(<MessageList messages={messages} currentUserId={alice.id} hasMore onLoadMore={onLoadMore} />);
+
+        await user.click(screen.getByRole('button', { name: 'Load older messages' }));
+
+        expect(onLoadMore).toHaveBeenCalledTimes(1);
+    });
+
+    it('shows who has seen the last message', () => {
+        render(<MessageList messages={messages} currentUserId={alice.id} seenBy={[bob]} />);
+
+        expect(screen.getByText('Seen by')).toBeInTheDocument();
+        expect(screen.getByTitle('bob')).toBeInTheDocument();
+    });
+});
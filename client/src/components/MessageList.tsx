@@ -1,96 +1,268 @@
-import { useRef, useEffect } from 'react';
+import { Fragment, useRef, useState, useEffect, useLayoutEffect, UIEvent } from 'react';
+import { Message, MessageEdit } from 'shared';
+import { MessageBubble } from './MessageBubble';
 import { UserAvatar } from './UserAvatar';
 
-export interface Message {
-    id?: string;
-    content: string;
-    sender: {
-        id: string;
-        username: string;
-    };
-    recipient?: {
-        id: string;
-        username: string;
-    };
-    chat_id?: string;
-    timestamp: string;
-}
-
 interface MessageListProps {
     messages: Message[];
     currentUserId: string;
+    // Used to highlight mentions of the current user
+    currentUsername?: string;
+    hasMore?: boolean;
+    onLoadMore?: () => Promise<void>;
+    onEditMessage?: (message: Message, content: string) => Promise<void>;
+    onLoadEditHistory?: (message: Message) => Promise<MessageEdit[]>;
+    onDeleteMessage?: (message: Message) => Promise<void>;
+    onToggleReaction?: (message: Message, emoji: string) => Promise<void>;
+    onOpenThread?: (message: Message) => void;
+    // Moderators can delete other users' messages
+    canModerate?: boolean;
+    // Messages pinned to the top of the room
+    pinnedMessageIds?: string[];
+    onTogglePin?: (message: Message) => Promise<void>;
+    // Messages the current user has saved
+    bookmarkedMessageIds?: string[];
+    onToggleBookmark?: (message: Message) => Promise<void>;
+    // Called with the newest message that has scrolled into view
+    onMessageSeen?: (message: Message) => void;
+    // Where the user had read up to when the chat was opened; later messages are new
+    lastReadMessageId?: string | null;
+    // Users who have read up to the last message
+    seenBy?: { id: string; username: string }[];
+    // Set while older history is shown instead of the latest messages
+    hasNewer?: boolean;
+    onLoadNewer?: () => Promise<void>;
+    onJumpToLatest?: () => Promise<void>;
+    // A message to scroll to and highlight, e.g. a search result
+    highlightedMessageId?: string | null;
 }
 
-export function MessageList({ messages, currentUserId }: MessageListProps) {
+// How close to the top (in px) the user has to scroll before older messages are loaded
+const LOAD_MORE_THRESHOLD = 80;
+
+export function MessageList({
+    messages,
+    currentUserId,
+    currentUsername,
+    hasMore = false,
+    onLoadMore,
+    onEditMessage,
+    onLoadEditHistory,
+    onDeleteMessage,
+    onToggleReaction,
+    onOpenThread,
+    canModerate = false,
+    pinnedMessageIds = [],
+    onTogglePin,
+    bookmarkedMessageIds = [],
+    onToggleBookmark,
+    onMessageSeen,
+    lastReadMessageId,
+    seenBy = [],
+    hasNewer = false,
+    onLoadNewer,
+    onJumpToLatest,
+    highlightedMessageId
+}: MessageListProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [loadingNewer, setLoadingNewer] = useState(false);
+    // Newer messages are appended below the ones being read, so the scroll position is kept
+    const loadingNewerRef = useRef(false);
 
-    // Auto-scroll to bottom when new messages arrive
-    const scrollToBottom = () => {
-        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    };
+    const highlightedLoaded = !!highlightedMessageId && messages.some(m => m.id === highlightedMessageId);
+    const highlightedLoadedRef = useRef(highlightedLoaded);
+    highlightedLoadedRef.current = highlightedLoaded;
+
+    // Distance from the bottom of the list to keep when older messages are prepended
+    const distanceFromBottomRef = useRef<number | null>(null);
+    const firstMessageKeyRef = useRef<string | undefined>(undefined);
+    const lastMessageKeyRef = useRef<string | undefined>(undefined);
+
+    const firstMessageKey = messages[0]?.id;
+    const lastMessageKey = messages[messages.length - 1]?.id;
 
+    // Keep the scroll position when older messages are prepended,
+    // and scroll to the bottom when a new message is appended
+    useLayoutEffect(() => {
+        const container = containerRef.current;
+        const prepended = firstMessageKey !== firstMessageKeyRef.current
+            && lastMessageKey === lastMessageKeyRef.current;
+
+        if (container && prepended && distanceFromBottomRef.current !== null) {
+            container.scrollTop = container.scrollHeight - distanceFromBottomRef.current;
+            distanceFromBottomRef.current = null;
+        } else if (lastMessageKey !== lastMessageKeyRef.current && !loadingNewerRef.current && !highlightedLoadedRef.current) {
+            // Jump straight to the bottom on first load so the top trigger doesn't fire on the way down
+            const firstLoad = lastMessageKeyRef.current === undefined;
+            messagesEndRef.current?.scrollIntoView({ behavior: firstLoad ? 'auto' : 'smooth' });
+        }
+
+        firstMessageKeyRef.current = firstMessageKey;
+        lastMessageKeyRef.current = lastMessageKey;
+    }, [firstMessageKey, lastMessageKey]);
+
+    // Bring the highlighted message into view once it is loaded
+    useEffect(() => {
+        if (!highlightedMessageId || !highlightedLoaded) return;
+        containerRef.current
+            ?.querySelector(`[data-message-id="${highlightedMessageId}"]`)
+            ?.scrollIntoView({ block: 'center' });
+    }, [highlightedMessageId, highlightedLoaded]);
+
+    const onMessageSeenRef = useRef(onMessageSeen);
+    onMessageSeenRef.current = onMessageSeen;
+
+    // Report the newest message visible on screen while the page is visible
     useEffect(() => {
-        scrollToBottom();
+        const container = containerRef.current;
+        if (!container || !onMessageSeenRef.current) return;
+
+        const observer = new IntersectionObserver(entries => {
+            if (document.visibilityState !== 'visible') return;
+
+            const visibleIndexes = entries
+                .filter(entry => entry.isIntersecting)
+                .map(entry => Number((entry.target as HTMLElement).dataset.messageIndex));
+            if (visibleIndexes.length === 0) return;
+
+            const newest = messages[Math.max(...visibleIndexes)];
+            if (newest?.id) {
+                onMessageSeenRef.current?.(newest);
+            }
+        }, { root: container, threshold: 0.5 });
+
+        container.querySelectorAll('[data-message-index]').forEach(element => observer.observe(element));
+        return () => observer.disconnect();
     }, [messages]);
 
-    // Format timestamp
-    const formatTime = (timestamp: string) => {
-        const date = new Date(timestamp);
-        return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const loadOlderMessages = async () => {
+        const container = containerRef.current;
+        if (!container || !onLoadMore || !hasMore || loadingMore) return;
+
+        distanceFromBottomRef.current = container.scrollHeight - container.scrollTop;
+        setLoadingMore(true);
+        try {
+            await onLoadMore();
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    const loadNewerMessages = async () => {
+        if (!onLoadNewer || !hasNewer || loadingNewer) return;
+
+        loadingNewerRef.current = true;
+        setLoadingNewer(true);
+        try {
+            await onLoadNewer();
+        } finally {
+            loadingNewerRef.current = false;
+            setLoadingNewer(false);
+        }
+    };
+
+    // Load older messages when the user scrolls near the top, and newer ones near the bottom
+    const handleScroll = (e: UIEvent<HTMLDivElement>) => {
+        const container = e.currentTarget;
+        if (container.scrollTop <= LOAD_MORE_THRESHOLD) {
+            loadOlderMessages();
+        } else if (container.scrollHeight - container.scrollTop - container.clientHeight <= LOAD_MORE_THRESHOLD) {
+            loadNewerMessages();
+        }
     };
 
     if (messages.length === 0) {
         return (
-            <div className="flex-1 overflow-y-auto p-4 flex items-center justify-center text-gray-500">
+            <div className="h-full overflow-y-auto p-4 flex items-center justify-center text-gray-500">
                 No messages yet. Start a conversation!
             </div>
         );
     }
 
     return (
-        <div className="space-y-4">
-            {messages.map((message, index) => {
-                const isOwnMessage = currentUserId === message.sender.id;
+        <div ref={containerRef} onScroll={handleScroll} className="h-full overflow-y-auto p-4 space-y-4">
+            {/* Older history */}
+            {hasMore && (
+                <div className="text-center">
+                    <button
+                        onClick={loadOlderMessages}
+                        disabled={loadingMore}
+                        className="text-xs text-gray-500 hover:text-gray-700 focus:outline-none disabled:opacity-50"
+                    >
+                        {loadingMore ? 'Loading older messages...' : 'Load older messages'}
+                    </button>
+                </div>
+            )}
 
-                return (
+            {messages.map((message, index) => (
+                <Fragment key={message.id}>
                     <div
-                        key={message.id || `${message.timestamp}-${index}`}
-                        className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'}`}
+                        data-message-index={index}
+                        data-message-id={message.id}
+                        className={message.id === highlightedMessageId ? 'rounded-lg bg-yellow-50 ring-2 ring-yellow-300' : ''}
                     >
-                        <div className={`flex ${isOwnMessage ? 'flex-row-reverse' : 'flex-row'} items-end gap-2 max-w-[80%]`}>
-                            {/* Avatar (only shown for other users) */}
-                            {!isOwnMessage && (
-                                <UserAvatar
-                                    userId={message.sender.id}
-                                    username={message.sender.username}
-                                    size="sm"
-                                />
-                            )}
-
-                            {/* Message bubble */}
-                            <div
-                                className={`${isOwnMessage
-                                    ? 'bg-blue-500 text-white rounded-tl-lg rounded-tr-lg rounded-bl-lg'
-                                    : 'bg-gray-200 text-gray-800 rounded-tl-lg rounded-tr-lg rounded-br-lg'
-                                    } px-4 py-2 break-words`}
-                            >
-                                {/* Sender name in [username] format */}
-                                <div className={`text-xs font-semibold mb-1 ${isOwnMessage ? 'text-blue-100' : 'text-gray-600'}`}>
-                                    [{message.sender.username}]
-                                </div>
-
-                                {/* Message content */}
-                                <div>{message.content}</div>
-
-                                {/* Timestamp */}
-                                <div className={`text-xs mt-1 ${isOwnMessage ? 'text-blue-100' : 'text-gray-500'}`}>
-                                    {formatTime(message.timestamp)}
-                                </div>
-                            </div>
-                        </div>
+                        <MessageBubble
+                            message={message}
+                            isOwnMessage={currentUserId === message.sender.id}
+                            onEdit={onEditMessage}
+                            onLoadEditHistory={onLoadEditHistory}
+                            onDelete={onDeleteMessage}
+                            onToggleReaction={onToggleReaction}
+                            onOpenThread={onOpenThread}
+                            canDelete={canModerate || currentUserId === message.sender.id}
+                            currentUsername={currentUsername}
+                            isPinned={!!message.id && pinnedMessageIds.includes(message.id)}
+                            onTogglePin={onTogglePin}
+                            isBookmarked={!!message.id && bookmarkedMessageIds.includes(message.id)}
+                            onToggleBookmark={onToggleBookmark}
+                        />
                     </div>
-                );
-            })}
+
+                    {/* Everything after the previous read marker is new */}
+                    {message.id && message.id === lastReadMessageId && index < messages.length - 1 && (
+                        <div className="flex items-center gap-2 text-xs font-semibold text-red-500">
+                            <div className="flex-1 border-t border-red-300" />
+                            New messages
+                            <div className="flex-1 border-t border-red-300" />
+                        </div>
+                    )}
+                </Fragment>
+            ))}
+
+            {/* Newer history, when older messages are shown */}
+            {hasNewer && (
+                <div className="flex justify-center gap-4">
+                    <button
+                        onClick={loadNewerMessages}
+                        disabled={loadingNewer}
+                        className="text-xs text-gray-500 hover:text-gray-700 focus:outline-none disabled:opacity-50"
+                    >
+                        {loadingNewer ? 'Loading newer messages...' : 'Load newer messages'}
+                    </button>
+                    {onJumpToLatest && (
+                        <button
+                            onClick={onJumpToLatest}
+                            className="text-xs text-blue-600 hover:underline focus:outline-none"
+                        >
+                            Jump to latest
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* Who has read up to the last message */}
+            {!hasNewer && seenBy.length > 0 && (
+                <div className="flex items-center justify-end gap-1 text-xs text-gray-500">
+                    <span className="mr-1">Seen by</span>
+                    {seenBy.map(reader => (
+                        <div key={reader.id} title={reader.username}>
+                            <UserAvatar userId={reader.id} username={reader.username} size="sm" />
+                        </div>
+                    ))}
+                </div>
+            )}
             <div ref={messagesEndRef} />
         </div>
     );
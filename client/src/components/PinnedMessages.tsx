@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { PinnedMessage } from 'shared';
+
+interface PinnedMessagesProps {
+    pins: PinnedMessage[];
+    onSelectPin: (pin: PinnedMessage) => void;
+    // Only set for room owners and admins
+    onUnpin?: (pin: PinnedMessage) => Promise<void>;
+}
+
+// Longest part of a pinned message shown in the bar
+const PREVIEW_LENGTH = 120;
+
+// A single line of a pinned message, for the bar and the list
+const previewContent = (pin: PinnedMessage) => {
+    const content = pin.message.content.replace(/\s+/g, ' ').trim();
+    if (!content) {
+        return pin.message.attachments?.length ? '(attachment)' : '';
+    }
+    return content.length > PREVIEW_LENGTH ? `${content.slice(0, PREVIEW_LENGTH)}…` : content;
+};
+
+export function PinnedMessages({ pins, onSelectPin, onUnpin }: PinnedMessagesProps) {
+    const [expanded, setExpanded] = useState(false);
+    const [unpinning, setUnpinning] = useState<string | null>(null);
+
+    if (pins.length === 0) return null;
+
+    const latest = pins[0];
+
+    const selectPin = (pin: PinnedMessage) => {
+        setExpanded(false);
+        onSelectPin(pin);
+    };
+
+    const unpin = async (pin: PinnedMessage) => {
+        if (!onUnpin) return;
+
+        setUnpinning(pin.message_id);
+        try {
+            await onUnpin(pin);
+        } catch (err) {
+            console.error('Error unpinning message:', err);
+            window.alert(err instanceof Error ? err.message : 'Failed to unpin message');
+        } finally {
+            setUnpinning(null);
+        }
+    };
+
+    return (
+        <div className="border-b border-gray-200 bg-yellow-50 text-sm">
+            {/* The most recent pin, expanding to all of them */}
+            <div className="flex items-center gap-2 px-4 py-2">
+                <span>📌</span>
+                <button
+                    onClick={() => selectPin(latest)}
+                    className="flex-1 min-w-0 text-left truncate text-gray-700 hover:underline focus:outline-none"
+                    title="Jump to message"
+                >
+                    <span className="font-semibold">{latest.message.sender.username}:</span> {previewContent(latest)}
+                </button>
+                <button
+                    onClick={() => setExpanded(prev => !prev)}
+                    className="text-xs text-gray-600 hover:text-gray-800 focus:outline-none whitespace-nowrap"
+                >
+                    {expanded ? 'Hide' : `${pins.length} pinned`}
+                </button>
+            </div>
+
+            {expanded && (
+                <ul className="max-h-64 overflow-y-auto border-t border-yellow-100">
+                    {pins.map(pin => (
+                        <li key={pin.message_id} className="flex items-start gap-2 px-4 py-2 hover:bg-yellow-100">
+                            <button
+                                onClick={() => selectPin(pin)}
+                                className="flex-1 min-w-0 text-left focus:outline-none"
+                            >
+                                <div className="text-gray-700 break-words">
+                                    <span className="font-semibold">{pin.message.sender.username}:</span> {previewContent(pin)}
+                                </div>
+                                <div className="text-xs text-gray-500">
+                                    Pinned by {pin.pinned_by_user?.username || 'Unknown User'} on {new Date(pin.pinned_at).toLocaleDateString()}
+                                </div>
+                            </button>
+                            {onUnpin && (
+                                <button
+                                    onClick={() => unpin(pin)}
+                                    disabled={unpinning === pin.message_id}
+                                    className="text-xs text-gray-500 hover:text-gray-800 hover:underline focus:outline-none"
+                                >
+                                    {unpinning === pin.message_id ? 'Unpinning...' : 'Unpin'}
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,204 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChatRoom, RoomMember, RoomMemberSchema, RoomRole } from 'shared';
+import { UserAvatar } from './UserAvatar';
+import { useAuth } from '../context/AuthContext';
+import { useAbly } from '../context/AblyContext';
+
+interface RoomMembersProps {
+    room: ChatRoom;
+    onClose: () => void;
+}
+
+export function RoomMembers({ room, onClose }: RoomMembersProps) {
+    const { user, authFetch } = useAuth();
+    const { users } = useAbly();
+    const [members, setMembers] = useState<RoomMember[]>([]);
+    const [inviteUserId, setInviteUserId] = useState('');
+    const [inviteLink, setInviteLink] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const canManage = room.role === 'owner' || room.role === 'admin';
+
+    const fetchMembers = useCallback(async () => {
+        try {
+            const response = await authFetch(`/api/chat-rooms/${room.id}/members`);
+            if (!response.ok) {
+                throw new Error('Failed to fetch members');
+            }
+
+            setMembers(RoomMemberSchema.array().parse(await response.json()));
+        } catch (err) {
+            console.error('Error fetching room members:', err);
+            setError('Failed to load members');
+        }
+    }, [authFetch, room.id]);
+
+    useEffect(() => {
+        fetchMembers();
+    }, [fetchMembers]);
+
+    // Create an invite, either for the selected user or as a shareable link
+    const createInvite = async (userId?: string) => {
+        setError(null);
+        setNotice(null);
+
+        try {
+            const response = await authFetch(`/api/chat-rooms/${room.id}/invites`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ userId })
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to create invite');
+            }
+
+            if (userId) {
+                setInviteUserId('');
+                setNotice('Invite sent');
+            } else {
+                setInviteLink(`${window.location.origin}${window.location.pathname}?invite=${data.token}`);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create invite');
+        }
+    };
+
+    const removeMember = async (userId: string) => {
+        setError(null);
+
+        try {
+            const response = await authFetch(`/api/chat-rooms/${room.id}/members/${userId}`, {
+                method: 'DELETE'
+            });
+
+            if (!response.ok) {
+                const data = await response.json();
+                throw new Error(data.error || 'Failed to remove member');
+            }
+
+            setMembers(prev => prev.filter(member => member.user_id !== userId));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to remove member');
+        }
+    };
+
+    const changeRole = async (userId: string, role: RoomRole) => {
+        setError(null);
+
+        try {
+            const response = await authFetch(`/api/chat-rooms/${room.id}/members/${userId}`, {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ role })
+            });
+
+            if (!response.ok) {
+                const data = await response.json();
+                throw new Error(data.error || 'Failed to change role');
+            }
+
+            setMembers(prev => prev.map(member => member.user_id === userId ? { ...member, role } : member));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to change role');
+        }
+    };
+
+    // Users who are not yet members can be invited
+    const invitableUsers = users.filter(u => !members.some(member => member.user_id === u.id));
+
+    return (
+        <div className="border-b border-gray-200 bg-gray-50 p-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <div className="font-medium text-gray-700">Members</div>
+                <button onClick={onClose} className="text-gray-500 hover:text-gray-700 focus:outline-none">
+                    ✕
+                </button>
+            </div>
+
+            {error && <div className="bg-red-50 text-red-600 p-2 rounded-lg text-sm">{error}</div>}
+            {notice && <div className="bg-green-50 text-green-700 p-2 rounded-lg text-sm">{notice}</div>}
+
+            <ul className="space-y-1">
+                {members.map(member => {
+                    const isSelf = member.user_id === user?.id;
+                    return (
+                        <li key={member.user_id} className="flex items-center justify-between gap-2">
+                            <div className="flex items-center gap-2">
+                                <UserAvatar
+                                    userId={member.user_id}
+                                    username={member.user?.username || 'Unknown User'}
+                                    size="sm"
+                                />
+                                <span className="text-sm">{member.user?.username || 'Unknown User'}</span>
+                                <span className="text-xs text-gray-500">{member.role}</span>
+                            </div>
+                            <div className="flex gap-2 text-xs">
+                                {room.role === 'owner' && member.role !== 'owner' && (
+                                    <button
+                                        onClick={() => changeRole(member.user_id, member.role === 'admin' ? 'member' : 'admin')}
+                                        className="text-blue-600 hover:text-blue-800 focus:outline-none"
+                                    >
+                                        {member.role === 'admin' ? 'Make member' : 'Make admin'}
+                                    </button>
+                                )}
+                                {member.role !== 'owner' && (isSelf || room.role === 'owner' || (room.role === 'admin' && member.role === 'member')) && (
+                                    <button
+                                        onClick={() => removeMember(member.user_id)}
+                                        className="text-red-600 hover:text-red-800 focus:outline-none"
+                                    >
+                                        {isSelf ? 'Leave' : 'Remove'}
+                                    </button>
+                                )}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+
+            {canManage && (
+                <div className="space-y-2">
+                    <div className="flex gap-2">
+                        <select
+                            value={inviteUserId}
+                            onChange={(e) => setInviteUserId(e.target.value)}
+                            className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                        >
+                            <option value="">Invite a user...</option>
+                            {invitableUsers.map(u => (
+                                <option key={u.id} value={u.id}>{u.username}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={() => createInvite(inviteUserId)}
+                            disabled={!inviteUserId}
+                            className="bg-blue-500 text-white px-3 py-1 text-sm rounded-lg disabled:opacity-50"
+                        >
+                            Invite
+                        </button>
+                    </div>
+                    <button
+                        onClick={() => createInvite()}
+                        className="text-sm text-blue-600 hover:text-blue-800 focus:outline-none"
+                    >
+                        Create invite link
+                    </button>
+                    {inviteLink && (
+                        <input
+                            readOnly
+                            value={inviteLink}
+                            onFocus={(e) => e.target.select()}
+                            className="w-full border border-gray-300 rounded-md px-2 py-1 text-xs bg-white"
+                        />
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
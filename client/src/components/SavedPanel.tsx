@@ -0,0 +1,158 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { Bookmark } from 'shared';
+import { useAbly } from '../context/AblyContext';
+
+interface SavedPanelProps {
+    onSelectBookmark: (bookmark: Bookmark) => void;
+    onClose: () => void;
+}
+
+// Longest note that can be kept with a bookmark, as the server allows
+const MAX_NOTE_LENGTH = 500;
+
+// Format the date and time a saved message was sent
+const formatSentAt = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+function SavedItem({ bookmark, onSelect }: { bookmark: Bookmark; onSelect: () => void }) {
+    const { saveBookmark, removeBookmark } = useAbly();
+    const [editingNote, setEditingNote] = useState(false);
+    const [note, setNote] = useState(bookmark.note || '');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { message, chat } = bookmark;
+
+    const startEditingNote = () => {
+        setNote(bookmark.note || '');
+        setError(null);
+        setEditingNote(true);
+    };
+
+    const saveNote = async (e: FormEvent) => {
+        e.preventDefault();
+
+        setBusy(true);
+        setError(null);
+        try {
+            await saveBookmark(bookmark.message_id, note.trim() || null);
+            setEditingNote(false);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save note');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const remove = async () => {
+        setBusy(true);
+        setError(null);
+        try {
+            await removeBookmark(bookmark.message_id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to remove bookmark');
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="p-4 border-b border-gray-100 text-sm">
+            <button onClick={onSelect} className="w-full text-left hover:bg-gray-50 focus:outline-none">
+                <div className="flex justify-between text-xs text-gray-500 mb-1">
+                    <span>
+                        <span className="font-semibold text-gray-700">{message.sender.username}</span>
+                        {' in '}{chat.name}
+                        {message.parent_id && ' (thread)'}
+                        {chat.archived && ' (archived)'}
+                    </span>
+                    <span>{formatSentAt(message.created_at)}</span>
+                </div>
+                <div className="text-gray-800 break-words line-clamp-3">
+                    {message.deleted_at
+                        ? <span className="italic text-gray-400">message deleted</span>
+                        : message.content || (message.attachments?.length ? '(attachment)' : '')}
+                </div>
+            </button>
+
+            {/* The user's own note, editable in place */}
+            {editingNote ? (
+                <form onSubmit={saveNote} className="mt-2 space-y-1">
+                    <textarea
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="Add a note..."
+                        maxLength={MAX_NOTE_LENGTH}
+                        rows={2}
+                        className="w-full border border-gray-300 rounded px-2 py-1 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        autoFocus
+                        disabled={busy}
+                    />
+                    <div className="flex justify-end gap-2 text-xs">
+                        <button type="button" onClick={() => setEditingNote(false)} className="focus:outline-none" disabled={busy}>
+                            Cancel
+                        </button>
+                        <button type="submit" className="font-semibold text-blue-600 focus:outline-none" disabled={busy}>
+                            {busy ? 'Saving...' : 'Save'}
+                        </button>
+                    </div>
+                </form>
+            ) : (
+                bookmark.note && (
+                    <div className="mt-2 px-2 py-1 bg-yellow-50 border-l-2 border-yellow-300 text-gray-700 break-words whitespace-pre-wrap">
+                        {bookmark.note}
+                    </div>
+                )
+            )}
+
+            {!editingNote && (
+                <div className="mt-2 flex gap-3 text-xs text-gray-500">
+                    <button onClick={startEditingNote} className="hover:underline focus:outline-none" disabled={busy}>
+                        {bookmark.note ? 'Edit note' : 'Add note'}
+                    </button>
+                    <button onClick={remove} className="hover:underline focus:outline-none" disabled={busy}>
+                        Remove
+                    </button>
+                </div>
+            )}
+            {error && <div className="mt-1 text-xs text-red-600">{error}</div>}
+        </div>
+    );
+}
+
+export function SavedPanel({ onSelectBookmark, onClose }: SavedPanelProps) {
+    const { bookmarks, fetchBookmarks } = useAbly();
+
+    // Saved messages may have been edited or deleted since they were loaded
+    useEffect(() => {
+        fetchBookmarks();
+    }, [fetchBookmarks]);
+
+    return (
+        <div className="w-full md:w-96 border-l border-gray-200 flex flex-col h-full bg-white">
+            {/* Saved header */}
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+                <div className="font-semibold">Saved</div>
+                <button onClick={onClose} className="text-gray-500 hover:text-gray-700 focus:outline-none">
+                    ✕
+                </button>
+            </div>
+
+            {/* Saved messages, most recently saved first */}
+            <div className="flex-1 overflow-y-auto">
+                {bookmarks.length === 0 && (
+                    <div className="p-4 text-sm text-gray-500">
+                        No saved messages. Use Save on a message to keep it here.
+                    </div>
+                )}
+                {bookmarks.map(bookmark => (
+                    <SavedItem
+                        key={bookmark.message_id}
+                        bookmark={bookmark}
+                        onSelect={() => onSelectBookmark(bookmark)}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MessageSearchResult } from 'shared';
+import { SearchPanel } from './SearchPanel';
+
+const context = vi.hoisted(() => ({
+    searchMessages: vi.fn()
+}));
+
+vi.mock('../context/AuthContext', () => ({
+    useAuth: () => ({ user: { id: 'me' } })
+}));
+
+vi.mock('../context/AblyContext', () => ({
+    useAbly: () => ({ users: [], rooms: [{ id: 'general', name: 'General' }], searchMessages: context.searchMessages })
+}));
+
+const result: MessageSearchResult = {
+    id: 'm1',
+    chat_id: 'general',
+    sender_id: 'u1',
+    parent_id: null,
+    content: 'Wrap <mark>words</mark> to deploy them',
+    created_at: '2024-01-01T09:00:00.000Z',
+    snippet: 'Wrap <mark>words</mark> to deploy them',
+    highlights: [{ start: 27, end: 33 }],
+    sender: { id: 'u1', username: 'bob' }
+};
+
+describe('SearchPanel', () => {
+    it('highlights the matches the server found and shows typed markup as text', async () => {
+        context.searchMessages.mockResolvedValue([result]);
+        const { container } = render(<SearchPanel chatId="general" onSelectResult={vi.fn()} onClose={vi.fn()} />);
+
+        await userEvent.type(screen.getByPlaceholderText('Search messages...'), 'deploy');
+        await userEvent.click(screen.getByRole('button', { name: 'Search' }));
+
+        const marks = await screen.findAllByText('deploy', { selector: 'mark' });
+        expect(marks).toHaveLength(1);
+        expect(container.querySelectorAll('mark')).toHaveLength(1);
+        expect(screen.getByText('Wrap <mark>words</mark> to', { exact: false })).toBeInTheDocument();
+    });
+});
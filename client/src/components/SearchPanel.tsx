@@ -0,0 +1,180 @@
+import { useState, FormEvent } from 'react';
+import { MessageSearchResult } from 'shared';
+import { useAuth } from '../context/AuthContext';
+import { useAbly } from '../context/AblyContext';
+import { getOtherParticipantId } from '../utils/conversations';
+
+interface SearchPanelProps {
+    chatId: string;
+    onSelectResult: (result: MessageSearchResult) => void;
+    onClose: () => void;
+}
+
+// Format the date and time a result was sent
+const formatSentAt = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+/**
+ * Render a snippet as text, with the matching words the server found highlighted
+ */
+function Snippet({ snippet, highlights }: Pick<MessageSearchResult, 'snippet' | 'highlights'>) {
+    const parts: { text: string; highlighted: boolean }[] = [];
+    let position = 0;
+    highlights.forEach(({ start, end }) => {
+        if (start < position || end <= start) return;
+        parts.push({ text: snippet.slice(position, start), highlighted: false });
+        parts.push({ text: snippet.slice(start, end), highlighted: true });
+        position = end;
+    });
+    parts.push({ text: snippet.slice(position), highlighted: false });
+
+    return (
+        <>
+            {parts.map((part, index) => part.highlighted
+                ? <mark key={index} className="bg-yellow-200 rounded px-0.5">{part.text}</mark>
+                : <span key={index}>{part.text}</span>)}
+        </>
+    );
+}
+
+export function SearchPanel({ chatId, onSelectResult, onClose }: SearchPanelProps) {
+    const { user } = useAuth();
+    const { users, rooms, searchMessages } = useAbly();
+    const [query, setQuery] = useState('');
+    const [thisChatOnly, setThisChatOnly] = useState(true);
+    const [senderId, setSenderId] = useState('');
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const [results, setResults] = useState<MessageSearchResult[] | null>(null);
+    const [searching, setSearching] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Room names, or the other participant of a direct message conversation
+    const getChatName = (resultChatId: string) => {
+        const otherUserId = user ? getOtherParticipantId(resultChatId, user.id) : null;
+        if (otherUserId) {
+            return users.find(u => u.id === otherUserId)?.username || 'Direct message';
+        }
+        return rooms.find(r => r.id === resultChatId)?.name || resultChatId;
+    };
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!query.trim()) return;
+
+        setSearching(true);
+        setError(null);
+        try {
+            setResults(await searchMessages({
+                q: query.trim(),
+                chatId: thisChatOnly ? chatId : undefined,
+                senderId: senderId || undefined,
+                // Dates cover whole days in the user's time zone
+                from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+                to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined
+            }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to search messages');
+        } finally {
+            setSearching(false);
+        }
+    };
+
+    return (
+        <div className="w-full md:w-96 border-l border-gray-200 flex flex-col h-full bg-white">
+            {/* Search header */}
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+                <div className="font-semibold">Search</div>
+                <button onClick={onClose} className="text-gray-500 hover:text-gray-700 focus:outline-none">
+                    ✕
+                </button>
+            </div>
+
+            {/* Query and filters */}
+            <form onSubmit={handleSubmit} className="p-4 border-b border-gray-200 space-y-2 text-sm">
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search messages..."
+                    maxLength={200}
+                    className="w-full border border-gray-300 rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    autoFocus
+                />
+                <div className="flex items-center gap-2">
+                    <label className="flex items-center gap-1 text-gray-600">
+                        <input
+                            type="checkbox"
+                            checked={thisChatOnly}
+                            onChange={(e) => setThisChatOnly(e.target.checked)}
+                        />
+                        This chat only
+                    </label>
+                    <select
+                        value={senderId}
+                        onChange={(e) => setSenderId(e.target.value)}
+                        className="flex-1 border border-gray-300 rounded px-2 py-1"
+                    >
+                        <option value="">Anyone</option>
+                        {users.map(u => (
+                            <option key={u.id} value={u.id}>{u.username}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="flex items-center gap-2 text-gray-600">
+                    <input
+                        type="date"
+                        value={from}
+                        onChange={(e) => setFrom(e.target.value)}
+                        className="flex-1 border border-gray-300 rounded px-2 py-1"
+                        aria-label="From"
+                    />
+                    <span>to</span>
+                    <input
+                        type="date"
+                        value={to}
+                        onChange={(e) => setTo(e.target.value)}
+                        className="flex-1 border border-gray-300 rounded px-2 py-1"
+                        aria-label="To"
+                    />
+                </div>
+                <button
+                    type="submit"
+                    disabled={!query.trim() || searching}
+                    className="w-full bg-blue-500 text-white px-4 py-2 rounded-lg disabled:opacity-50"
+                >
+                    {searching ? 'Searching...' : 'Search'}
+                </button>
+                {error && <div className="text-red-600">{error}</div>}
+            </form>
+
+            {/* Results */}
+            <div className="flex-1 overflow-y-auto">
+                {results && results.length === 0 && (
+                    <div className="p-4 text-sm text-gray-500">No messages found</div>
+                )}
+                {results?.map(result => (
+                    <button
+                        key={result.id}
+                        onClick={() => onSelectResult(result)}
+                        className="w-full text-left p-4 border-b border-gray-100 hover:bg-gray-50 focus:outline-none"
+                    >
+                        <div className="flex justify-between text-xs text-gray-500 mb-1">
+                            <span>
+                                <span className="font-semibold text-gray-700">{result.sender?.username || 'Unknown User'}</span>
+                                {' in '}{getChatName(result.chat_id)}
+                                {result.parent_id && ' (thread)'}
+                            </span>
+                            <span>{formatSentAt(result.created_at)}</span>
+                        </div>
+                        <div className="text-sm text-gray-800 break-words">
+                            <Snippet snippet={result.snippet} highlights={result.highlights} />
+                        </div>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,81 @@
+import { MessageList } from './MessageList';
+import { MessageInput } from './MessageInput';
+import { MessageBubble } from './MessageBubble';
+import { useAuth } from '../context/AuthContext';
+import { useAbly } from '../context/AblyContext';
+import { getThreadKey } from '../utils/threads';
+
+interface ThreadPanelProps {
+    chatId: string;
+    parentId: string;
+    canModerate: boolean;
+    onClose: () => void;
+}
+
+export function ThreadPanel({ chatId, parentId, canModerate, onClose }: ThreadPanelProps) {
+    const { user } = useAuth();
+    const { users, messages, hasMoreMessages, setTyping, sendMessage, uploadAttachment, editMessage, deleteMessage, toggleReaction, getMessageEdits, loadMoreMessages, bookmarks, toggleBookmark } = useAbly();
+
+    const threadKey = getThreadKey(parentId);
+    const parent = messages[chatId]?.find(m => m.id === parentId);
+    const replies = messages[threadKey] || [];
+    const currentUserId = user?.id || '';
+    const currentUsername = user?.user_metadata.username;
+    const mentionCandidates = users.filter(u => u.id !== currentUserId);
+    const bookmarkedMessageIds = bookmarks.map(bookmark => bookmark.message_id);
+
+    return (
+        <div className="w-full md:w-96 border-l border-gray-200 flex flex-col h-full bg-white">
+            {/* Thread header */}
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+                <div className="font-semibold">Thread</div>
+                <button onClick={onClose} className="text-gray-500 hover:text-gray-700 focus:outline-none">
+                    ✕
+                </button>
+            </div>
+
+            {/* The message that started the thread */}
+            {parent && (
+                <div className="p-4 border-b border-gray-200">
+                    <MessageBubble
+                        message={parent}
+                        isOwnMessage={parent.sender.id === currentUserId}
+                        onLoadEditHistory={(message) => getMessageEdits(chatId, message.id!)}
+                        onToggleReaction={(message, emoji) => toggleReaction(chatId, message.id!, emoji)}
+                        currentUsername={currentUsername}
+                    />
+                </div>
+            )}
+
+            {/* Replies */}
+            <div className="flex-1 overflow-hidden">
+                <MessageList
+                    messages={replies}
+                    currentUserId={currentUserId}
+                    currentUsername={currentUsername}
+                    hasMore={hasMoreMessages[threadKey] || false}
+                    onLoadMore={() => loadMoreMessages(chatId, parentId)}
+                    onEditMessage={(message, content) => editMessage(chatId, message.id!, content)}
+                    onLoadEditHistory={(message) => getMessageEdits(chatId, message.id!)}
+                    onDeleteMessage={(message) => deleteMessage(chatId, message.id!)}
+                    onToggleReaction={(message, emoji) => toggleReaction(chatId, message.id!, emoji)}
+                    canModerate={canModerate}
+                    bookmarkedMessageIds={bookmarkedMessageIds}
+                    onToggleBookmark={(message) => toggleBookmark(message.id!)}
+                />
+            </div>
+
+            {/* Reply input */}
+            <div className="border-t border-gray-200">
+                <MessageInput
+                    onSendMessage={(content, attachmentIds) => sendMessage(content, chatId, parentId, attachmentIds)}
+                    onTypingChange={setTyping}
+                    placeholder="Reply in thread..."
+                    disabled={!parent || !!parent.deleted_at}
+                    mentionCandidates={mentionCandidates}
+                    onUploadFile={uploadAttachment}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,22 @@
+interface UnreadBadgeProps {
+    count: number;
+    mentions?: number;
+}
+
+// Counts above this are shown as "99+"
+const MAX_DISPLAYED_COUNT = 99;
+
+export function UnreadBadge({ count, mentions = 0 }: UnreadBadgeProps) {
+    if (count <= 0) return null;
+
+    const label = count > MAX_DISPLAYED_COUNT ? `${MAX_DISPLAYED_COUNT}+` : String(count);
+
+    return (
+        <span
+            className={`inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1.5 rounded-full text-xs font-semibold text-white ${mentions > 0 ? 'bg-red-500' : 'bg-blue-500'}`}
+            title={mentions > 0 ? `${count} unread, ${mentions} mentioning you` : `${count} unread`}
+        >
+            {mentions > 0 && '@ '}{label}
+        </span>
+    );
+}
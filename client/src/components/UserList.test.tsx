@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { UserListEntry } from 'shared';
+import { UserList } from './UserList';
+
+const context = vi.hoisted(() => ({
+    currentUser: { id: 'me' } as { id: string } | null,
+    users: [] as UserListEntry[],
+    userPresence: new Map<string, boolean>()
+}));
+
+vi.mock('../context/AuthContext', () => ({
+    useAuth: () => ({ user: context.currentUser })
+}));
+
+vi.mock('../context/AblyContext', () => ({
+    useAbly: () => ({ users: context.users, userPresence: context.userPresence })
+}));
+
+// Usernames in the order they are listed
+const renderedUsernames = (usernames: string[]) =>
+    screen.getAllByText(new RegExp(`^(${usernames.join('|')})$`)).map(element => element.firstChild?.textContent);
+
+describe('UserList', () => {
+    beforeEach(() => {
+        context.currentUser = { id: 'me' };
+        context.users = [];
+        context.userPresence = new Map();
+    });
+
+    it('shows a loading state until users arrive', () => {
+        render(<UserList onUserSelect={vi.fn()} />);
+
+        expect(screen.getByText('Loading users...')).toBeInTheDocument();
+    });
+
+    it('lists the current user first, then online users, then offline users, each by username', () => {
+        context.users = [
+            { id: 'u1', username: 'zoe', isOnline: false, lastSeen: null },
+            { id: 'u2', username: 'yan', isOnline: true, lastSeen: null },
+            { id: 'me', username: 'mia', isOnline: true, lastSeen: null },
+            { id: 'u3', username: 'adam', isOnline: false, lastSeen: null },
+            { id: 'u4', username: 'bea', isOnline: true, lastSeen: null }
+        ];
+
+        render(<UserList onUserSelect={vi.fn()} />);
+
+        expect(renderedUsernames(['adam', 'bea', 'mia', 'yan', 'zoe'])).toEqual(['mia', 'bea', 'yan', 'adam', 'zoe']);
+        expect(screen.getByText('(You)')).toBeInTheDocument();
+    });
+
+    it('takes online status from presence once it is known', () => {
+        context.users = [
+            { id: 'u1', username: 'adam', isOnline: true, lastSeen: null },
+            { id: 'u2', username: 'bea', isOnline: false, lastSeen: null }
+        ];
+        context.userPresence = new Map([['u1', false], ['u2', true]]);
+
+        render(<UserList onUserSelect={vi.fn()} />);
+
+        expect(renderedUsernames(['adam', 'bea'])).toEqual(['bea', 'adam']);
+        expect(screen.getAllByText('Online now')).toHaveLength(1);
+        expect(screen.getAllByText('Offline')).toHaveLength(1);
+    });
+
+    it('selects other users but not the current user', async () => {
+        const user = userEvent.setup();
+        const onUserSelect = vi.fn();
+        context.users = [
+            { id: 'me', username: 'mia', isOnline: true, lastSeen: null },
+            { id: 'u1', username: 'adam', isOnline: true, lastSeen: null }
+        ];
+
+        render(<UserList onUserSelect={onUserSelect} />);
+
+        await user.click(screen.getByText('mia'));
+        await user.click(screen.getByText('adam'));
+
+        expect(onUserSelect).toHaveBeenCalledTimes(1);
+        expect(onUserSelect).toHaveBeenCalledWith(expect.objectContaining({ id: 'u1' }));
+    });
+});
@@ -1,29 +1,21 @@
 import { useState, useEffect } from 'react';
+import { UserListEntry } from 'shared';
 import { UserAvatar } from './UserAvatar';
 import { useAuth } from '../context/AuthContext';
 import { useAbly } from '../context/AblyContext';
 
-interface User {
-    id: string;
-    username: string;
-    isOnline?: boolean;
-    isonline?: boolean;
-    lastSeen?: string;
-    lastseen?: string;
-}
-
 interface UserListProps {
-    onUserSelect: (user: User) => void;
+    onUserSelect: (user: UserListEntry) => void;
     selectedUserId?: string;
 }
 
 export function UserList({ onUserSelect, selectedUserId }: UserListProps) {
     const { user: currentUser } = useAuth();
     const { userPresence, users: ablyUsers } = useAbly();
-    const [users, setUsers] = useState<User[]>([]);
+    const [users, setUsers] = useState<UserListEntry[]>([]);
     const [loading, setLoading] = useState(true);
 
-    // Merge users from Ably with local state and normalize field names
+    // Merge users from Ably with local state
     useEffect(() => {
         console.log('UserList - ablyUsers received:', ablyUsers);
         console.log('UserList - currentUser:', currentUser);
@@ -31,15 +23,7 @@ export function UserList({ onUserSelect, selectedUserId }: UserListProps) {
         if (ablyUsers.length > 0) {
             console.log('Received users from AblyContext:', ablyUsers);
 
-            // Normalize field names (handle both camelCase and lowercase)
-            const normalizedUsers = ablyUsers.map(user => ({
-                ...user,
-                // Make sure we have isOnline property regardless of the source format
-                isOnline: user.isOnline !== undefined ? user.isOnline : user.isonline,
-                lastSeen: user.lastSeen || user.lastseen
-            }));
-
-            setUsers(normalizedUsers);
+            setUsers(ablyUsers);
             setLoading(false);
         } else {
             console.log('No users received from AblyContext yet');
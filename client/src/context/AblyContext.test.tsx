@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { MAX_MESSAGE_LENGTH, Message } from 'shared';
+import { AblyProvider, useAbly } from './AblyContext';
+import { useAuth } from './AuthContext';
+import { createRealtimeClient } from '../realtime/RealtimeClient';
+import { FakeRealtimeClient, createFetchMock } from '../test/fakes';
+
+vi.mock('./AuthContext', () => ({
+    useAuth: vi.fn()
+}));
+
+vi.mock('../realtime/RealtimeClient', () => ({
+    createRealtimeClient: vi.fn()
+}));
+
+const alice = { id: 'alice-id', username: 'alice' };
+const bob = { id: 'bob-id', username: 'bob' };
+
+const message = (id: string, content: string, sender: typeof alice, createdAt: string): Message => ({
+    id,
+    content,
+    sender_id: sender.id,
+    sender,
+    chat_id: 'general',
+    created_at: createdAt
+});
+
+const history = [
+    message('m1', 'Morning', bob, '2024-01-01T09:00:00.000Z'),
+    message('m2', 'Morning Bob', alice, '2024-01-01T09:01:00.000Z')
+];
+
+const sent = message('m3', 'Hello', alice, '2024-01-01T09:02:00.000Z');
+
+describe('AblyProvider', () => {
+    let realtime: FakeRealtimeClient;
+    let routes: Record<string, unknown>;
+    let authFetch: ReturnType<typeof createFetchMock>;
+
+    beforeEach(() => {
+        realtime = new FakeRealtimeClient();
+        vi.mocked(createRealtimeClient).mockResolvedValue(realtime);
+
+        routes = {
+            'GET /api/users': [
+                { ...alice, isOnline: true, lastSeen: null },
+                { ...bob, isOnline: false, lastSeen: '2024-01-01T08:00:00.000Z' }
+            ],
+            'GET /api/chat-rooms': [],
+            'GET /api/invites': [],
+            'GET /api/conversations': [],
+            'GET /api/unread': [],
+            'GET /api/users/me/bookmarks': [],
+            'GET /api/chat-rooms/general/messages': { messages: history, hasMore: false, nextCursor: null },
+            'GET /api/chat-rooms/general/read': [],
+            'GET /api/chat-rooms/general/pins': [],
+            'POST /api/chat-rooms/general/messages': sent
+        };
+        authFetch = createFetchMock(routes);
+
+        // The user and authFetch keep their identity across renders, as they do in AuthProvider
+        const auth = {
+            user: { id: alice.id, user_metadata: { username: alice.username } },
+            authFetch,
+            getAccessToken: async () => 'token'
+        };
+        vi.mocked(useAuth).mockReturnValue(auth as unknown as ReturnType<typeof useAuth>);
+    });
+
+    // Render the provider and wait until it has connected and entered presence
+    const renderProvider = async () => {
+        const rendered = renderHook(() => useAbly(), { wrapper: AblyProvider });
+        await waitFor(() => expect(realtime.channels.get('presence').entered).toEqual({ userId: alice.id }));
+        return rendered;
+    };
+
+    // Open the general room and wait for its history
+    const openGeneral = async (result: { current: ReturnType<typeof useAbly> }) => {
+        act(() => result.current.setActiveChatId('general'));
+        await waitFor(() => expect(result.current.messages.general).toHaveLength(history.length));
+    };
+
+    describe('users and presence', () => {
+        it('loads the user list and takes presence from the current members', async () => {
+            realtime.channels.get('presence').members = [{ clientId: bob.id, data: { userId: bob.id } }];
+
+            const { result } = await renderProvider();
+
+            expect(result.current.users.map(user => user.username)).toEqual(['alice', 'bob']);
+            expect(result.current.userPresence.get(bob.id)).toBe(true);
+            expect(result.current.userPresence.get(alice.id)).toBeUndefined();
+        });
+
+        it('marks users online when they enter presence and offline when they leave', async () => {
+            const { result } = await renderProvider();
+            const presence = realtime.channels.get('presence');
+
+            act(() => presence.emitPresence('enter', { userId: bob.id }, bob.id));
+            expect(result.current.userPresence.get(bob.id)).toBe(true);
+
+            act(() => presence.emitPresence('leave', { userId: bob.id }, bob.id));
+            expect(result.current.userPresence.get(bob.id)).toBe(false);
+        });
+
+        it('replaces the user list when an update is published', async () => {
+            const { result } = await renderProvider();
+
+            act(() => realtime.channels.get('users').emit('update', { users: [{ ...bob, isOnline: true, lastSeen: null }] }));
+
+            expect(result.current.users).toEqual([{ ...bob, isOnline: true, lastSeen: null }]);
+            expect(result.current.userPresence.get(bob.id)).toBe(true);
+        });
+    });
+
+    describe('messages', () => {
+        it('loads the latest history when a room is opened and listens for new messages', async () => {
+            const { result } = await renderProvider();
+
+            await openGeneral(result);
+
+            expect(result.current.messages.general.map(message => message.content)).toEqual(['Morning', 'Morning Bob']);
+            expect(result.current.hasMoreMessages.general).toBe(false);
+            expect(realtime.channels.get('chat:general').hasListeners('message')).toBe(true);
+        });
+
+        it('loads history with messages stored before the length limit', async () => {
+            const legacy = message('m0', 'a'.repeat(MAX_MESSAGE_LENGTH + 1), bob, '2024-01-01T08:59:00.000Z');
+            routes['GET /api/chat-rooms/general/messages'] = { messages: [legacy, ...history], hasMore: false, nextCursor: null };
+            const { result } = await renderProvider();
+
+            act(() => result.current.setActiveChatId('general'));
+
+            await waitFor(() => expect(result.current.messages.general?.map(message => message.id)).toEqual(['m0', 'm1', 'm2']));
+        });
+
+        it('appends live messages', async () => {
+            const { result } = await renderProvider();
+            await openGeneral(result);
+
+            act(() => realtime.channels.get('chat:general').emit('message', { ...sent, sender: bob }));
+
+            expect(result.current.messages.general.map(message => message.id)).toEqual(['m1', 'm2', 'm3']);
+        });
+
+        it('ignores live messages that do not match the message format', async () => {
+            const { result } = await renderProvider();
+            await openGeneral(result);
+            const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+            // E.g. a message sent before created_at replaced timestamp
+            const { created_at, ...outdated } = sent;
+            act(() => realtime.channels.get('chat:general').emit('message', { ...outdated, timestamp: created_at }));
+
+            expect(result.current.messages.general.map(message => message.id)).toEqual(['m1', 'm2']);
+            expect(consoleError).toHaveBeenCalledWith('Ignoring invalid message:', expect.stringContaining('created_at'));
+            consoleError.mockRestore();
+        });
+
+        it('shows a sent message once when the live event follows the response', async () => {
+            const { result } = await renderProvider();
+            await openGeneral(result);
+
+            await act(() => result.current.sendMessage('Hello', 'general'));
+            expect(result.current.messages.general.map(message => message.id)).toEqual(['m1', 'm2', 'm3']);
+
+            act(() => realtime.channels.get('chat:general').emit('message', sent));
+            expect(result.current.messages.general.map(message => message.id)).toEqual(['m1', 'm2', 'm3']);
+
+            expect(authFetch).toHaveBeenCalledWith('/api/chat-rooms/general/messages', expect.objectContaining({
+                method: 'POST',
+                body: JSON.stringify({ content: 'Hello', attachmentIds: [] })
+            }));
+        });
+
+        it('shows a sent message once when the live event arrives before the response', async () => {
+            const { result } = await renderProvider();
+            await openGeneral(result);
+
+            routes['POST /api/chat-rooms/general/messages'] = () => {
+                realtime.channels.get('chat:general').emit('message', sent);
+                return sent;
+            };
+
+            await act(() => result.current.sendMessage('Hello', 'general'));
+
+            expect(result.current.messages.general.map(message => message.id)).toEqual(['m1', 'm2', 'm3']);
+        });
+    });
+
+    describe('invites', () => {
+        it('returns the joined room when refreshing the realtime token fails', async () => {
+            const room = { id: 'secret', name: 'Secret', description: '', is_private: true, role: 'member' };
+            routes['POST /api/invites/abc/accept'] = room;
+            const { result } = await renderProvider();
+            routes['GET /api/chat-rooms'] = [room];
+            vi.spyOn(realtime, 'authorize').mockRejectedValue(new Error('Token request failed'));
+            const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+            let joined: unknown;
+            await act(async () => {
+                joined = await result.current.acceptInvite('abc');
+            });
+
+            expect(joined).toEqual(room);
+            expect(result.current.rooms).toEqual([room]);
+            expect(consoleError).toHaveBeenCalledWith('Error refreshing realtime token:', expect.any(Error));
+            consoleError.mockRestore();
+        });
+    });
+
+    describe('unread counts', () => {
+        it('applies unread counts from the notification channel and ignores invalid ones', async () => {
+            const { result } = await renderProvider();
+            const notifications = realtime.channels.get(`notifications:${alice.id}`);
+            const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+            act(() => notifications.emit('unread', { chat_id: 'general', unread_count: 2, mention_count: 1 }));
+            act(() => notifications.emit('unread', { chat_id: 'general', unread_count: '5' }));
+
+            expect(result.current.unreadCounts.general).toEqual({ chat_id: 'general', unread_count: 2, mention_count: 1 });
+            expect(consoleError).toHaveBeenCalledWith('Ignoring invalid unread count:', expect.stringContaining('unread_count'));
+            consoleError.mockRestore();
+        });
+    });
+
+    it('closes the realtime client on unmount', async () => {
+        const { unmount } = await renderProvider();
+
+        unmount();
+
+        expect(realtime.closed).toBe(true);
+    });
+});
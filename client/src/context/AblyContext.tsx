@@ -1,75 +1,316 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import * as Ably from 'ably';
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
 import { useAuth } from './AuthContext';
+import { getThreadKey, getMessageListKey } from '../utils/threads';
+import {
+    Message,
+    MessageUpdate,
+    MessageAttachment,
+    MessageReaction,
+    MessageEdit,
+    MessageDeletedEvent,
+    ReactionEvent,
+    MessageSearchResult,
+    PinnedMessage,
+    UnpinEvent,
+    Bookmark,
+    UserListEntry,
+    ChatRoom,
+    RoomInvite,
+    Conversation,
+    ReadMarker,
+    UnreadCount,
+    TypingPresenceData,
+    MessageSchema,
+    MessageUpdateSchema,
+    MessagePageSchema,
+    ThreadPageSchema,
+    MessageEditSchema,
+    MessageAttachmentSchema,
+    MessageDeletedEventSchema,
+    ReactionEventSchema,
+    MessageReactionsSchema,
+    MessageSearchResultSchema,
+    PinnedMessageSchema,
+    UnpinEventSchema,
+    BookmarkSchema,
+    UserListSchema,
+    UsersUpdateEventSchema,
+    PresenceDataSchema,
+    TypingPresenceDataSchema,
+    ChatRoomSchema,
+    RoomInviteSchema,
+    ConversationSchema,
+    ReadMarkerSchema,
+    UnreadCountSchema,
+    MessageNotificationSchema,
+    MentionNotificationSchema,
+    isConversationId,
+    parsePayload
+} from 'shared';
+import { createRealtimeClient, RealtimeClient, RealtimeMessage, PresenceMember } from '../realtime/RealtimeClient';
 
-// Define interfaces for type safety
-interface UserPresenceInfo {
+// Someone composing a message in the active chat
+export interface TypingUser {
     id: string;
     username: string;
-    isOnline?: boolean;
-    isonline?: boolean;
-    lastSeen?: string;
-    lastseen?: string;
 }
 
-interface Message {
-    id?: string;
-    content: string;
-    sender: {
-        id: string;
-        username: string;
-    };
-    recipient?: {
-        id: string;
-        username: string;
-    };
-    chat_id: string;
-    timestamp?: string;
-    created_at?: string;
+// Typing entries expire if no heartbeat arrives in this time, e.g. after a client crashed
+const TYPING_TIMEOUT_MS = 6000;
+
+// Where the next page of older history starts for a chat, and of newer history
+// when a page around an older message is shown instead of the latest messages
+interface MessagePagination {
+    hasMore: boolean;
+    nextCursor: string | null;
+    hasNewer?: boolean;
+    newerCursor?: string | null;
+}
+
+// Filters of a message search; all but the query are optional
+export interface MessageSearchParams {
+    q: string;
+    chatId?: string;
+    senderId?: string;
+    from?: string;
+    to?: string;
+}
+
+// A message to scroll to and highlight; for a thread reply, its parent with the thread open
+export interface JumpTarget {
+    chatId: string;
+    messageId: string;
+    threadId: string | null;
 }
 
+
 interface AblyContextType {
-    ably: Ably.Realtime | null;
+    realtime: RealtimeClient | null;
+    rooms: ChatRoom[];
+    roomsLoaded: boolean;
+    createRoom: (name: string, description: string, isPrivate?: boolean) => Promise<ChatRoom>;
+    invites: RoomInvite[];
+    acceptInvite: (token: string) => Promise<ChatRoom>;
+    declineInvite: (token: string) => Promise<void>;
+    conversations: Conversation[];
     activeChatId: string | null;
     setActiveChatId: (chatId: string) => void;
+    // Message lists keyed by chat ID, and by thread key for thread replies
     messages: Record<string, Message[]>;
+    hasMoreMessages: Record<string, boolean>;
+    activeThreadId: string | null;
+    setActiveThreadId: (parentId: string | null) => void;
     userPresence: Map<string, boolean>;
-    users: UserPresenceInfo[];
-    sendMessage: (content: string, chatId: string, recipient?: { id: string, username: string }) => Promise<void>;
-    loadMoreMessages: (chatId: string) => Promise<void>;
+    users: UserListEntry[];
+    // Everyone's read markers per chat, and this user's marker as it was when the chat was opened
+    readMarkers: Record<string, ReadMarker[]>;
+    previousReadMarkers: Record<string, string | null>;
+    markRead: (chatId: string, messageId: string) => Promise<void>;
+    unreadCounts: Record<string, UnreadCount>;
+    // Other users typing in the active chat
+    typingUsers: TypingUser[];
+    setTyping: (typing: boolean) => void;
+    sendMessage: (content: string, chatId: string, parentId?: string, attachmentIds?: string[]) => Promise<void>;
+    // Upload a file to send with the next message, reporting progress from 0 to 1
+    uploadAttachment: (file: File, onProgress?: (progress: number) => void) => Promise<MessageAttachment>;
+    editMessage: (chatId: string, messageId: string, content: string) => Promise<void>;
+    deleteMessage: (chatId: string, messageId: string) => Promise<void>;
+    toggleReaction: (chatId: string, messageId: string, emoji: string) => Promise<void>;
+    getMessageEdits: (chatId: string, messageId: string) => Promise<MessageEdit[]>;
+    loadMoreMessages: (chatId: string, parentId?: string) => Promise<void>;
+    // Set while the history around an older message is shown instead of the latest messages
+    hasNewerMessages: Record<string, boolean>;
+    loadNewerMessages: (chatId: string) => Promise<void>;
+    jumpToLatest: (chatId: string) => Promise<void>;
+    searchMessages: (params: MessageSearchParams) => Promise<MessageSearchResult[]>;
+    jumpTarget: JumpTarget | null;
+    jumpToMessage: (chatId: string, messageId: string, parentId?: string | null) => Promise<void>;
+    clearJumpTarget: () => void;
+    // Pinned messages per room, most recently pinned first
+    pinnedMessages: Record<string, PinnedMessage[]>;
+    togglePin: (chatId: string, messageId: string) => Promise<void>;
+    // This user's saved messages, most recently saved first
+    bookmarks: Bookmark[];
+    fetchBookmarks: () => Promise<void>;
+    // Bookmark a message, or change the note of a bookmarked message
+    saveBookmark: (messageId: string, note?: string | null) => Promise<void>;
+    removeBookmark: (messageId: string) => Promise<void>;
+    toggleBookmark: (messageId: string) => Promise<void>;
 }
 
 const AblyContext = createContext<AblyContextType | undefined>(undefined);
 
 export function AblyProvider({ children }: { children: ReactNode }) {
-    const { user } = useAuth();
-    const [ably, setAbly] = useState<Ably.Realtime | null>(null);
+    const { user, authFetch, getAccessToken } = useAuth();
+    const [realtime, setRealtime] = useState<RealtimeClient | null>(null);
     const [userPresence, setUserPresence] = useState<Map<string, boolean>>(new Map());
-    const [users, setUsers] = useState<UserPresenceInfo[]>([]);
+    const [users, setUsers] = useState<UserListEntry[]>([]);
+    const [rooms, setRooms] = useState<ChatRoom[]>([]);
+    const [roomsLoaded, setRoomsLoaded] = useState(false);
+    const [invites, setInvites] = useState<RoomInvite[]>([]);
+    const [conversations, setConversations] = useState<Conversation[]>([]);
+    const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+    const conversationsRef = useRef<Conversation[]>([]);
+    conversationsRef.current = conversations;
+
+    // Replace a message already in the list with its updated version
+    const applyMessageUpdate = useCallback((updated: MessageUpdate) => {
+        const listKey = getMessageListKey(updated);
+        setMessages(prev => {
+            const existingMessages = prev[listKey];
+            if (!existingMessages?.some(m => m.id === updated.id)) {
+                return prev;
+            }
+            return {
+                ...prev,
+                [listKey]: existingMessages.map(m =>
+                    m.id === updated.id ? { ...m, ...updated, sender: updated.sender || m.sender } : m
+                )
+            };
+        });
+
+        // Pinned copies of the message change with it
+        setPinnedMessages(prev => {
+            const pins = prev[updated.chat_id];
+            if (!pins?.some(pin => pin.message_id === updated.id)) {
+                return prev;
+            }
+            return {
+                ...prev,
+                [updated.chat_id]: pins.map(pin => pin.message_id === updated.id
+                    ? { ...pin, message: { ...pin.message, ...updated, sender: updated.sender || pin.message.sender } }
+                    : pin
+                )
+            };
+        });
+    }, []);
+
+    // Add a pin to the top of its room's pins, or remove one
+    const applyPin = useCallback((pin: PinnedMessage) => {
+        setPinnedMessages(prev => ({
+            ...prev,
+            [pin.chat_id]: [pin, ...(prev[pin.chat_id] || []).filter(p => p.message_id !== pin.message_id)]
+        }));
+    }, []);
+
+    const applyUnpin = useCallback((unpinned: UnpinEvent) => {
+        setPinnedMessages(prev => ({
+            ...prev,
+            [unpinned.chat_id]: (prev[unpinned.chat_id] || []).filter(p => p.message_id !== unpinned.message_id)
+        }));
+    }, []);
+
+    // Replace a user's read marker in a chat
+    const applyReadMarker = useCallback((marker: ReadMarker) => {
+        setReadMarkers(prev => ({
+            ...prev,
+            [marker.chat_id]: [
+                ...(prev[marker.chat_id] || []).filter(m => m.user_id !== marker.user_id),
+                marker
+            ]
+        }));
+    }, []);
+
+    // Turn a deleted message into a tombstone
+    const applyMessageDeletion = useCallback((deleted: MessageDeletedEvent) => {
+        applyMessageUpdate({
+            ...deleted,
+            content: '',
+            attachments: [],
+            link_previews: []
+        });
+    }, [applyMessageUpdate]);
+
+    // Set the reactions of a message already in the list
+    const setMessageReactions = useCallback((
+        listKey: string,
+        messageId: string,
+        update: (reactions: MessageReaction[]) => MessageReaction[]
+    ) => {
+        setMessages(prev => {
+            const existingMessages = prev[listKey];
+            if (!existingMessages?.some(m => m.id === messageId)) {
+                return prev;
+            }
+            return {
+                ...prev,
+                [listKey]: existingMessages.map(m =>
+                    m.id === messageId ? { ...m, reactions: update(m.reactions || []) } : m
+                )
+            };
+        });
+    }, []);
+
+    // Apply a reaction added or removed by any user, including this one in another tab
+    const applyReactionEvent = useCallback((event: ReactionEvent, added: boolean) => {
+        setMessageReactions(getMessageListKey(event), event.message_id, reactions => {
+            const isOwnReaction = event.user_id === user?.id;
+            const existing = reactions.find(r => r.emoji === event.emoji);
+            const updated: MessageReaction = {
+                emoji: event.emoji,
+                count: event.count,
+                reacted: isOwnReaction ? added : existing?.reacted || false
+            };
+
+            if (updated.count <= 0) {
+                return reactions.filter(r => r.emoji !== event.emoji);
+            }
+            return existing
+                ? reactions.map(r => r.emoji === event.emoji ? updated : r)
+                : [...reactions, updated];
+        });
+    }, [setMessageReactions, user]);
     const [activeChatId, setActiveChatId] = useState<string | null>(null);
+    const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+    const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+    const [unreadCounts, setUnreadCounts] = useState<Record<string, UnreadCount>>({});
+    const [readMarkers, setReadMarkers] = useState<Record<string, ReadMarker[]>>({});
+    const [previousReadMarkers, setPreviousReadMarkers] = useState<Record<string, string | null>>({});
+    const [pinnedMessages, setPinnedMessages] = useState<Record<string, PinnedMessage[]>>({});
+    const readMarkersRef = useRef(readMarkers);
+    readMarkersRef.current = readMarkers;
+    // Read markers being sent, so the same message is not marked twice
+    const pendingReadRef = useRef<Record<string, string>>({});
     const [messages, setMessages] = useState<Record<string, Message[]>>({});
+    const [pagination, setPagination] = useState<Record<string, MessagePagination>>({});
+    // Live messages are not appended while older history is shown, as there is a gap before them
+    const paginationRef = useRef(pagination);
+    paginationRef.current = pagination;
+    const [jumpTarget, setJumpTarget] = useState<JumpTarget | null>(null);
+    const jumpTargetRef = useRef(jumpTarget);
+    jumpTargetRef.current = jumpTarget;
 
-    // Initialize Ably client when user is authenticated
+    // Connect to the realtime backend when user is authenticated
     useEffect(() => {
-        let client: Ably.Realtime | null = null;
+        let client: RealtimeClient | null = null;
+        let cancelled = false;
 
-        const initAbly = async () => {
+        const initRealtime = async () => {
             if (!user) {
-                setAbly(null);
+                setRealtime(null);
                 setUsers([]);
                 return;
             }
 
             try {
-                // Get Ably token from server
-                const response = await fetch(`${import.meta.env.VITE_API_URL}/api/ably/token?userId=${user.id}`);
-                const tokenRequest = await response.json();
+                // Connect to the server's realtime backend, which fetches a fresh token
+                // from the server on connect and again whenever the current token expires
+                client = await createRealtimeClient(async () => {
+                    const response = await authFetch('/api/realtime/token');
+                    if (!response.ok) {
+                        throw new Error('Failed to fetch realtime token');
+                    }
+                    return response.json();
+                });
 
-                // Initialize Ably with the token
-                client = new Ably.Realtime({ authCallback: (_, callback) => callback(null, tokenRequest) });
+                // The user changed while connecting
+                if (cancelled) {
+                    client.close();
+                    return;
+                }
 
-                // Set the Ably client and channels
-                setAbly(client);
+                // Set the realtime client and channels
+                setRealtime(client);
 
                 // Initialize the presence channel
                 const presence = client.channels.get('presence');
@@ -77,47 +318,53 @@ export function AblyProvider({ children }: { children: ReactNode }) {
                 // Initialize the users channel for user list updates
                 const usersChannel = client.channels.get('users');
 
+                // Replace the user list and derive presence from it
+                const applyUserList = (updatedUsers: UserListEntry[]) => {
+                    setUsers(updatedUsers);
+
+                    // Update presence map based on users
+                    const newPresenceMap = new Map<string, boolean>();
+                    updatedUsers.forEach(user => {
+                        newPresenceMap.set(user.id, user.isOnline);
+                    });
+                    setUserPresence(newPresenceMap);
+                };
+
                 // Subscribe to user list updates
                 usersChannel.subscribe('update', (message) => {
-                    console.log('Received users update from Ably channel:', message.data);
-                    if (message.data && message.data.users) {
-                        console.log('User data received:', message.data.users);
-                        const updatedUsers = message.data.users as UserPresenceInfo[];
-
-                        // Normalize field names from database (lowercase) to component expected format (camelCase)
-                        const normalizedUsers = updatedUsers.map(user => ({
-                            ...user,
-                            // Make sure we have properly named properties regardless of the source
-                            isOnline: user.isOnline !== undefined ? user.isOnline : user.isonline,
-                            lastSeen: user.lastSeen || user.lastseen
-                        }));
-
-                        setUsers(normalizedUsers);
-
-                        // Update presence map based on users
-                        const newPresenceMap = new Map<string, boolean>();
-                        normalizedUsers.forEach(user => {
-                            newPresenceMap.set(user.id, user.isOnline || false);
-                        });
-                        setUserPresence(newPresenceMap);
+                    console.log('Received users update from realtime channel:', message.data);
+                    const data = parsePayload(UsersUpdateEventSchema, message.data, 'user list update');
+                    if (data) {
+                        applyUserList(data.users);
                     }
                 });
 
-                // Request initial user list immediately
-                usersChannel.publish('request_users', { userId: user.id });
-                console.log('Published request for user list with user ID:', user.id);
+                // Load the initial user list from the server
+                try {
+                    const usersResponse = await authFetch('/api/users');
+                    if (!usersResponse.ok) {
+                        throw new Error('Failed to fetch users');
+                    }
+                    applyUserList(UserListSchema.parse(await usersResponse.json()));
+                } catch (error) {
+                    console.error('Error fetching user list:', error);
+                }
 
                 // Setup presence monitoring
                 presence.presence.subscribe('enter', (member) => {
                     console.log('Presence enter:', member);
-                    const userData = member.data as { userId: string };
-                    setUserPresence(prev => new Map(prev).set(userData.userId, true));
+                    const userData = parsePayload(PresenceDataSchema, member.data, 'presence data');
+                    if (userData) {
+                        setUserPresence(prev => new Map(prev).set(userData.userId, true));
+                    }
                 });
 
                 presence.presence.subscribe('leave', (member) => {
                     console.log('Presence leave:', member);
-                    const userData = member.data as { userId: string };
-                    setUserPresence(prev => new Map(prev).set(userData.userId, false));
+                    const userData = parsePayload(PresenceDataSchema, member.data, 'presence data');
+                    if (userData) {
+                        setUserPresence(prev => new Map(prev).set(userData.userId, false));
+                    }
                 });
 
                 // Get initial presence members
@@ -127,8 +374,10 @@ export function AblyProvider({ children }: { children: ReactNode }) {
 
                     const newPresenceMap = new Map<string, boolean>();
                     members.forEach(member => {
-                        const userData = member.data as { userId: string };
-                        newPresenceMap.set(userData.userId, true);
+                        const userData = parsePayload(PresenceDataSchema, member.data, 'presence data');
+                        if (userData) {
+                            newPresenceMap.set(userData.userId, true);
+                        }
                     });
                     setUserPresence(newPresenceMap);
                 } catch (error) {
@@ -138,51 +387,360 @@ export function AblyProvider({ children }: { children: ReactNode }) {
                 // Enter the presence channel
                 await presence.presence.enter({ userId: user.id });
             } catch (error) {
-                console.error('Error initializing Ably:', error);
+                console.error('Error initializing realtime client:', error);
             }
         };
 
-        initAbly();
+        initRealtime();
 
         // Cleanup
         return () => {
+            cancelled = true;
             if (client) {
                 client.close();
             }
         };
-    }, [user]);
+    }, [user, authFetch]);
 
-    // Handle active chat change and fetch initial messages
+    // Fetch the chat rooms this user can see
+    const fetchRooms = useCallback(async () => {
+        try {
+            const response = await authFetch('/api/chat-rooms');
+            if (!response.ok) {
+                throw new Error('Failed to fetch chat rooms');
+            }
+
+            setRooms(ChatRoomSchema.array().parse(await response.json()));
+        } catch (error) {
+            console.error('Error fetching chat rooms:', error);
+        } finally {
+            setRoomsLoaded(true);
+        }
+    }, [authFetch]);
+
+    // Fetch the room invites waiting for this user
+    const fetchInvites = useCallback(async () => {
+        try {
+            const response = await authFetch('/api/invites');
+            if (!response.ok) {
+                throw new Error('Failed to fetch invites');
+            }
+
+            setInvites(RoomInviteSchema.array().parse(await response.json()));
+        } catch (error) {
+            console.error('Error fetching invites:', error);
+        }
+    }, [authFetch]);
+
+    // Fetch this user's direct message conversations
+    const fetchConversations = useCallback(async () => {
+        try {
+            const response = await authFetch('/api/conversations');
+            if (!response.ok) {
+                throw new Error('Failed to fetch conversations');
+            }
+
+            setConversations(ConversationSchema.array().parse(await response.json()));
+        } catch (error) {
+            console.error('Error fetching conversations:', error);
+        }
+    }, [authFetch]);
+
+    // Fetch the unread counts of every chat this user can see
+    const fetchUnreadCounts = useCallback(async () => {
+        try {
+            const response = await authFetch('/api/unread');
+            if (!response.ok) {
+                throw new Error('Failed to fetch unread counts');
+            }
+
+            const counts = UnreadCountSchema.array().parse(await response.json());
+            setUnreadCounts(Object.fromEntries(counts.map(count => [count.chat_id, count])));
+        } catch (error) {
+            console.error('Error fetching unread counts:', error);
+        }
+    }, [authFetch]);
+
+    // Fetch this user's bookmarks
+    const fetchBookmarks = useCallback(async () => {
+        try {
+            const response = await authFetch('/api/users/me/bookmarks');
+            if (!response.ok) {
+                throw new Error('Failed to fetch bookmarks');
+            }
+
+            setBookmarks(BookmarkSchema.array().parse(await response.json()));
+        } catch (error) {
+            console.error('Error fetching bookmarks:', error);
+        }
+    }, [authFetch]);
+
+    // Fetch rooms, invites, conversations, unread counts and bookmarks when the user signs in
     useEffect(() => {
-        if (!ably || !activeChatId || !user) return;
+        if (!user) {
+            setRooms([]);
+            setRoomsLoaded(false);
+            setInvites([]);
+            setConversations([]);
+            setUnreadCounts({});
+            setBookmarks([]);
+            return;
+        }
 
-        const fetchInitialMessages = async () => {
-            try {
-                const response = await fetch(`${import.meta.env.VITE_API_URL}/api/chat-rooms/${activeChatId}/messages`);
-                if (!response.ok) {
-                    throw new Error('Failed to fetch messages');
-                }
+        fetchRooms();
+        fetchInvites();
+        fetchConversations();
+        fetchUnreadCounts();
+        fetchBookmarks();
+    }, [user, fetchRooms, fetchInvites, fetchConversations, fetchUnreadCounts, fetchBookmarks]);
 
-                const data = await response.json();
-                setMessages(prev => ({
+    // Keep unread counts live for all chats through this user's notification channel
+    useEffect(() => {
+        if (!realtime || !user) return;
+
+        const notificationsChannel = realtime.channels.get(`notifications:${user.id}`);
+
+        const handleMessageNotification = (message: RealtimeMessage) => {
+            const notification = parsePayload(MessageNotificationSchema, message.data, 'message notification');
+            if (!notification) return;
+
+            setUnreadCounts(prev => {
+                const current = prev[notification.chat_id];
+                return {
                     ...prev,
-                    [activeChatId]: data.reverse() // Reverse to show newest at the bottom
-                }));
+                    [notification.chat_id]: {
+                        chat_id: notification.chat_id,
+                        unread_count: (current?.unread_count || 0) + 1,
+                        mention_count: current?.mention_count || 0
+                    }
+                };
+            });
+        };
+
+        const handleMentionNotification = (message: RealtimeMessage) => {
+            const mention = parsePayload(MentionNotificationSchema, message.data, 'mention notification');
+            if (!mention) return;
+
+            // Like unread counts, mention counts only cover the main message flow
+            if (mention.parent_id) return;
+
+            setUnreadCounts(prev => {
+                const current = prev[mention.chat_id];
+                return {
+                    ...prev,
+                    [mention.chat_id]: {
+                        chat_id: mention.chat_id,
+                        unread_count: current?.unread_count || 0,
+                        mention_count: (current?.mention_count || 0) + 1
+                    }
+                };
+            });
+        };
+
+        // Sent after this user reads a chat, in this tab or another one
+        const handleUnreadCount = (message: RealtimeMessage) => {
+            const count = parsePayload(UnreadCountSchema, message.data, 'unread count');
+            if (!count) return;
+
+            setUnreadCounts(prev => ({ ...prev, [count.chat_id]: count }));
+        };
+
+        notificationsChannel.subscribe('message', handleMessageNotification);
+        notificationsChannel.subscribe('mention', handleMentionNotification);
+        notificationsChannel.subscribe('unread', handleUnreadCount);
+        return () => {
+            notificationsChannel.unsubscribe('message', handleMessageNotification);
+            notificationsChannel.unsubscribe('mention', handleMentionNotification);
+            notificationsChannel.unsubscribe('unread', handleUnreadCount);
+        };
+    }, [realtime, user]);
+
+    // Receive direct messages on this user's own channel, whichever chat is open
+    useEffect(() => {
+        if (!realtime || !user) return;
+
+        const directChannel = realtime.channels.get(`direct:${user.id}`);
+        const handleDirectMessage = (message: RealtimeMessage) => {
+            const newMessage = parsePayload(MessageSchema, message.data, 'message');
+            if (!newMessage) return;
+
+            const chatId = newMessage.chat_id;
+
+            // Replies only matter if their thread has been loaded
+            if (newMessage.parent_id) {
+                const threadKey = getThreadKey(newMessage.parent_id);
+                setMessages(prev => {
+                    const replies = prev[threadKey];
+                    if (!replies || replies.some(m => m.id === newMessage.id)) {
+                        return prev;
+                    }
+                    return { ...prev, [threadKey]: [...replies, newMessage] };
+                });
+                return;
+            }
+
+            if (!paginationRef.current[chatId]?.hasNewer) {
+                setMessages(prev => {
+                    const existingMessages = prev[chatId] || [];
+                    if (existingMessages.some(m => m.id === newMessage.id)) {
+                        return prev;
+                    }
+                    return {
+                        ...prev,
+                        [chatId]: [...existingMessages, newMessage]
+                    };
+                });
+            }
+
+            // Move the conversation to the top, or load it if it is new
+            if (!conversationsRef.current.some(c => c.id === chatId)) {
+                fetchConversations();
+                return;
+            }
+            setConversations(prev => {
+                const existing = prev.find(c => c.id === chatId);
+                if (!existing) return prev;
+                return [{ ...existing, last_message: newMessage }, ...prev.filter(c => c.id !== chatId)];
+            });
+        };
+
+        const handleDirectMessageUpdated = (message: RealtimeMessage) => {
+            const update = parsePayload(MessageUpdateSchema, message.data, 'message update');
+            if (update) {
+                applyMessageUpdate(update);
+            }
+        };
+
+        const handleDirectMessageDeleted = (message: RealtimeMessage) => {
+            const deleted = parsePayload(MessageDeletedEventSchema, message.data, 'message deletion');
+            if (deleted) {
+                applyMessageDeletion(deleted);
+            }
+        };
+
+        const handleDirectReactionAdded = (message: RealtimeMessage) => {
+            const reaction = parsePayload(ReactionEventSchema, message.data, 'reaction');
+            if (reaction) {
+                applyReactionEvent(reaction, true);
+            }
+        };
+
+        const handleDirectReactionRemoved = (message: RealtimeMessage) => {
+            const reaction = parsePayload(ReactionEventSchema, message.data, 'reaction');
+            if (reaction) {
+                applyReactionEvent(reaction, false);
+            }
+        };
+
+        const handleDirectReadUpdated = (message: RealtimeMessage) => {
+            const marker = parsePayload(ReadMarkerSchema, message.data, 'read marker');
+            if (marker) {
+                applyReadMarker(marker);
+            }
+        };
+
+        directChannel.subscribe('message', handleDirectMessage);
+        directChannel.subscribe('message.updated', handleDirectMessageUpdated);
+        directChannel.subscribe('message.deleted', handleDirectMessageDeleted);
+        directChannel.subscribe('reaction.added', handleDirectReactionAdded);
+        directChannel.subscribe('reaction.removed', handleDirectReactionRemoved);
+        directChannel.subscribe('read.updated', handleDirectReadUpdated);
+        return () => {
+            directChannel.unsubscribe('message', handleDirectMessage);
+            directChannel.unsubscribe('message.updated', handleDirectMessageUpdated);
+            directChannel.unsubscribe('message.deleted', handleDirectMessageDeleted);
+            directChannel.unsubscribe('reaction.added', handleDirectReactionAdded);
+            directChannel.unsubscribe('reaction.removed', handleDirectReactionRemoved);
+            directChannel.unsubscribe('read.updated', handleDirectReadUpdated);
+        };
+    }, [realtime, user, fetchConversations, applyMessageUpdate, applyMessageDeletion, applyReactionEvent, applyReadMarker]);
+
+    // Keep the room list up to date as rooms are created, renamed, archived or change members
+    useEffect(() => {
+        if (!realtime || !user) return;
+
+        const roomsChannel = realtime.channels.get('rooms');
+        const handleRoomsUpdated = async () => {
+            await fetchRooms();
+            // Get a new token so that its capability covers rooms we just joined
+            try {
+                await realtime.authorize();
             } catch (error) {
-                console.error(`Error fetching messages for chat ${activeChatId}:`, error);
+                console.error('Error refreshing realtime token:', error);
             }
         };
 
+        // Invites addressed to this user arrive on their direct channel
+        const directChannel = realtime.channels.get(`direct:${user.id}`);
+        const handleInvite = () => {
+            fetchInvites();
+        };
+
+        roomsChannel.subscribe('updated', handleRoomsUpdated);
+        directChannel.subscribe('invite', handleInvite);
+        return () => {
+            roomsChannel.unsubscribe('updated', handleRoomsUpdated);
+            directChannel.unsubscribe('invite', handleInvite);
+        };
+    }, [realtime, user, fetchRooms, fetchInvites]);
+
+    // Replace a chat's messages with its latest page, or with the page around a message
+    const fetchMessagePage = useCallback(async (chatId: string, aroundMessageId?: string) => {
+        try {
+            const query = aroundMessageId ? `?around=${encodeURIComponent(aroundMessageId)}` : '';
+            const response = await authFetch(`/api/chat-rooms/${encodeURIComponent(chatId)}/messages${query}`);
+            if (!response.ok) {
+                throw new Error('Failed to fetch messages');
+            }
+
+            // Pages come back oldest first, so the newest message is at the bottom
+            const page = MessagePageSchema.parse(await response.json());
+            setMessages(prev => ({
+                ...prev,
+                [chatId]: page.messages
+            }));
+            setPagination(prev => ({
+                ...prev,
+                [chatId]: {
+                    hasMore: page.hasMore,
+                    nextCursor: page.nextCursor,
+                    hasNewer: page.hasNewer || false,
+                    newerCursor: page.newerCursor || null
+                }
+            }));
+        } catch (error) {
+            console.error(`Error fetching messages for chat ${chatId}:`, error);
+        }
+    }, [authFetch]);
+
+    // Handle active chat change and fetch initial messages
+    useEffect(() => {
+        if (!realtime || !activeChatId || !user) return;
+
+        // Open at the message being jumped to, if any
+        const fetchInitialMessages = () => {
+            const target = jumpTargetRef.current;
+            return fetchMessagePage(activeChatId, target?.chatId === activeChatId ? target.messageId : undefined);
+        };
+
+        // Direct messages arrive on the user's own direct channel instead
+        if (isConversationId(activeChatId)) {
+            fetchInitialMessages();
+            return;
+        }
+
         // Set up chat channel for the active chat
         const channelName = `chat:${activeChatId}`;
-        const chatChannel = ably.channels.get(channelName);
+        const chatChannel = realtime.channels.get(channelName);
 
         // Subscribe to messages on this channel
-        const handleMessage = (message: Ably.Message) => {
+        const handleMessage = (message: RealtimeMessage) => {
             console.log(`New message in ${activeChatId}:`, message.data);
-            if (!message.data) return;
+            const newMessage = parsePayload(MessageSchema, message.data, 'message');
+            if (!newMessage) return;
+
+            if (paginationRef.current[activeChatId]?.hasNewer) return;
 
-            const newMessage = message.data as Message;
             setMessages(prev => {
                 const existingMessages = prev[activeChatId] || [];
                 // Avoid duplicate messages
@@ -196,81 +754,518 @@ export function AblyProvider({ children }: { children: ReactNode }) {
             });
         };
 
+        // Merge edits into messages already shown
+        const handleMessageUpdated = (message: RealtimeMessage) => {
+            const update = parsePayload(MessageUpdateSchema, message.data, 'message update');
+            if (update) {
+                applyMessageUpdate(update);
+            }
+        };
+
+        // Replace deleted messages with tombstones
+        const handleMessageDeleted = (message: RealtimeMessage) => {
+            const deleted = parsePayload(MessageDeletedEventSchema, message.data, 'message deletion');
+            if (deleted) {
+                applyMessageDeletion(deleted);
+            }
+        };
+
+        // Keep reaction counts live
+        const handleReactionAdded = (message: RealtimeMessage) => {
+            const reaction = parsePayload(ReactionEventSchema, message.data, 'reaction');
+            if (reaction) {
+                applyReactionEvent(reaction, true);
+            }
+        };
+
+        const handleReactionRemoved = (message: RealtimeMessage) => {
+            const reaction = parsePayload(ReactionEventSchema, message.data, 'reaction');
+            if (reaction) {
+                applyReactionEvent(reaction, false);
+            }
+        };
+
+        // Follow how far others have read
+        const handleReadUpdated = (message: RealtimeMessage) => {
+            const marker = parsePayload(ReadMarkerSchema, message.data, 'read marker');
+            if (marker) {
+                applyReadMarker(marker);
+            }
+        };
+
+        // Keep the room's pinned messages live
+        const handlePinAdded = (message: RealtimeMessage) => {
+            const pin = parsePayload(PinnedMessageSchema, message.data, 'pinned message');
+            if (pin) {
+                applyPin(pin);
+            }
+        };
+
+        const handlePinRemoved = (message: RealtimeMessage) => {
+            const unpin = parsePayload(UnpinEventSchema, message.data, 'unpin event');
+            if (unpin) {
+                applyUnpin(unpin);
+            }
+        };
+
         chatChannel.subscribe('message', handleMessage);
+        chatChannel.subscribe('message.updated', handleMessageUpdated);
+        chatChannel.subscribe('message.deleted', handleMessageDeleted);
+        chatChannel.subscribe('reaction.added', handleReactionAdded);
+        chatChannel.subscribe('reaction.removed', handleReactionRemoved);
+        chatChannel.subscribe('read.updated', handleReadUpdated);
+        chatChannel.subscribe('pin.added', handlePinAdded);
+        chatChannel.subscribe('pin.removed', handlePinRemoved);
         fetchInitialMessages();
 
         // Cleanup function to unsubscribe when component unmounts or chat changes
         return () => {
             chatChannel.unsubscribe('message', handleMessage);
+            chatChannel.unsubscribe('message.updated', handleMessageUpdated);
+            chatChannel.unsubscribe('message.deleted', handleMessageDeleted);
+            chatChannel.unsubscribe('reaction.added', handleReactionAdded);
+            chatChannel.unsubscribe('reaction.removed', handleReactionRemoved);
+            chatChannel.unsubscribe('read.updated', handleReadUpdated);
+            chatChannel.unsubscribe('pin.added', handlePinAdded);
+            chatChannel.unsubscribe('pin.removed', handlePinRemoved);
+        };
+    }, [realtime, activeChatId, user, fetchMessagePage, applyMessageUpdate, applyMessageDeletion, applyReactionEvent, applyReadMarker, applyPin, applyUnpin]);
+
+    // Load the read markers of the active chat, remembering where this user had read up to
+    useEffect(() => {
+        if (!activeChatId || !user) return;
+
+        const fetchReadMarkers = async () => {
+            try {
+                const response = await authFetch(`/api/chat-rooms/${encodeURIComponent(activeChatId)}/read`);
+                if (!response.ok) {
+                    throw new Error('Failed to fetch read markers');
+                }
+
+                const markers = ReadMarkerSchema.array().parse(await response.json());
+                setReadMarkers(prev => ({ ...prev, [activeChatId]: markers }));
+                setPreviousReadMarkers(prev => ({
+                    ...prev,
+                    [activeChatId]: markers.find(m => m.user_id === user.id)?.last_read_message_id || null
+                }));
+            } catch (error) {
+                console.error(`Error fetching read markers for chat ${activeChatId}:`, error);
+            }
         };
-    }, [ably, activeChatId, user]);
 
-    // Function to load more messages (pagination)
-    const loadMoreMessages = async (chatId: string) => {
+        fetchReadMarkers();
+    }, [activeChatId, user, authFetch]);
+
+    // Load the pinned messages of the active room; direct messages have none
+    useEffect(() => {
+        if (!activeChatId || !user || isConversationId(activeChatId)) return;
+
+        const fetchPins = async () => {
+            try {
+                const response = await authFetch(`/api/chat-rooms/${encodeURIComponent(activeChatId)}/pins`);
+                if (!response.ok) {
+                    throw new Error('Failed to fetch pinned messages');
+                }
+
+                const pins = PinnedMessageSchema.array().parse(await response.json());
+                setPinnedMessages(prev => ({ ...prev, [activeChatId]: pins }));
+            } catch (error) {
+                console.error(`Error fetching pinned messages for chat ${activeChatId}:`, error);
+            }
+        };
+
+        fetchPins();
+    }, [activeChatId, user, authFetch]);
+
+    // Follow who is typing in the active chat. Each typing user's presence data is
+    // refreshed while they type; entries are dropped when they stop, leave, or go quiet.
+    useEffect(() => {
+        if (!realtime || !activeChatId || !user) return;
+
+        const typingChannel = realtime.channels.get(`typing:${activeChatId}`);
+        // When each typing user was last heard from, by local clock
+        const lastSeen = new Map<string, { user: TypingUser; at: number }>();
+
+        const refreshTypingUsers = () => {
+            const now = Date.now();
+            lastSeen.forEach((entry, clientId) => {
+                if (now - entry.at > TYPING_TIMEOUT_MS) {
+                    lastSeen.delete(clientId);
+                }
+            });
+            setTypingUsers([...lastSeen.values()].map(entry => entry.user));
+        };
+
+        const handleTypingPresence = (member: PresenceMember) => {
+            if (member.clientId === user.id) return;
+
+            const data = member.action === 'leave'
+                ? null
+                : parsePayload(TypingPresenceDataSchema, member.data, 'typing presence data');
+            if (data?.typing) {
+                lastSeen.set(member.clientId, {
+                    user: { id: member.clientId, username: data.username },
+                    at: Date.now()
+                });
+            } else {
+                lastSeen.delete(member.clientId);
+            }
+            refreshTypingUsers();
+        };
+
+        typingChannel.presence.subscribe(handleTypingPresence);
+        typingChannel.presence.get()
+            .then(members => members.forEach(handleTypingPresence))
+            .catch(error => console.error('Error getting typing members:', error));
+
+        const expiryTimer = setInterval(refreshTypingUsers, 1000);
+
+        return () => {
+            clearInterval(expiryTimer);
+            typingChannel.presence.unsubscribe(handleTypingPresence);
+            typingChannel.presence.leave().catch(() => undefined);
+            setTypingUsers([]);
+        };
+    }, [realtime, activeChatId, user]);
+
+    // Tell the others in the active chat whether this user is typing
+    const setTyping = useCallback((typing: boolean) => {
+        if (!realtime || !activeChatId || !user) return;
+
+        const data: TypingPresenceData = {
+            typing,
+            username: user.user_metadata.username
+        };
+        realtime.channels.get(`typing:${activeChatId}`).presence.update(data)
+            .catch(error => console.error('Error updating typing status:', error));
+    }, [realtime, activeChatId, user]);
+
+    // Close the thread panel when switching chats, unless a thread reply is being jumped to
+    useEffect(() => {
+        const target = jumpTargetRef.current;
+        setActiveThreadId(target?.chatId === activeChatId ? target.threadId : null);
+    }, [activeChatId]);
+
+    // Load the open thread and follow its replies
+    useEffect(() => {
+        if (!realtime || !activeChatId || !activeThreadId || !user) return;
+
+        const threadKey = getThreadKey(activeThreadId);
+
+        const fetchThread = async () => {
+            try {
+                const response = await authFetch(
+                    `/api/chat-rooms/${encodeURIComponent(activeChatId)}/messages/${activeThreadId}/thread`
+                );
+                if (!response.ok) {
+                    throw new Error('Failed to fetch thread');
+                }
+
+                const page = ThreadPageSchema.parse(await response.json());
+                setMessages(prev => ({
+                    ...prev,
+                    [threadKey]: page.messages
+                }));
+                setPagination(prev => ({
+                    ...prev,
+                    [threadKey]: { hasMore: page.hasMore, nextCursor: page.nextCursor }
+                }));
+            } catch (error) {
+                console.error(`Error fetching thread ${activeThreadId}:`, error);
+            }
+        };
+
+        // Replies in direct messages arrive on the user's own direct channel instead
+        if (isConversationId(activeChatId)) {
+            fetchThread();
+            return;
+        }
+
+        const threadChannel = realtime.channels.get(`thread:${activeChatId}:${activeThreadId}`);
+
+        const handleReply = (message: RealtimeMessage) => {
+            const reply = parsePayload(MessageSchema, message.data, 'reply');
+            if (!reply) return;
+
+            setMessages(prev => {
+                const replies = prev[threadKey] || [];
+                if (replies.some(m => m.id === reply.id)) {
+                    return prev;
+                }
+                return { ...prev, [threadKey]: [...replies, reply] };
+            });
+        };
+
+        const handleReplyUpdated = (message: RealtimeMessage) => {
+            const update = parsePayload(MessageUpdateSchema, message.data, 'message update');
+            if (update) {
+                applyMessageUpdate(update);
+            }
+        };
+
+        const handleReplyDeleted = (message: RealtimeMessage) => {
+            const deleted = parsePayload(MessageDeletedEventSchema, message.data, 'message deletion');
+            if (deleted) {
+                applyMessageDeletion(deleted);
+            }
+        };
+
+        const handleReactionAdded = (message: RealtimeMessage) => {
+            const reaction = parsePayload(ReactionEventSchema, message.data, 'reaction');
+            if (reaction) {
+                applyReactionEvent(reaction, true);
+            }
+        };
+
+        const handleReactionRemoved = (message: RealtimeMessage) => {
+            const reaction = parsePayload(ReactionEventSchema, message.data, 'reaction');
+            if (reaction) {
+                applyReactionEvent(reaction, false);
+            }
+        };
+
+        threadChannel.subscribe('message', handleReply);
+        threadChannel.subscribe('message.updated', handleReplyUpdated);
+        threadChannel.subscribe('message.deleted', handleReplyDeleted);
+        threadChannel.subscribe('reaction.added', handleReactionAdded);
+        threadChannel.subscribe('reaction.removed', handleReactionRemoved);
+        fetchThread();
+
+        return () => {
+            threadChannel.unsubscribe('message', handleReply);
+            threadChannel.unsubscribe('message.updated', handleReplyUpdated);
+            threadChannel.unsubscribe('message.deleted', handleReplyDeleted);
+            threadChannel.unsubscribe('reaction.added', handleReactionAdded);
+            threadChannel.unsubscribe('reaction.removed', handleReactionRemoved);
+        };
+    }, [realtime, activeChatId, activeThreadId, user, authFetch, applyMessageUpdate, applyMessageDeletion, applyReactionEvent]);
+
+    // Function to load the next page of older messages, or of older replies in a thread
+    const loadMoreMessages = async (chatId: string, parentId?: string) => {
         if (!user || !chatId) return;
 
+        const listKey = parentId ? getThreadKey(parentId) : chatId;
+        const chatPagination = pagination[listKey];
+        if (!chatPagination?.hasMore || !chatPagination.nextCursor) return;
+
+        const path = parentId
+            ? `/api/chat-rooms/${encodeURIComponent(chatId)}/messages/${parentId}/thread`
+            : `/api/chat-rooms/${encodeURIComponent(chatId)}/messages`;
+
         try {
-            const currentMessages = messages[chatId] || [];
-            const oldestMessageDate = currentMessages.length > 0
-                ? new Date(currentMessages[0].created_at || currentMessages[0].timestamp || '')
-                : new Date();
+            const response = await authFetch(`${path}?before=${encodeURIComponent(chatPagination.nextCursor)}`);
 
-            const response = await fetch(
-                `${import.meta.env.VITE_API_URL}/api/chat-rooms/${chatId}/messages?before=${oldestMessageDate.toISOString()}`
+            if (!response.ok) {
+                throw new Error('Failed to fetch more messages');
+            }
+
+            const page = MessagePageSchema.parse(await response.json());
+
+            setMessages(prev => {
+                const currentMessages = prev[listKey] || [];
+                const olderMessages = page.messages.filter(
+                    older => !currentMessages.some(m => m.id === older.id)
+                );
+                return {
+                    ...prev,
+                    [listKey]: [...olderMessages, ...currentMessages]
+                };
+            });
+            setPagination(prev => ({
+                ...prev,
+                [listKey]: { hasMore: page.hasMore, nextCursor: page.nextCursor }
+            }));
+        } catch (error) {
+            console.error(`Error loading more messages for chat ${chatId}:`, error);
+        }
+    };
+
+    // Function to load the next page of newer messages while older history is shown
+    const loadNewerMessages = async (chatId: string) => {
+        if (!user || !chatId) return;
+
+        const chatPagination = pagination[chatId];
+        if (!chatPagination?.hasNewer || !chatPagination.newerCursor) return;
+
+        try {
+            const response = await authFetch(
+                `/api/chat-rooms/${encodeURIComponent(chatId)}/messages?after=${encodeURIComponent(chatPagination.newerCursor)}`
             );
 
             if (!response.ok) {
-                throw new Error('Failed to fetch more messages');
+                throw new Error('Failed to fetch newer messages');
             }
 
-            const olderMessages = await response.json();
+            const page = MessagePageSchema.parse(await response.json());
 
-            if (olderMessages.length > 0) {
-                setMessages(prev => ({
+            setMessages(prev => {
+                const currentMessages = prev[chatId] || [];
+                const newerMessages = page.messages.filter(
+                    newer => !currentMessages.some(m => m.id === newer.id)
+                );
+                return {
                     ...prev,
-                    [chatId]: [...olderMessages.reverse(), ...currentMessages]
-                }));
+                    [chatId]: [...currentMessages, ...newerMessages]
+                };
+            });
+            setPagination(prev => ({
+                ...prev,
+                [chatId]: { ...prev[chatId], hasNewer: page.hasMore, newerCursor: page.nextCursor }
+            }));
+        } catch (error) {
+            console.error(`Error loading newer messages for chat ${chatId}:`, error);
+        }
+    };
+
+    // Function to go back from older history to the latest messages of a chat
+    const jumpToLatest = (chatId: string) => fetchMessagePage(chatId);
+
+    // Function to search the messages of all chats the user can see, or of one chat
+    const searchMessages = async (params: MessageSearchParams): Promise<MessageSearchResult[]> => {
+        const query = new URLSearchParams();
+        Object.entries(params).forEach(([key, value]) => {
+            if (value) {
+                query.set(key, value);
+            }
+        });
+
+        const response = await authFetch(`/api/search/messages?${query}`);
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'Failed to search messages');
+        }
+
+        return MessageSearchResultSchema.array().parse(await response.json());
+    };
+
+    // Function to show a message in its chat, loading the history around it if needed.
+    // Thread replies are shown by jumping to the thread's parent with the thread open.
+    const jumpToMessage = async (chatId: string, messageId: string, parentId?: string | null) => {
+        const target: JumpTarget = {
+            chatId,
+            messageId: parentId || messageId,
+            threadId: parentId || null
+        };
+        jumpTargetRef.current = target;
+        setJumpTarget(target);
+
+        // Other chats load the history around the message when they are opened
+        if (chatId !== activeChatId) return;
+
+        if (!messages[chatId]?.some(m => m.id === target.messageId)) {
+            await fetchMessagePage(chatId, target.messageId);
+        }
+        setActiveThreadId(target.threadId);
+    };
+
+    const clearJumpTarget = useCallback(() => {
+        jumpTargetRef.current = null;
+        setJumpTarget(null);
+    }, []);
+
+    // Function to create a new chat room
+    const createRoom = async (name: string, description: string, isPrivate: boolean = false) => {
+        try {
+            const response = await authFetch('/api/chat-rooms', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ name, description, isPrivate })
+            });
+
+            if (!response.ok) {
+                const errorData = await response.json();
+                throw new Error(errorData.error || 'Failed to create room');
             }
+
+            const room = ChatRoomSchema.parse(await response.json());
+            setRooms(prev => prev.some(r => r.id === room.id) ? prev : [...prev, room]);
+            return room;
         } catch (error) {
-            console.error(`Error loading more messages for chat ${chatId}:`, error);
+            console.error('Error creating room:', error);
+            throw error;
         }
     };
 
-    // Function to send a message
-    const sendMessage = async (content: string, chatId: string, recipient?: { id: string, username: string }) => {
-        if (!ably || !user) return;
+    // Function to join a room through an invite link or an invite addressed to this user
+    const acceptInvite = async (token: string) => {
+        const response = await authFetch(`/api/invites/${encodeURIComponent(token)}/accept`, {
+            method: 'POST'
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'Failed to accept invite');
+        }
 
+        const room = ChatRoomSchema.parse(await response.json());
+        setInvites(prev => prev.filter(invite => invite.token !== token));
+        await fetchRooms();
+        // Get a new token so that its capability covers the joined room. The invite is accepted
+        // either way, so a failure here is only logged; the room is subscribed on the next renewal.
         try {
-            const response = await fetch(`${import.meta.env.VITE_API_URL}/api/chat-rooms/${chatId}/messages`, {
+            await realtime?.authorize();
+        } catch (error) {
+            console.error('Error refreshing realtime token:', error);
+        }
+        return room;
+    };
+
+    // Function to decline an invite addressed to this user
+    const declineInvite = async (token: string) => {
+        try {
+            const response = await authFetch(`/api/invites/${encodeURIComponent(token)}`, {
+                method: 'DELETE'
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to decline invite');
+            }
+
+            setInvites(prev => prev.filter(invite => invite.token !== token));
+        } catch (error) {
+            console.error('Error declining invite:', error);
+        }
+    };
+
+    // Function to send a message, or a reply when a parent message is given
+    const sendMessage = async (content: string, chatId: string, parentId?: string, attachmentIds: string[] = []) => {
+        if (!realtime || !user) return;
+
+        try {
+            const response = await authFetch(`/api/chat-rooms/${encodeURIComponent(chatId)}/messages`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json'
                 },
-                body: JSON.stringify({
-                    content,
-                    senderId: user.id,
-                    recipientId: recipient?.id
-                })
+                body: JSON.stringify({ content, parentId, attachmentIds })
             });
 
             if (!response.ok) {
                 throw new Error('Failed to send message');
             }
 
-            const messageData = await response.json();
+            const messageData = MessageSchema.parse(await response.json());
+            const listKey = parentId ? getThreadKey(parentId) : chatId;
+
+            // Show the sent message among the latest ones rather than after older history
+            if (!parentId && paginationRef.current[chatId]?.hasNewer) {
+                await fetchMessagePage(chatId);
+                return;
+            }
 
             // Optimistically add the message to the UI
             setMessages(prev => {
-                const existingMessages = prev[chatId] || [];
+                const existingMessages = prev[listKey] || [];
+                // The live event may have arrived first
+                if (existingMessages.some(m => m.id === messageData.id)) {
+                    return prev;
+                }
                 return {
                     ...prev,
-                    [chatId]: [...existingMessages, {
-                        ...messageData,
-                        sender: {
-                            id: user.id,
-                            username: user.user_metadata.username
-                        }
-                    }]
+                    [listKey]: [...existingMessages, messageData]
                 };
             });
         } catch (error) {
@@ -278,15 +1273,261 @@ export function AblyProvider({ children }: { children: ReactNode }) {
         }
     };
 
+    // Function to upload an attachment. Uses XMLHttpRequest, as fetch cannot report upload progress.
+    const uploadAttachment = async (file: File, onProgress?: (progress: number) => void) => {
+        const accessToken = await getAccessToken();
+
+        return new Promise<MessageAttachment>((resolve, reject) => {
+            const request = new XMLHttpRequest();
+            request.open('POST', `${import.meta.env.VITE_API_URL}/api/attachments?filename=${encodeURIComponent(file.name)}`);
+            if (accessToken) {
+                request.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+            }
+            // Browsers leave the type of some text files such as logs empty
+            request.setRequestHeader('Content-Type', file.type || 'text/plain');
+            request.responseType = 'json';
+
+            request.upload.onprogress = (event) => {
+                if (event.lengthComputable) {
+                    onProgress?.(event.loaded / event.total);
+                }
+            };
+            request.onload = () => {
+                if (request.status === 201) {
+                    const attachment = MessageAttachmentSchema.safeParse(request.response);
+                    if (attachment.success) {
+                        resolve(attachment.data);
+                    } else {
+                        reject(new Error('Invalid attachment in upload response'));
+                    }
+                } else {
+                    reject(new Error(request.response?.error || 'Failed to upload attachment'));
+                }
+            };
+            request.onerror = () => reject(new Error('Failed to upload attachment'));
+            request.send(file);
+        });
+    };
+
+    const hasMoreMessages = Object.fromEntries(
+        Object.entries(pagination).map(([chatId, page]) => [chatId, page.hasMore])
+    );
+    const hasNewerMessages = Object.fromEntries(
+        Object.entries(pagination).map(([chatId, page]) => [chatId, page.hasNewer || false])
+    );
+
+    // Function to edit one of the user's own messages
+    const editMessage = async (chatId: string, messageId: string, content: string) => {
+        const response = await authFetch(`/api/chat-rooms/${encodeURIComponent(chatId)}/messages/${messageId}`, {
+            method: 'PATCH',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ content })
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'Failed to edit message');
+        }
+
+        applyMessageUpdate(MessageSchema.parse(await response.json()));
+    };
+
+    // Function to delete a message (own messages, or any message for room moderators)
+    const deleteMessage = async (chatId: string, messageId: string) => {
+        const response = await authFetch(`/api/chat-rooms/${encodeURIComponent(chatId)}/messages/${messageId}`, {
+            method: 'DELETE'
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'Failed to delete message');
+        }
+
+        applyMessageUpdate(MessageUpdateSchema.parse(await response.json()));
+    };
+
+    // Function to add the user's reaction to a message, or remove it if they already reacted
+    const toggleReaction = async (chatId: string, messageId: string, emoji: string) => {
+        // The message may be in the chat or in one of its threads
+        const message = Object.values(messages).flat().find(m => m.id === messageId);
+        const reacted = message?.reactions?.some(r => r.emoji === emoji && r.reacted) || false;
+
+        const response = await authFetch(
+            `/api/chat-rooms/${encodeURIComponent(chatId)}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`,
+            { method: reacted ? 'DELETE' : 'PUT' }
+        );
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'Failed to update reaction');
+        }
+
+        const data = MessageReactionsSchema.parse(await response.json());
+        setMessageReactions(message ? getMessageListKey(message) : chatId, messageId, () => data.reactions);
+    };
+
+    // Function to pin a message to the top of its room, or unpin it (room owners and admins)
+    const togglePin = async (chatId: string, messageId: string) => {
+        const pinned = (pinnedMessages[chatId] || []).some(pin => pin.message_id === messageId);
+
+        const response = await authFetch(
+            `/api/chat-rooms/${encodeURIComponent(chatId)}/messages/${messageId}/pin`,
+            { method: pinned ? 'DELETE' : 'PUT' }
+        );
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'Failed to update pin');
+        }
+
+        if (pinned) {
+            applyUnpin({ chat_id: chatId, message_id: messageId });
+        } else {
+            applyPin(PinnedMessageSchema.parse(await response.json()));
+        }
+    };
+
+    // Function to bookmark a message, or change the note of a bookmark
+    const saveBookmark = async (messageId: string, note: string | null = null) => {
+        const response = await authFetch('/api/users/me/bookmarks', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ messageId, note })
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'Failed to save bookmark');
+        }
+
+        const bookmark = BookmarkSchema.parse(await response.json());
+        setBookmarks(prev => {
+            // A bookmark whose note changed keeps its place
+            if (prev.some(b => b.message_id === messageId)) {
+                return prev.map(b => b.message_id === messageId ? bookmark : b);
+            }
+            return [bookmark, ...prev];
+        });
+    };
+
+    // Function to remove a bookmark
+    const removeBookmark = async (messageId: string) => {
+        const response = await authFetch(`/api/users/me/bookmarks/${messageId}`, {
+            method: 'DELETE'
+        });
+
+        // A bookmark that is already gone counts as removed
+        if (!response.ok && response.status !== 404) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'Failed to remove bookmark');
+        }
+
+        setBookmarks(prev => prev.filter(b => b.message_id !== messageId));
+    };
+
+    // Function to bookmark a message, or remove its bookmark if it is already saved
+    const toggleBookmark = (messageId: string) => bookmarks.some(b => b.message_id === messageId)
+        ? removeBookmark(messageId)
+        : saveBookmark(messageId);
+
+    // Function to move this user's read marker forward to a message
+    const markRead = async (chatId: string, messageId: string) => {
+        if (!user) return;
+
+        const chatMessages = messages[chatId] || [];
+        const ownMarker = readMarkersRef.current[chatId]?.find(m => m.user_id === user.id);
+        const newIndex = chatMessages.findIndex(m => m.id === messageId);
+        const currentIndex = Math.max(
+            chatMessages.findIndex(m => m.id === ownMarker?.last_read_message_id),
+            chatMessages.findIndex(m => m.id === pendingReadRef.current[chatId])
+        );
+
+        // Markers only move forward
+        if (newIndex === -1 || newIndex <= currentIndex) return;
+
+        pendingReadRef.current[chatId] = messageId;
+        try {
+            const response = await authFetch(`/api/chat-rooms/${encodeURIComponent(chatId)}/read`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ messageId })
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to update read marker');
+            }
+
+            applyReadMarker(ReadMarkerSchema.parse(await response.json()));
+        } catch (error) {
+            console.error('Error updating read marker:', error);
+        } finally {
+            if (pendingReadRef.current[chatId] === messageId) {
+                delete pendingReadRef.current[chatId];
+            }
+        }
+    };
+
+    // Function to get the previous versions of an edited message
+    const getMessageEdits = async (chatId: string, messageId: string) => {
+        const response = await authFetch(`/api/chat-rooms/${encodeURIComponent(chatId)}/messages/${messageId}/edits`);
+
+        if (!response.ok) {
+            throw new Error('Failed to fetch edit history');
+        }
+
+        return MessageEditSchema.array().parse(await response.json());
+    };
+
     const value = {
-        ably,
+        realtime,
+        rooms,
+        roomsLoaded,
+        createRoom,
+        invites,
+        acceptInvite,
+        declineInvite,
+        conversations,
         activeChatId,
         setActiveChatId,
         messages,
+        hasMoreMessages,
+        activeThreadId,
+        setActiveThreadId,
         userPresence,
         users,
+        readMarkers,
+        previousReadMarkers,
+        markRead,
+        unreadCounts,
+        typingUsers,
+        setTyping,
         sendMessage,
-        loadMoreMessages
+        uploadAttachment,
+        editMessage,
+        deleteMessage,
+        toggleReaction,
+        getMessageEdits,
+        loadMoreMessages,
+        hasNewerMessages,
+        loadNewerMessages,
+        jumpToLatest,
+        searchMessages,
+        jumpTarget,
+        jumpToMessage,
+        clearJumpTarget,
+        pinnedMessages,
+        togglePin,
+        bookmarks,
+        fetchBookmarks,
+        saveBookmark,
+        removeBookmark,
+        toggleBookmark
     };
 
     return <AblyContext.Provider value={value}>{children}</AblyContext.Provider>;
@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { createClient, SupabaseClient, User } from '@supabase/supabase-js';
 
@@ -8,6 +8,16 @@ const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
 const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
 const supabase = createClient(supabaseUrl, supabaseKey);
 
+// Call the API server, sending the given Supabase access token as a bearer token
+function apiFetch(path: string, accessToken: string | null, init: RequestInit = {}) {
+    const headers = new Headers(init.headers);
+    if (accessToken) {
+        headers.set('Authorization', `Bearer ${accessToken}`);
+    }
+
+    return fetch(`${import.meta.env.VITE_API_URL}${path}`, { ...init, headers });
+}
+
 interface AuthContextType {
     user: User | null;
     loading: boolean;
@@ -15,6 +25,8 @@ interface AuthContextType {
     signUp: (email: string, password: string, username: string) => Promise<{ error: any }>;
     signOut: () => Promise<void>;
     setOnlineStatus: (isOnline: boolean) => Promise<void>;
+    getAccessToken: () => Promise<string | null>;
+    authFetch: (path: string, init?: RequestInit) => Promise<Response>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -93,17 +105,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
                 return { error: { message: 'Failed to create user account' } };
             }
 
+            // The server identifies the new user from their access token
+            const accessToken = data.session?.access_token;
+            if (!accessToken) {
+                console.error('No session returned after signup');
+                return { error: { message: 'Please confirm your email address, then sign in' } };
+            }
+
             console.log('Registering user profile with ID:', userId);
 
             // Create user profile using the server API instead of direct Supabase access
             try {
-                const response = await fetch(`${import.meta.env.VITE_API_URL}/api/users/register`, {
+                const response = await apiFetch('/api/users/register', accessToken, {
                     method: 'POST',
                     headers: {
                         'Content-Type': 'application/json'
                     },
                     body: JSON.stringify({
-                        userId,
                         email,
                         username
                     })
@@ -147,7 +165,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
                 .eq('id', user.id);
 
             // Update on API server (which will notify clients via Ably)
-            await fetch(`${import.meta.env.VITE_API_URL}/api/users/${user.id}/status`, {
+            await authFetch(`/api/users/${user.id}/status`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json'
@@ -159,13 +177,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
     };
 
+    // Get the current access token, refreshed by Supabase when it has expired
+    const getAccessToken = useCallback(async () => {
+        const { data: { session } } = await supabase.auth.getSession();
+        return session?.access_token || null;
+    }, []);
+
+    // Fetch from the API server as the signed-in user
+    const authFetch = useCallback(async (path: string, init?: RequestInit) => {
+        return apiFetch(path, await getAccessToken(), init);
+    }, [getAccessToken]);
+
     const value = {
         user,
         loading,
         signIn,
         signUp,
         signOut,
-        setOnlineStatus
+        setOnlineStatus,
+        getAccessToken,
+        authFetch
     };
 
     return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,34 @@
+import * as Ably from 'ably';
+import { RealtimeClient, RealtimeChannel } from './RealtimeClient';
+
+/**
+ * Connects through Ably using token requests signed by the server
+ */
+export class AblyRealtimeClient implements RealtimeClient {
+    private ably: Ably.Realtime;
+
+    constructor(fetchToken: () => Promise<unknown>) {
+        this.ably = new Ably.Realtime({
+            authCallback: async (_, callback) => {
+                try {
+                    callback(null, await fetchToken() as Ably.TokenRequest);
+                } catch (error) {
+                    console.error('Error fetching realtime token:', error);
+                    callback(error instanceof Error ? error.message : String(error), null);
+                }
+            }
+        });
+    }
+
+    channels = {
+        get: (name: string): RealtimeChannel => this.ably.channels.get(name)
+    };
+
+    async authorize(): Promise<void> {
+        await this.ably.auth.authorize();
+    }
+
+    close(): void {
+        this.ably.close();
+    }
+}
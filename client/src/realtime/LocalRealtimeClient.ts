@@ -0,0 +1,269 @@
+import {
+    RealtimeClient,
+    RealtimeChannel,
+    RealtimePresence,
+    RealtimeMessage,
+    PresenceAction,
+    PresenceMember,
+    MessageListener,
+    PresenceListener
+} from './RealtimeClient';
+
+// Delay before reconnecting, doubled after each failed attempt up to the maximum
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// A request to the server; requests are answered with an ack or nack carrying the same ID
+interface ClientFrame {
+    id?: number;
+    action: string;
+    channel?: string;
+    data?: unknown;
+    token?: string;
+}
+
+interface ServerFrame {
+    action: 'ack' | 'nack' | 'message' | 'presence';
+    id?: number;
+    result?: unknown;
+    error?: string;
+    channel?: string;
+    message?: RealtimeMessage;
+    presence?: PresenceMember;
+}
+
+type SendFrame = (frame: ClientFrame) => Promise<unknown>;
+
+class LocalChannel implements RealtimeChannel {
+    private listeners = new Map<string, Set<MessageListener>>();
+    private presenceListeners = new Map<PresenceListener, PresenceAction | null>();
+    // Whether the server sends this channel's events to the connection
+    private attached = false;
+    // The data this client entered presence with, restored after reconnecting
+    private presenceData: { data: unknown } | null = null;
+
+    private name: string;
+    private send: SendFrame;
+    presence: RealtimePresence;
+
+    constructor(name: string, send: SendFrame) {
+        this.name = name;
+        this.send = send;
+        this.presence = {
+            enter: async (data?: unknown) => {
+                this.presenceData = { data };
+                await send({ action: 'presence.enter', channel: name, data });
+            },
+            update: async (data?: unknown) => {
+                this.presenceData = { data };
+                await send({ action: 'presence.update', channel: name, data });
+            },
+            leave: async () => {
+                this.presenceData = null;
+                await send({ action: 'presence.leave', channel: name });
+            },
+            get: async () => {
+                this.attach();
+                return await send({ action: 'presence.get', channel: name }) as PresenceMember[];
+            },
+            subscribe: (actionOrListener: PresenceAction | PresenceListener, listener?: PresenceListener) => {
+                if (typeof actionOrListener === 'function') {
+                    this.presenceListeners.set(actionOrListener, null);
+                } else if (listener) {
+                    this.presenceListeners.set(listener, actionOrListener);
+                }
+                this.attach();
+            },
+            unsubscribe: (listener: PresenceListener) => {
+                this.presenceListeners.delete(listener);
+            }
+        };
+    }
+
+    subscribe(name: string, listener: MessageListener): void {
+        this.listeners.set(name, (this.listeners.get(name) || new Set()).add(listener));
+        this.attach();
+    }
+
+    unsubscribe(name: string, listener: MessageListener): void {
+        this.listeners.get(name)?.delete(listener);
+    }
+
+    /**
+     * Ask the server for this channel's events, once
+     */
+    private attach(): void {
+        if (this.attached) return;
+        this.attached = true;
+        this.send({ action: 'subscribe', channel: this.name }).catch(error => {
+            this.attached = false;
+            console.error(`Error subscribing to ${this.name}:`, error);
+        });
+    }
+
+    /**
+     * Subscribe and enter presence again on a new connection
+     */
+    restore(): void {
+        if (this.attached) {
+            this.attached = false;
+            this.attach();
+        }
+        if (this.presenceData) {
+            this.send({ action: 'presence.enter', channel: this.name, data: this.presenceData.data })
+                .catch(error => console.error(`Error entering presence on ${this.name}:`, error));
+        }
+    }
+
+    dispatch(frame: ServerFrame): void {
+        if (frame.action === 'message' && frame.message) {
+            const message = frame.message;
+            this.listeners.get(message.name || '')?.forEach(listener => listener(message));
+        } else if (frame.action === 'presence' && frame.presence) {
+            const member = frame.presence;
+            this.presenceListeners.forEach((action, listener) => {
+                if (!action || action === member.action) {
+                    listener(member);
+                }
+            });
+        }
+    }
+}
+
+/**
+ * Connects to the server's own WebSocket endpoint, for servers running without Ably.
+ * Reconnects with a fresh token when the connection drops or the token expires.
+ */
+export class LocalRealtimeClient implements RealtimeClient {
+    private socket: WebSocket | null = null;
+    private channelMap = new Map<string, LocalChannel>();
+    // Requests sent and waiting for an answer, by ID
+    private pending = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+    // Requests made while disconnected, sent once connected
+    private queue: ClientFrame[] = [];
+    private nextId = 1;
+    private reconnectDelay = MIN_RECONNECT_DELAY_MS;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    // Whether a connection was open before, so subscriptions and presence need restoring
+    private connectedBefore = false;
+    private closed = false;
+
+    private url: string;
+    private fetchToken: () => Promise<string>;
+
+    constructor(url: string, fetchToken: () => Promise<string>) {
+        this.url = url;
+        this.fetchToken = fetchToken;
+        this.connect();
+    }
+
+    channels = {
+        get: (name: string): RealtimeChannel => {
+            let channel = this.channelMap.get(name);
+            if (!channel) {
+                channel = new LocalChannel(name, frame => this.request(frame));
+                this.channelMap.set(name, channel);
+            }
+            return channel;
+        }
+    };
+
+    async authorize(): Promise<void> {
+        const token = await this.fetchToken();
+        await this.request({ action: 'auth', token });
+    }
+
+    close(): void {
+        this.closed = true;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+        }
+        this.socket?.close();
+        this.socket = null;
+    }
+
+    private request(frame: Omit<ClientFrame, 'id'>): Promise<unknown> {
+        const id = this.nextId++;
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, { resolve, reject });
+            this.queue.push({ ...frame, id });
+            this.flush();
+        });
+    }
+
+    private flush(): void {
+        if (this.socket?.readyState !== WebSocket.OPEN) return;
+        this.queue.splice(0).forEach(frame => this.socket?.send(JSON.stringify(frame)));
+    }
+
+    private async connect(): Promise<void> {
+        let token: string;
+        try {
+            token = await this.fetchToken();
+        } catch (error) {
+            console.error('Error fetching realtime token:', error);
+            this.scheduleReconnect();
+            return;
+        }
+        if (this.closed) return;
+
+        const socket = new WebSocket(`${this.url}?token=${encodeURIComponent(token)}`);
+        this.socket = socket;
+
+        socket.onopen = () => {
+            this.reconnectDelay = MIN_RECONNECT_DELAY_MS;
+            if (this.connectedBefore) {
+                this.channelMap.forEach(channel => channel.restore());
+            }
+            this.connectedBefore = true;
+            this.flush();
+        };
+
+        socket.onmessage = (event) => {
+            try {
+                this.handleFrame(JSON.parse(event.data) as ServerFrame);
+            } catch (error) {
+                console.error('Error handling realtime frame:', error);
+            }
+        };
+
+        socket.onclose = () => {
+            if (this.socket !== socket) return;
+            this.socket = null;
+
+            // Requests already sent will not be answered
+            this.pending.forEach(({ reject }, id) => {
+                if (!this.queue.some(frame => frame.id === id)) {
+                    reject(new Error('Realtime connection closed'));
+                    this.pending.delete(id);
+                }
+            });
+            this.scheduleReconnect();
+        };
+    }
+
+    private scheduleReconnect(): void {
+        if (this.closed) return;
+        this.reconnectTimer = setTimeout(() => this.connect(), this.reconnectDelay);
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    }
+
+    private handleFrame(frame: ServerFrame): void {
+        if (frame.action === 'ack' || frame.action === 'nack') {
+            const request = frame.id !== undefined ? this.pending.get(frame.id) : undefined;
+            if (!request || frame.id === undefined) return;
+
+            this.pending.delete(frame.id);
+            if (frame.action === 'ack') {
+                request.resolve(frame.result);
+            } else {
+                request.reject(new Error(frame.error || 'Realtime request failed'));
+            }
+            return;
+        }
+
+        if (frame.channel) {
+            this.channelMap.get(frame.channel)?.dispatch(frame);
+        }
+    }
+}
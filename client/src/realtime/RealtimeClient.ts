@@ -0,0 +1,91 @@
+import { AblyRealtimeClient } from './AblyRealtimeClient';
+import { LocalRealtimeClient } from './LocalRealtimeClient';
+
+// An event published on a channel
+export interface RealtimeMessage {
+    name?: string;
+    data?: unknown;
+    clientId?: string;
+}
+
+export type PresenceAction = 'absent' | 'present' | 'enter' | 'leave' | 'update';
+
+// A member of a channel's presence set, or a change to it
+export interface PresenceMember {
+    clientId: string;
+    data?: unknown;
+    action?: PresenceAction;
+}
+
+export type MessageListener = (message: RealtimeMessage) => void;
+export type PresenceListener = (member: PresenceMember) => void;
+
+export interface RealtimePresence {
+    enter(data?: unknown): Promise<void>;
+    update(data?: unknown): Promise<void>;
+    leave(): Promise<void>;
+    get(): Promise<PresenceMember[]>;
+    subscribe(listener: PresenceListener): void;
+    subscribe(action: PresenceAction, listener: PresenceListener): void;
+    unsubscribe(listener: PresenceListener): void;
+}
+
+export interface RealtimeChannel {
+    subscribe(name: string, listener: MessageListener): void;
+    unsubscribe(name: string, listener: MessageListener): void;
+    presence: RealtimePresence;
+}
+
+/**
+ * A connection to the server's realtime backend. The app uses only this interface,
+ * so it works the same with Ably and with the server's own WebSocket endpoint.
+ */
+export interface RealtimeClient {
+    channels: {
+        get(name: string): RealtimeChannel;
+    };
+    // Fetch a new token, e.g. so that its capability covers a room the user just joined
+    authorize(): Promise<void>;
+    close(): void;
+}
+
+// Returned by the server's token endpoint; the token format depends on the backend
+export interface ClientToken {
+    backend: 'ably' | 'local';
+    token: unknown;
+}
+
+/**
+ * Get the URL of the server's WebSocket endpoint, used by the local backend
+ */
+function getLocalRealtimeUrl(): string {
+    return `${import.meta.env.VITE_API_URL.replace(/^http/, 'ws')}/realtime`;
+}
+
+/**
+ * Connect to whichever realtime backend the server uses, as told by its token endpoint.
+ * The client fetches a fresh token on connect and again whenever the current one expires.
+ */
+export async function createRealtimeClient(fetchToken: () => Promise<ClientToken>): Promise<RealtimeClient> {
+    const first = await fetchToken();
+
+    // Use the token fetched to find the backend for the first connection
+    let initialToken: unknown = first.token;
+    const nextToken = async () => {
+        if (initialToken !== null) {
+            const token = initialToken;
+            initialToken = null;
+            return token;
+        }
+        return (await fetchToken()).token;
+    };
+
+    switch (first.backend) {
+        case 'ably':
+            return new AblyRealtimeClient(nextToken);
+        case 'local':
+            return new LocalRealtimeClient(getLocalRealtimeUrl(), async () => String(await nextToken()));
+        default:
+            throw new Error(`Unknown realtime backend: ${first.backend}`);
+    }
+}
@@ -0,0 +1,121 @@
+import { vi } from 'vitest';
+import {
+    RealtimeClient,
+    RealtimeChannel,
+    RealtimePresence,
+    PresenceAction,
+    PresenceMember,
+    MessageListener,
+    PresenceListener
+} from '../realtime/RealtimeClient';
+
+// Answers an authFetch call; plain values are sent back as a 200 JSON body
+type RouteHandler = (init?: RequestInit) => unknown;
+
+class FakeChannel implements RealtimeChannel {
+    private listeners = new Map<string, Set<MessageListener>>();
+    private presenceListeners = new Map<PresenceListener, PresenceAction | null>();
+    // Members returned by presence.get()
+    members: PresenceMember[] = [];
+    // What this client entered presence with, if it did
+    entered: unknown = undefined;
+    presence: RealtimePresence;
+
+    constructor() {
+        this.presence = {
+            enter: async (data?: unknown) => {
+                this.entered = data;
+            },
+            update: async (data?: unknown) => {
+                this.entered = data;
+            },
+            leave: async () => {
+                this.entered = undefined;
+            },
+            get: async () => this.members,
+            subscribe: (actionOrListener: PresenceAction | PresenceListener, listener?: PresenceListener) => {
+                if (typeof actionOrListener === 'function') {
+                    this.presenceListeners.set(actionOrListener, null);
+                } else if (listener) {
+                    this.presenceListeners.set(listener, actionOrListener);
+                }
+            },
+            unsubscribe: (listener: PresenceListener) => {
+                this.presenceListeners.delete(listener);
+            }
+        };
+    }
+
+    subscribe(name: string, listener: MessageListener): void {
+        this.listeners.set(name, (this.listeners.get(name) || new Set()).add(listener));
+    }
+
+    unsubscribe(name: string, listener: MessageListener): void {
+        this.listeners.get(name)?.delete(listener);
+    }
+
+    hasListeners(name: string): boolean {
+        return (this.listeners.get(name)?.size || 0) > 0;
+    }
+
+    /**
+     * Deliver a message to this channel's subscribers, as if the server published it
+     */
+    emit(name: string, data: unknown): void {
+        this.listeners.get(name)?.forEach(listener => listener({ name, data }));
+    }
+
+    /**
+     * Deliver a presence change to this channel's subscribers
+     */
+    emitPresence(action: PresenceAction, data: unknown, clientId?: string): void {
+        const member = { clientId: clientId || '', data, action };
+        this.presenceListeners.forEach((filter, listener) => {
+            if (!filter || filter === action) {
+                listener(member);
+            }
+        });
+    }
+}
+
+/**
+ * An in-process realtime client, letting tests play the server's side of each channel
+ */
+export class FakeRealtimeClient implements RealtimeClient {
+    private channelMap = new Map<string, FakeChannel>();
+    closed = false;
+
+    channels = {
+        get: (name: string): FakeChannel => {
+            let channel = this.channelMap.get(name);
+            if (!channel) {
+                channel = new FakeChannel();
+                this.channelMap.set(name, channel);
+            }
+            return channel;
+        }
+    };
+
+    async authorize(): Promise<void> {}
+
+    close(): void {
+        this.closed = true;
+    }
+}
+
+/**
+ * A stand-in for authFetch answering from routes keyed by method and path, e.g. 'GET /api/users'.
+ * The query string is ignored when matching; unknown routes get a 404.
+ */
+export function createFetchMock(routes: Record<string, unknown>) {
+    return vi.fn(async (path: string, init?: RequestInit) => {
+        const key = `${init?.method || 'GET'} ${path.split('?')[0]}`;
+        if (!(key in routes)) {
+            return new Response(JSON.stringify({ error: 'Not found' }), { status: 404 });
+        }
+
+        const route = routes[key];
+        const body = typeof route === 'function' ? await (route as RouteHandler)(init) : route;
+        return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    });
+}
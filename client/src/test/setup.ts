@@ -0,0 +1,21 @@
+import '@testing-library/jest-dom/vitest';
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+afterEach(() => {
+    cleanup();
+});
+
+// jsdom does no layout, so scrolling and visibility are stubbed out
+Element.prototype.scrollIntoView = () => undefined;
+
+class NoopIntersectionObserver {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+    takeRecords() {
+        return [];
+    }
+}
+
+globalThis.IntersectionObserver = NoopIntersectionObserver as unknown as typeof IntersectionObserver;
@@ -0,0 +1,9 @@
+import { getConversationParticipants } from 'shared';
+
+/**
+ * Get the ID of the other participant in a conversation
+ */
+export function getOtherParticipantId(chatId: string, userId: string): string | null {
+    const participants = getConversationParticipants(chatId);
+    return participants?.find(id => id !== userId) || null;
+}
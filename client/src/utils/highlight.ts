@@ -0,0 +1,140 @@
+// Lightweight syntax highlighting for code blocks: comments, strings, numbers and keywords
+
+export type CodeTokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword';
+
+export interface CodeToken {
+    type: CodeTokenType;
+    text: string;
+}
+
+interface LanguageDefinition {
+    comments: RegExp[];
+    keywords: Set<string>;
+    // Keywords may be written in any case, as in SQL
+    ignoreCase?: boolean;
+}
+
+const C_COMMENTS = [/\/\/[^\n]*/, /\/\*[\s\S]*?(?:\*\/|$)/];
+const HASH_COMMENTS = [/#[^\n]*/];
+
+const words = (list: string) => new Set(list.split(' '));
+
+const JAVASCRIPT_KEYWORDS = 'async await break case catch class const continue default delete do else export extends false finally for from function if import in instanceof let new null of return static super switch this throw true try typeof undefined var void while yield';
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+    javascript: { comments: C_COMMENTS, keywords: words(JAVASCRIPT_KEYWORDS) },
+    typescript: {
+        comments: C_COMMENTS,
+        keywords: words(`${JAVASCRIPT_KEYWORDS} abstract as declare enum implements interface keyof namespace private protected public readonly type`)
+    },
+    python: {
+        comments: HASH_COMMENTS,
+        keywords: words('and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return self True try while with yield')
+    },
+    go: {
+        comments: C_COMMENTS,
+        keywords: words('break case chan const continue default defer else fallthrough false for func go goto if import interface map nil package range return select struct switch true type var')
+    },
+    rust: {
+        comments: C_COMMENTS,
+        keywords: words('as async await break const continue crate else enum false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while')
+    },
+    java: {
+        comments: C_COMMENTS,
+        keywords: words('abstract boolean break case catch char class continue default do double else enum extends false final finally float for if implements import int interface long new null package private protected public return static super switch this throw throws true try void while')
+    },
+    c: {
+        comments: C_COMMENTS,
+        keywords: words('auto bool break case char class const continue default delete do double else enum extern false float for if include int long namespace new nullptr private public return short signed sizeof static struct switch template this true typedef union unsigned using void volatile while')
+    },
+    sql: {
+        comments: [/--[^\n]*/, /\/\*[\s\S]*?(?:\*\/|$)/],
+        ignoreCase: true,
+        keywords: words('add all alter and as asc between by case create delete desc distinct drop else end exists from group having in index inner insert into is join key left like limit not null on or order outer primary references right select set table then union update values when where with')
+    },
+    bash: {
+        comments: HASH_COMMENTS,
+        keywords: words('case do done echo elif else esac exit export fi for function if in local return then until while')
+    },
+    json: { comments: [], keywords: words('true false null') }
+};
+
+// Other names people use for the same languages in code fences
+const ALIASES: Record<string, string> = {
+    js: 'javascript',
+    jsx: 'javascript',
+    ts: 'typescript',
+    tsx: 'typescript',
+    py: 'python',
+    golang: 'go',
+    rs: 'rust',
+    cpp: 'c',
+    'c++': 'c',
+    cs: 'c',
+    csharp: 'c',
+    sh: 'bash',
+    shell: 'bash',
+    zsh: 'bash',
+    postgres: 'sql',
+    postgresql: 'sql'
+};
+
+const STRING = /"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`/;
+const NUMBER = /\b\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?\b|\b0x[\da-f]+\b/;
+const WORD = /[A-Za-z_$][\w$]*/;
+
+/**
+ * Get the highlighting rules for a code fence language, or null for languages we don't know
+ */
+function getLanguage(language: string | null): LanguageDefinition | null {
+    if (!language) return null;
+    return LANGUAGES[ALIASES[language] || language] || null;
+}
+
+/**
+ * Split code into tokens to colour. Code in unknown languages is a single plain token.
+ */
+export function highlightCode(code: string, language: string | null): CodeToken[] {
+    const definition = getLanguage(language);
+    if (!definition) {
+        return [{ type: 'plain', text: code }];
+    }
+
+    const rules: { type: CodeTokenType; pattern: RegExp }[] = [
+        ...definition.comments.map(pattern => ({ type: 'comment' as const, pattern })),
+        { type: 'string', pattern: STRING },
+        { type: 'number', pattern: NUMBER },
+        { type: 'keyword', pattern: WORD }
+    ];
+    // One alternation with a group per rule, so the earliest match wins
+    const combined = new RegExp(rules.map(rule => `(${rule.pattern.source})`).join('|'), 'gi');
+
+    const tokens: CodeToken[] = [];
+    const push = (type: CodeTokenType, text: string) => {
+        const last = tokens[tokens.length - 1];
+        if (last?.type === type) {
+            last.text += text;
+        } else {
+            tokens.push({ type, text });
+        }
+    };
+
+    let position = 0;
+    for (const match of code.matchAll(combined)) {
+        if (match.index! > position) {
+            push('plain', code.slice(position, match.index));
+        }
+
+        const ruleIndex = match.slice(1).findIndex(group => group !== undefined);
+        const type = rules[ruleIndex].type;
+        // Words are only highlighted when they are keywords of the language
+        const word = definition.ignoreCase ? match[0].toLowerCase() : match[0];
+        push(type === 'keyword' && !definition.keywords.has(word) ? 'plain' : type, match[0]);
+        position = match.index! + match[0].length;
+    }
+
+    if (position < code.length) {
+        push('plain', code.slice(position));
+    }
+    return tokens;
+}
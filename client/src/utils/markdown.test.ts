@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { parseInline } from './markdown';
+
+describe('parseInline', () => {
+    it('parses emphasis, code and links', () => {
+        expect(parseInline('**bold** _it_ `x` [a](https://example.com)')).toEqual([
+            { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+            { type: 'text', text: ' ' },
+            { type: 'em', children: [{ type: 'text', text: 'it' }] },
+            { type: 'text', text: ' ' },
+            { type: 'code', text: 'x' },
+            { type: 'text', text: ' ' },
+            { type: 'link', href: 'https://example.com/', children: [{ type: 'text', text: 'a' }] }
+        ]);
+    });
+
+    it('closes a marker at its first valid occurrence', () => {
+        expect(parseInline('*a *b* c*')).toEqual([
+            { type: 'em', children: [{ type: 'text', text: 'a *b' }] },
+            { type: 'text', text: ' c*' }
+        ]);
+        expect(parseInline('_snake_case_')).toEqual([
+            { type: 'em', children: [{ type: 'text', text: 'snake_case' }] }
+        ]);
+    });
+
+    it('shows unclosed markers in long messages as text', () => {
+        const text = ' _x'.repeat(10000) + ' *a'.repeat(10000) + '[a]('.repeat(5000);
+
+        expect(parseInline(text)).toEqual([{ type: 'text', text }]);
+    });
+});
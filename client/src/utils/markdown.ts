@@ -0,0 +1,237 @@
+// The Markdown subset used in messages: paragraphs, fenced code blocks and blockquotes,
+// with bold, italics, inline code and links inside them. Nothing is ever rendered as HTML,
+// so markup in messages is shown as text.
+
+export type InlineNode =
+    | { type: 'text'; text: string }
+    | { type: 'code'; text: string }
+    | { type: 'strong'; children: InlineNode[] }
+    | { type: 'em'; children: InlineNode[] }
+    | { type: 'link'; href: string; children: InlineNode[] };
+
+export type BlockNode =
+    | { type: 'paragraph'; children: InlineNode[] }
+    | { type: 'code_block'; language: string | null; code: string }
+    | { type: 'blockquote'; children: BlockNode[] };
+
+// Deeper nesting is shown as text, so crafted messages cannot make parsing expensive
+const MAX_INLINE_DEPTH = 5;
+const MAX_QUOTE_DEPTH = 3;
+
+// Characters that can be escaped with a backslash to show them as they are
+const ESCAPABLE = '\\`*_[]()>#';
+
+const FENCE_OPEN = /^\s*```\s*([\w+#.-]*)\s*$/;
+const FENCE_CLOSE = /^\s*```\s*$/;
+const QUOTE_LINE = /^\s*> ?/;
+const AUTOLINK = /https?:\/\/[^\s<>]+/y;
+
+/**
+ * Get a link target that is safe to follow, or null. Only absolute http(s) and mailto links
+ * are allowed, which rules out javascript: and data: URLs.
+ */
+export function sanitizeUrl(href: string): string | null {
+    try {
+        const url = new URL(href.trim());
+        return ['http:', 'https:', 'mailto:'].includes(url.protocol) ? url.href : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Whether an emphasis marker can close at an index: it must not follow a space,
+ * and underscores must not be followed by a letter or digit
+ */
+function canCloseAt(text: string, marker: string, index: number): boolean {
+    const after = text[index + marker.length];
+    return text[index - 1] !== ' ' && (marker[0] !== '_' || !after || !/\w/.test(after));
+}
+
+/**
+ * Create a lookup for the first occurrence of a string at or after an index. Each string's
+ * occurrences are listed once, so looking up every opening marker in a long message does
+ * not rescan the rest of it each time.
+ */
+function indexOccurrences(text: string, accept: (marker: string, index: number) => boolean = () => true) {
+    const occurrences = new Map<string, number[]>();
+
+    return (marker: string, from: number): number => {
+        let positions = occurrences.get(marker);
+        if (!positions) {
+            positions = [];
+            for (let index = text.indexOf(marker); index !== -1; index = text.indexOf(marker, index + 1)) {
+                if (accept(marker, index)) positions.push(index);
+            }
+            occurrences.set(marker, positions);
+        }
+
+        let low = 0;
+        let high = positions.length;
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (positions[middle] < from) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        return low < positions.length ? positions[low] : -1;
+    };
+}
+
+/**
+ * Parse the inline formatting of a block of text
+ */
+export function parseInline(text: string, depth: number = 0, inLink: boolean = false): InlineNode[] {
+    const nodes: InlineNode[] = [];
+    let buffer = '';
+    let i = 0;
+    const findNext = indexOccurrences(text);
+    const findClosingMarker = indexOccurrences(text, (marker, index) => canCloseAt(text, marker, index));
+
+    const flush = () => {
+        if (buffer) {
+            nodes.push({ type: 'text', text: buffer });
+            buffer = '';
+        }
+    };
+
+    while (i < text.length) {
+        const char = text[i];
+
+        // Escaped punctuation is shown as it is
+        if (char === '\\' && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+            buffer += text[i + 1];
+            i += 2;
+            continue;
+        }
+
+        // `inline code`
+        if (char === '`') {
+            const end = findNext('`', i + 1);
+            if (end > i + 1) {
+                flush();
+                nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+                i = end + 1;
+                continue;
+            }
+        }
+
+        // **bold**, __bold__, *italics* and _italics_; underscores inside words are left alone
+        if ((char === '*' || char === '_') && depth < MAX_INLINE_DEPTH
+            && !(char === '_' && i > 0 && /\w/.test(text[i - 1]))) {
+            const marker = text[i + 1] === char ? char + char : char;
+            const start = i + marker.length;
+            const close = text[start] && text[start] !== ' ' ? findClosingMarker(marker, start + 1) : -1;
+            if (close !== -1) {
+                flush();
+                nodes.push({
+                    type: marker.length === 2 ? 'strong' : 'em',
+                    children: parseInline(text.slice(start, close), depth + 1, inLink)
+                });
+                i = close + marker.length;
+                continue;
+            }
+        }
+
+        // [label](url)
+        if (char === '[' && !inLink) {
+            const labelEnd = findNext(']', i + 1);
+            if (labelEnd !== -1 && text[labelEnd + 1] === '(') {
+                const urlEnd = findNext(')', labelEnd + 2);
+                const href = urlEnd !== -1 ? sanitizeUrl(text.slice(labelEnd + 2, urlEnd)) : null;
+                if (href) {
+                    flush();
+                    nodes.push({
+                        type: 'link',
+                        href,
+                        children: parseInline(text.slice(i + 1, labelEnd), depth + 1, true)
+                    });
+                    i = urlEnd + 1;
+                    continue;
+                }
+            }
+        }
+
+        // Bare http(s) URLs, without trailing punctuation
+        if (char === 'h' && !inLink && (i === 0 || /[\s(]/.test(text[i - 1]))) {
+            AUTOLINK.lastIndex = i;
+            const match = AUTOLINK.exec(text);
+            const url = match?.[0].replace(/[.,;:!?)'"]+$/, '');
+            const href = url ? sanitizeUrl(url) : null;
+            if (url && href) {
+                flush();
+                nodes.push({ type: 'link', href, children: [{ type: 'text', text: url }] });
+                i += url.length;
+                continue;
+            }
+        }
+
+        buffer += char;
+        i++;
+    }
+
+    flush();
+    return nodes;
+}
+
+/**
+ * Parse message content into blocks. Single line breaks are kept within paragraphs,
+ * as messages are written like chat rather than documents.
+ */
+export function parseMarkdown(content: string, depth: number = 0): BlockNode[] {
+    const lines = content.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: BlockNode[] = [];
+    let paragraph: string[] = [];
+
+    const flushParagraph = () => {
+        if (paragraph.length > 0) {
+            blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+            paragraph = [];
+        }
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+
+        // ```language fenced code, running to the end of the message if it is never closed
+        const fence = FENCE_OPEN.exec(line);
+        if (fence) {
+            flushParagraph();
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !FENCE_CLOSE.test(lines[i])) {
+                code.push(lines[i]);
+                i++;
+            }
+            blocks.push({ type: 'code_block', language: fence[1].toLowerCase() || null, code: code.join('\n') });
+            i++;
+            continue;
+        }
+
+        // > quoted lines
+        if (QUOTE_LINE.test(line) && depth < MAX_QUOTE_DEPTH) {
+            flushParagraph();
+            const quoted: string[] = [];
+            while (i < lines.length && QUOTE_LINE.test(lines[i])) {
+                quoted.push(lines[i].replace(QUOTE_LINE, ''));
+                i++;
+            }
+            blocks.push({ type: 'blockquote', children: parseMarkdown(quoted.join('\n'), depth + 1) });
+            continue;
+        }
+
+        // Blank lines separate paragraphs
+        if (!line.trim()) {
+            flushParagraph();
+        } else {
+            paragraph.push(line);
+        }
+        i++;
+    }
+
+    flushParagraph();
+    return blocks;
+}
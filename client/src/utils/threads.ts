@@ -0,0 +1,16 @@
+// Thread replies are kept in their own message list, next to the message list of each chat
+const THREAD_KEY_PREFIX = 'thread:';
+
+/**
+ * Get the key under which the replies to a message are stored
+ */
+export function getThreadKey(parentId: string): string {
+    return `${THREAD_KEY_PREFIX}${parentId}`;
+}
+
+/**
+ * Get the key of the message list a message belongs to: its thread for replies, otherwise its chat
+ */
+export function getMessageListKey(message: { chat_id: string; parent_id?: string | null }): string {
+    return message.parent_id ? getThreadKey(message.parent_id) : message.chat_id;
+}
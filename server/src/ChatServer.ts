@@ -1,53 +1,197 @@
 import express, { Application, Request, Response, RequestHandler } from 'express';
 import cors from 'cors';
 import * as dotenv from 'dotenv';
-import * as Ably from 'ably';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@supabase/supabase-js';
+import {
+    MAX_MESSAGE_LENGTH,
+    UserStatus,
+    UserStatusSchema,
+    UsersUpdateEvent,
+    getConversationId,
+    getConversationParticipants,
+    isConversationId
+} from 'shared';
 import { User } from './models/User';
-import { Message } from './models/Message';
-import { CHAT_ROOMS, ChatRoom } from './constants/chatRooms';
+import { Message, MessageData, MessagePageOptions, MessageSearchOptions, parseCursor, isWithinEditWindow, redactDeletedMessage, isValidReactionEmoji } from './models/Message';
+import { Room, RoomData, validateRoomInput } from './models/Room';
+import { Invite, isInviteUsable } from './models/Invite';
+import { ReadMarker } from './models/ReadMarker';
+import { Notification, NotificationRecipient } from './models/Notification';
+import { Attachment, ALLOWED_ATTACHMENT_TYPES, MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS_PER_MESSAGE, isImageType, readImageDimensions, sanitizeFilename } from './models/Attachment';
+import { LinkPreview } from './models/LinkPreview';
+import { Pin, MAX_PINS_PER_CHAT } from './models/Pin';
+import { Bookmark, BookmarkChat, validateBookmarkNote } from './models/Bookmark';
+import { Conversation } from './models/Conversation';
+import { createAuthMiddleware, createSupabaseTokenVerifier, TokenVerifier } from './middleware/auth';
+import { ABLY_TOKEN_TTL_MS, buildClientCapability } from './realtime/capabilities';
+import { RealtimeBus, createRealtimeBus } from './realtime/RealtimeBus';
+import { AttachmentStorage, createAttachmentStorage } from './storage/AttachmentStorage';
+import { LinkPreviewFetcher } from './previews/LinkPreviewFetcher';
+import { HttpLinkPreviewFetcher } from './previews/HttpLinkPreviewFetcher';
+import { ChatStore, createChatStore } from './store/ChatStore';
 
 // Load environment variables
 dotenv.config();
 
+// A room or direct message conversation that the current user may use
+interface ChatAccess {
+    chatId: string;
+    room: RoomData | null;
+    // The other participant of a direct message conversation
+    recipientId?: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+/**
+ * Read the before/after/around/limit pagination parameters of a request
+ */
+function parsePageQuery(req: Request): { options?: MessagePageOptions; error?: string } {
+    const before = req.query.before as string | undefined;
+    const after = req.query.after as string | undefined;
+    const around = req.query.around as string | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+
+    if ([before, after, around].filter(Boolean).length > 1) {
+        return { error: 'Use only one of before, after and around' };
+    }
+    if ((before && !parseCursor(before)) || (after && !parseCursor(after))) {
+        return { error: 'Invalid pagination cursor' };
+    }
+    if (around && !UUID_PATTERN.test(around)) {
+        return { error: 'Invalid message ID' };
+    }
+    return { options: { before, after, around, limit } };
+}
+
+// Uploads are read as raw bytes by their own route rather than parsed as JSON
+const ATTACHMENT_UPLOAD_PATH = '/api/attachments';
+
+// Longest search query accepted
+const MAX_SEARCH_QUERY_LENGTH = 200;
+
+/**
+ * Read the q/chatId/senderId/from/to/limit parameters of a search request
+ */
+function parseSearchQuery(req: Request): { options?: Omit<MessageSearchOptions, 'chatIds'> & { chatId?: string }; error?: string } {
+    const query = ((req.query.q as string | undefined) || '').trim();
+    const chatId = req.query.chatId as string | undefined;
+    const senderId = req.query.senderId as string | undefined;
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+
+    if (!query) {
+        return { error: 'A search query is required' };
+    }
+    if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+        return { error: `Search queries can be at most ${MAX_SEARCH_QUERY_LENGTH} characters` };
+    }
+    if (senderId && !UUID_PATTERN.test(senderId)) {
+        return { error: 'Invalid sender ID' };
+    }
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+        return { error: 'Invalid date range' };
+    }
+    return { options: { query, chatId, senderId, from, to, limit } };
+}
+
+// Dependencies that can be swapped out, e.g. in tests
+export interface ChatServerOptions {
+    // Defaults to fetching pages over HTTP(S), refusing private addresses
+    linkPreviewFetcher?: LinkPreviewFetcher;
+    // Defaults to the store selected by CHAT_STORE
+    store?: ChatStore;
+    // Defaults to the backend selected by REALTIME_BUS
+    realtime?: RealtimeBus;
+    // Defaults to the backend selected by ATTACHMENT_STORAGE
+    attachmentStorage?: AttachmentStorage;
+    // Defaults to checking Supabase access tokens
+    verifyToken?: TokenVerifier;
+}
+
 export class ChatServer {
     private app: Application;
     private port: number;
-    private ablyClient: Ably.Realtime;
-    private supabase: SupabaseClient;
+    private realtime: RealtimeBus;
+    private verifyToken: TokenVerifier;
     private userManager: User;
     private messageManager: Message;
+    private roomManager: Room;
+    private inviteManager: Invite;
+    private conversationManager: Conversation;
+    private readMarkerManager: ReadMarker;
+    private notificationManager: Notification;
+    private attachmentManager: Attachment;
+    private linkPreviewManager: LinkPreview;
+    private pinManager: Pin;
+    private bookmarkManager: Bookmark;
 
-    constructor() {
+    constructor(options: ChatServerOptions = {}) {
         this.app = express();
         this.port = parseInt(process.env.PORT || '3000');
 
-        // Initialize Ably client
-        const ablyApiKey = process.env.ABLY_API_KEY || '';
-        this.ablyClient = new Ably.Realtime({ key: ablyApiKey });
+        // Initialize the realtime backend
+        this.realtime = options.realtime || createRealtimeBus();
 
-        // Initialize Supabase client with service role key for admin operations
+        // Supabase settings, with the service role key for admin operations
         const supabaseUrl = process.env.SUPABASE_URL || '';
         const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
         if (!supabaseKey) {
             console.warn('SUPABASE_SERVICE_ROLE_KEY not set - server may not be able to bypass RLS policies');
         }
-        this.supabase = createClient(supabaseUrl, supabaseKey);
+
+        // Access tokens are checked with Supabase Auth
+        this.verifyToken = options.verifyToken || createSupabaseTokenVerifier(createClient(supabaseUrl, supabaseKey));
+
+        // Every manager shares one store for the chat's data
+        const store = options.store || createChatStore(supabaseUrl, supabaseKey);
 
         // Initialize User manager
-        this.userManager = new User(supabaseUrl, supabaseKey, this.ablyClient);
+        this.userManager = new User(store, this.realtime);
 
         // Initialize Message manager
-        this.messageManager = new Message(supabaseUrl, supabaseKey, this.ablyClient);
+        this.messageManager = new Message(store, this.realtime);
+
+        // Initialize Room manager
+        this.roomManager = new Room(store, this.realtime);
+
+        // Initialize Invite manager
+        this.inviteManager = new Invite(store, this.realtime);
+
+        // Initialize Conversation manager
+        this.conversationManager = new Conversation(store);
+
+        // Initialize ReadMarker manager
+        this.readMarkerManager = new ReadMarker(store, this.realtime);
+
+        // Initialize Notification manager
+        this.notificationManager = new Notification(this.realtime);
+
+        // Initialize Attachment manager with the configured storage backend
+        this.attachmentManager = new Attachment(store, options.attachmentStorage || createAttachmentStorage(supabaseUrl, supabaseKey));
+
+        // Initialize LinkPreview manager
+        this.linkPreviewManager = new LinkPreview(store, options.linkPreviewFetcher || new HttpLinkPreviewFetcher());
+
+        // Initialize Pin manager
+        this.pinManager = new Pin(store, this.realtime);
+
+        // Initialize Bookmark manager
+        this.bookmarkManager = new Bookmark(store);
 
         this.setupMiddleware();
         this.setupRoutes();
-        this.setupAblyListeners();
+        this.setupRealtimeListeners();
     }
 
     private setupMiddleware(): void {
         this.app.use(cors());
-        this.app.use(express.json());
+        const jsonParser = express.json();
+        this.app.use((req, res, next) => req.path === ATTACHMENT_UPLOAD_PATH ? next() : jsonParser(req, res, next));
+
+        // Every API route requires a verified access token
+        this.app.use('/api', createAuthMiddleware(this.verifyToken));
     }
 
     private setupRoutes(): void {
@@ -56,93 +200,290 @@ export class ChatServer {
             res.send('Chat Server is running');
         }) as RequestHandler);
 
-        // Route to get Ably token for client authentication
-        this.app.get('/api/ably/token', (async (req: Request, res: Response) => {
+        // Route to get realtime credentials for client authentication
+        this.app.get('/api/realtime/token', (async (req: Request, res: Response) => {
             try {
-                const userId = req.query.userId as string;
-                if (!userId) {
-                    return res.status(400).json({ error: 'User ID is required' });
-                }
+                const userId = req.user!.id;
+                const [rooms, users] = await Promise.all([
+                    this.roomManager.getRoomsForUser(userId),
+                    this.userManager.getAllUsers()
+                ]);
 
-                // Generate token for the client
-                const tokenParams = { clientId: userId };
+                // Any user can be messaged directly, so allow typing in a conversation with each of them
+                const conversationIds = users
+                    .filter(other => other.id !== userId)
+                    .map(other => getConversationId(userId, other.id));
 
-                // Using the Promise-based API
-                const tokenRequest = await this.ablyClient.auth.createTokenRequest(tokenParams);
-                res.json(tokenRequest);
+                // Generate a short-lived token scoped to the channels this user may use
+                const token = await this.realtime.createClientToken(
+                    userId,
+                    buildClientCapability(userId, rooms.map(room => room.id), conversationIds),
+                    ABLY_TOKEN_TTL_MS
+                );
+                res.json(token);
             } catch (error) {
-                console.error('Error generating Ably token:', error);
+                console.error('Error generating realtime token:', error);
                 res.status(500).json({ error: 'Error generating token' });
             }
         }) as RequestHandler);
 
-        // Route to get all available chat rooms
-        this.app.get('/api/chat-rooms', ((_req: Request, res: Response) => {
-            res.json(CHAT_ROOMS);
+        this.setupRoomRoutes();
+
+        this.setupMessageRoutes();
+
+        // Route to get the unread and mention counts of every chat the current user can see
+        this.app.get('/api/unread', (async (req: Request, res: Response) => {
+            try {
+                const userId = req.user!.id;
+                const [user, rooms, conversations] = await Promise.all([
+                    this.userManager.getUserById(userId),
+                    this.roomManager.getRoomsForUser(userId),
+                    this.conversationManager.getConversationsForUser(userId)
+                ]);
+
+                if (!user) {
+                    return res.status(404).json({ error: 'User not found' });
+                }
+
+                const chatIds = [
+                    ...rooms.map(room => room.id),
+                    ...conversations.map(conversation => conversation.id)
+                ];
+                const counts = await this.readMarkerManager.getUnreadCounts(userId, chatIds);
+                res.json(counts);
+            } catch (error) {
+                console.error('Error fetching unread counts:', error);
+                res.status(500).json({ error: 'Failed to fetch unread counts' });
+            }
         }) as RequestHandler);
 
-        // Route to get messages for a specific chat room
-        this.app.get('/api/chat-rooms/:chatId/messages', (async (req: Request, res: Response) => {
+        // Route to upload an attachment to send with a message. The request body is the file
+        // itself, with its type as the Content-Type and its name in the filename query parameter.
+        const readUpload = express.raw({ type: () => true, limit: MAX_ATTACHMENT_BYTES });
+        this.app.post(ATTACHMENT_UPLOAD_PATH, ((req: Request, res: Response, next) => {
+            readUpload(req, res, (error?: { status?: number }) => {
+                if (!error) return next();
+                if (error.status === 413) {
+                    return res.status(413).json({ error: `Attachments can be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB` });
+                }
+                res.status(400).json({ error: 'Invalid upload' });
+            });
+        }) as RequestHandler, (async (req: Request, res: Response) => {
             try {
-                const chatId = req.params.chatId;
-                const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+                const userId = req.user!.id;
+                const filename = sanitizeFilename((req.query.filename as string | undefined) || '');
+                const mimeType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+                const data = req.body;
+
+                if (!ALLOWED_ATTACHMENT_TYPES.includes(mimeType)) {
+                    return res.status(415).json({ error: 'This type of file cannot be attached' });
+                }
+                if (!Buffer.isBuffer(data) || data.length === 0) {
+                    return res.status(400).json({ error: 'The file is empty' });
+                }
+
+                // Images must really be images, as they are shown inline
+                const dimensions = isImageType(mimeType) ? readImageDimensions(data, mimeType) : null;
+                if (isImageType(mimeType) && !dimensions) {
+                    return res.status(400).json({ error: 'The file is not a valid image' });
+                }
 
-                const messages = await this.messageManager.getMessagesForChat(chatId, limit);
-                res.json(messages);
+                const attachment = await this.attachmentManager.createAttachment(userId, filename, mimeType, data, dimensions);
+                if (!attachment) {
+                    return res.status(500).json({ error: 'Failed to upload attachment' });
+                }
+
+                res.status(201).json(attachment);
             } catch (error) {
-                console.error('Error fetching messages:', error);
-                res.status(500).json({ error: 'Failed to fetch messages' });
+                console.error('Error uploading attachment:', error);
+                res.status(500).json({ error: 'Failed to upload attachment' });
             }
         }) as RequestHandler);
 
-        // Route to send a message to a chat room
-        this.app.post('/api/chat-rooms/:chatId/messages', (async (req: Request, res: Response) => {
+        // Route to download an attachment, for those who can read its message
+        this.app.get('/api/attachments/:id', (async (req: Request, res: Response) => {
             try {
-                const chatId = req.params.chatId;
-                const { content, senderId, recipientId } = req.body;
+                const userId = req.user!.id;
+                const result = await this.attachmentManager.getAttachmentWithContent(req.params.id);
+                if (!result) {
+                    return res.status(404).json({ error: 'Attachment not found' });
+                }
 
-                if (!content || !senderId) {
-                    return res.status(400).json({
-                        error: 'Message content and sender ID are required'
-                    });
+                const { attachment, content } = result;
+                if (attachment.message_id) {
+                    const message = await this.messageManager.getMessageById(attachment.message_id);
+                    if (!message || message.deleted_at) {
+                        return res.status(404).json({ error: 'Attachment not found' });
+                    }
+                    const chat = await this.getAccessibleChat(message.chat_id, userId, res, { allowArchived: true });
+                    if (!chat) return;
+                } else if (attachment.uploaded_by !== userId) {
+                    // Unsent uploads are only visible to their uploader
+                    return res.status(404).json({ error: 'Attachment not found' });
                 }
 
-                // Get the sender's username
-                const sender = await this.userManager.getUserById(senderId);
-                if (!sender) {
-                    return res.status(404).json({ error: 'Sender not found' });
+                const disposition = isImageType(attachment.mime_type) ? 'inline' : 'attachment';
+                res.set({
+                    'Content-Type': attachment.mime_type,
+                    'Content-Length': String(content.length),
+                    'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+                    'X-Content-Type-Options': 'nosniff',
+                    'Cache-Control': 'private, max-age=3600'
+                });
+                res.send(content);
+            } catch (error) {
+                console.error('Error downloading attachment:', error);
+                res.status(500).json({ error: 'Failed to download attachment' });
+            }
+        }) as RequestHandler);
+
+        // Route to search the messages of the rooms and conversations the current user can see
+        this.app.get('/api/search/messages', (async (req: Request, res: Response) => {
+            try {
+                const userId = req.user!.id;
+                const { options, error } = parseSearchQuery(req);
+                if (error || !options) {
+                    return res.status(400).json({ error });
                 }
 
-                // Save the message to the database
-                const message = await this.messageManager.saveMessage(
-                    senderId,
-                    content,
-                    chatId,
-                    recipientId
+                const { chatId, ...searchOptions } = options;
+                let chatIds: string[];
+                if (chatId) {
+                    const chat = await this.getAccessibleChat(chatId, userId, res, { allowArchived: true });
+                    if (!chat) return;
+                    chatIds = [chat.chatId];
+                } else {
+                    const [rooms, conversations] = await Promise.all([
+                        this.roomManager.getRoomsForUser(userId),
+                        this.conversationManager.getConversationsForUser(userId)
+                    ]);
+                    chatIds = [
+                        ...rooms.map(room => room.id),
+                        ...conversations.map(conversation => conversation.id)
+                    ];
+                }
+
+                const results = await this.messageManager.searchMessages({ ...searchOptions, chatIds });
+                res.json(results);
+            } catch (error) {
+                console.error('Error searching messages:', error);
+                res.status(500).json({ error: 'Failed to search messages' });
+            }
+        }) as RequestHandler);
+
+        // Route to get the current user's direct message conversations
+        this.app.get('/api/conversations', (async (req: Request, res: Response) => {
+            try {
+                const conversations = await this.conversationManager.getConversationsForUser(req.user!.id);
+                res.json(conversations);
+            } catch (error) {
+                console.error('Error fetching conversations:', error);
+                res.status(500).json({ error: 'Failed to fetch conversations' });
+            }
+        }) as RequestHandler);
+
+        // Route to get the current user's bookmarks, most recently saved first, with the chat of each message
+        this.app.get('/api/users/me/bookmarks', (async (req: Request, res: Response) => {
+            try {
+                const userId = req.user!.id;
+                const bookmarks = await this.bookmarkManager.getBookmarksForUser(userId);
+
+                // Messages in chats the user can no longer see are left out
+                const chatIds = [...new Set(bookmarks.map(bookmark => bookmark.chat_id))];
+                const chats = await Promise.all(chatIds.map(chatId => this.getBookmarkChat(chatId, userId)));
+                const chatMap = new Map(chats
+                    .filter((chat): chat is BookmarkChat => chat !== null)
+                    .map(chat => [chat.id, chat]));
+
+                const messages = await this.messageManager.getMessagesByIds(
+                    bookmarks.filter(bookmark => chatMap.has(bookmark.chat_id)).map(bookmark => bookmark.message_id)
                 );
+                const messageMap = new Map(messages.map(message => [message.id, message]));
 
-                if (!message) {
-                    return res.status(500).json({ error: 'Failed to save message' });
+                res.json(bookmarks
+                    .filter(bookmark => messageMap.has(bookmark.message_id))
+                    .map(bookmark => ({
+                        ...bookmark,
+                        message: messageMap.get(bookmark.message_id),
+                        chat: chatMap.get(bookmark.chat_id)
+                    })));
+            } catch (error) {
+                console.error('Error fetching bookmarks:', error);
+                res.status(500).json({ error: 'Failed to fetch bookmarks' });
+            }
+        }) as RequestHandler);
+
+        // Route to bookmark a message for the current user, or change the note of a bookmark
+        this.app.post('/api/users/me/bookmarks', (async (req: Request, res: Response) => {
+            try {
+                const userId = req.user!.id;
+                const { messageId, note } = req.body;
+
+                if (typeof messageId !== 'string' || !messageId) {
+                    return res.status(400).json({ error: 'messageId is required' });
+                }
+                const noteError = validateBookmarkNote(note);
+                if (noteError) {
+                    return res.status(400).json({ error: noteError });
                 }
 
-                // Publish the message to Ably
-                await this.messageManager.publishMessage(message, sender.username);
+                const message = await this.messageManager.getMessageById(messageId);
+                if (!message || message.deleted_at) {
+                    return res.status(404).json({ error: 'Message not found' });
+                }
 
-                res.status(201).json(message);
+                const chat = await this.getAccessibleChat(message.chat_id, userId, res, { allowArchived: true });
+                if (!chat) return;
+
+                const bookmark = await this.bookmarkManager.saveBookmark(userId, message, note?.trim() || null);
+                const bookmarkChat = await this.getBookmarkChat(message.chat_id, userId);
+                if (!bookmark || !bookmarkChat) {
+                    return res.status(500).json({ error: 'Failed to save bookmark' });
+                }
+
+                res.status(201).json({ ...bookmark, message, chat: bookmarkChat });
             } catch (error) {
-                console.error('Error sending message:', error);
-                res.status(500).json({ error: 'Failed to send message' });
+                console.error('Error saving bookmark:', error);
+                res.status(500).json({ error: 'Failed to save bookmark' });
+            }
+        }) as RequestHandler);
+
+        // Route to remove one of the current user's bookmarks
+        this.app.delete('/api/users/me/bookmarks/:messageId', (async (req: Request, res: Response) => {
+            try {
+                const removed = await this.bookmarkManager.removeBookmark(req.user!.id, req.params.messageId);
+                if (!removed) {
+                    return res.status(404).json({ error: 'Bookmark not found' });
+                }
+
+                res.status(204).send();
+            } catch (error) {
+                console.error('Error removing bookmark:', error);
+                res.status(500).json({ error: 'Failed to remove bookmark' });
+            }
+        }) as RequestHandler);
+
+        // Route to get all users with their online status
+        this.app.get('/api/users', (async (_req: Request, res: Response) => {
+            try {
+                const users = await this.userManager.getAllUsers();
+                res.json(users);
+            } catch (error) {
+                console.error('Error fetching users:', error);
+                res.status(500).json({ error: 'Failed to fetch users' });
             }
         }) as RequestHandler);
 
         // Route to register a new user
         this.app.post('/api/users/register', (async (req: Request, res: Response) => {
             try {
-                const { userId, email, username } = req.body;
+                const userId = req.user!.id;
+                const email = req.user!.email || req.body.email;
+                const username = req.body.username || req.user!.username;
 
-                if (!userId || !email || !username) {
+                if (!email || !username) {
                     return res.status(400).json({
-                        error: 'User ID, email, and username are required'
+                        error: 'Email and username are required'
                     });
                 }
 
@@ -166,11 +507,22 @@ export class ChatServer {
         this.app.post('/api/users/:userId/status', (async (req: Request, res: Response) => {
             try {
                 const userId = req.params.userId;
-                const { isOnline } = req.body;
 
-                const success = await this.userManager.updateOnlineStatus(userId, isOnline);
+                // Users may only change their own status
+                if (userId !== req.user!.id) {
+                    return res.status(403).json({ error: 'Cannot update another user\'s status' });
+                }
+
+                const status = UserStatusSchema.safeParse(req.body);
+                if (!status.success) {
+                    return res.status(400).json({ error: 'isOnline must be true or false' });
+                }
+
+                const success = await this.userManager.updateOnlineStatus(userId, status.data.isOnline);
 
                 if (success) {
+                    // Publish the updated user list to all clients
+                    await this.publishUserList();
                     res.json({ success: true });
                 } else {
                     res.status(500).json({ error: 'Failed to update status' });
@@ -185,8 +537,8 @@ export class ChatServer {
         this.app.get('/api/users/:userId/status', (async (req: Request, res: Response) => {
             try {
                 const userId = req.params.userId;
-                const isOnline = await this.userManager.isUserOnline(userId);
-                res.json({ isOnline });
+                const status: UserStatus = { isOnline: await this.userManager.isUserOnline(userId) };
+                res.json(status);
             } catch (error) {
                 console.error('Error checking user status:', error);
                 res.status(500).json({ error: 'Internal server error' });
@@ -194,51 +546,959 @@ export class ChatServer {
         }) as RequestHandler);
     }
 
-    private setupAblyListeners(): void {
-        // Set up channel for each chat room
-        CHAT_ROOMS.forEach(room => {
-            const channelName = `chat:${room.id}`;
-            console.log(`Setting up Ably channel: ${channelName}`);
-            const roomChannel = this.ablyClient.channels.get(channelName);
-
-            // Listen for messages in this chat room
-            roomChannel.subscribe('message', async (message) => {
-                console.log(`Received message in ${room.name}:`, message.data);
-            });
-        });
+    private setupMessageRoutes(): void {
+        // Route to get a page of messages for a specific chat room
+        this.app.get('/api/chat-rooms/:chatId/messages', (async (req: Request, res: Response) => {
+            try {
+                const chatId = req.params.chatId;
+                const { options, error } = parsePageQuery(req);
+                if (error) {
+                    return res.status(400).json({ error });
+                }
 
-        // Handle requests for user list
-        const usersChannel = this.ablyClient.channels.get('users');
-        usersChannel.subscribe('request_users', async (message) => {
-            console.log('Received request for user list from:', message.data?.userId);
-            await this.publishUserList();
-        });
+                // Archived rooms keep their history readable for those who can see them
+                const chat = await this.getAccessibleChat(chatId, req.user!.id, res, { allowArchived: true });
+                if (!chat) return;
 
-        // Setup presence listeners for online status
-        const presenceChannel = this.ablyClient.channels.get('presence');
+                if (options?.around) {
+                    const page = await this.messageManager.getMessagesAround(chatId, options, req.user!.id);
+                    if (!page) {
+                        return res.status(404).json({ error: 'Message not found' });
+                    }
+                    return res.json(page);
+                }
 
-        // Subscribe to presence enter events
-        presenceChannel.presence.subscribe('enter', async (memberInfo) => {
-            const userData = memberInfo.data as { userId: string };
-            console.log(`User ${userData.userId} is now online`);
+                const page = await this.messageManager.getMessagesForChat(chatId, options, req.user!.id);
+                res.json(page);
+            } catch (error) {
+                console.error('Error fetching messages:', error);
+                res.status(500).json({ error: 'Failed to fetch messages' });
+            }
+        }) as RequestHandler);
 
-            // Update the user's online status in the database
-            await this.userManager.updateOnlineStatus(userData.userId, true);
+        // Route to send a message to a chat room
+        this.app.post('/api/chat-rooms/:chatId/messages', (async (req: Request, res: Response) => {
+            try {
+                const chatId = req.params.chatId;
+                const senderId = req.user!.id;
+                const { content = '', parentId, attachmentIds = [] } = req.body;
 
-            // Publish the updated user list to all clients
-            await this.publishUserList();
-        });
+                if (!Array.isArray(attachmentIds) || attachmentIds.some(id => typeof id !== 'string')) {
+                    return res.status(400).json({ error: 'Invalid attachments' });
+                }
+                if (attachmentIds.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+                    return res.status(400).json({ error: `A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments` });
+                }
+                // A message needs some text unless it carries attachments
+                if (typeof content !== 'string' || (!content.trim() && attachmentIds.length === 0)) {
+                    return res.status(400).json({ error: 'Message content is required' });
+                }
+                if (content.length > MAX_MESSAGE_LENGTH) {
+                    return res.status(400).json({ error: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters` });
+                }
+                if (parentId !== undefined && typeof parentId !== 'string') {
+                    return res.status(400).json({ error: 'Invalid parent message' });
+                }
+
+                // Archived rooms are read-only
+                const chat = await this.getAccessibleChat(chatId, senderId, res);
+                if (!chat) return;
+
+                // Replies go to the thread of a top-level message in the same chat
+                if (parentId) {
+                    const parent = await this.messageManager.getMessageById(parentId);
+                    if (!parent || parent.chat_id !== chatId || parent.deleted_at) {
+                        return res.status(404).json({ error: 'Parent message not found' });
+                    }
+                    if (parent.parent_id) {
+                        return res.status(400).json({ error: 'Replies cannot have their own thread' });
+                    }
+                }
 
-        // Subscribe to presence leave events
-        presenceChannel.presence.subscribe('leave', async (memberInfo) => {
-            const userData = memberInfo.data as { userId: string };
-            console.log(`User ${userData.userId} is now offline`);
+                // Attachments must be the sender's own uploads that have not been sent yet
+                if (attachmentIds.length > 0 && !await this.attachmentManager.areUnsentUploadsOf(attachmentIds, senderId)) {
+                    return res.status(400).json({ error: 'Attachments not found' });
+                }
 
-            // Update the user's online status in the database
-            await this.userManager.updateOnlineStatus(userData.userId, false);
+                // Get the sender's username
+                const sender = await this.userManager.getUserById(senderId);
+                if (!sender) {
+                    return res.status(404).json({ error: 'Sender not found' });
+                }
 
-            // Publish the updated user list to all clients
-            await this.publishUserList();
+                // Save the message to the database
+                const message = await this.messageManager.saveMessage(
+                    senderId,
+                    content,
+                    chatId,
+                    chat.recipientId,
+                    parentId
+                );
+
+                if (!message) {
+                    return res.status(500).json({ error: 'Failed to save message' });
+                }
+
+                message.attachments = await this.attachmentManager.linkToMessage(attachmentIds, message.id, senderId);
+
+                // Publish the message to clients
+                await this.messageManager.publishMessage(message, sender.username);
+
+                // The reply count of the parent is kept up to date by the database
+                if (parentId) {
+                    const parent = await this.messageManager.getMessageById(parentId);
+                    if (parent) {
+                        await this.messageManager.publishThreadUpdated(parent);
+                    }
+                }
+
+                this.notifyRecipients(chat, message, sender.username);
+                this.unfurlLinks(message);
+
+                res.status(201).json(message);
+            } catch (error) {
+                console.error('Error sending message:', error);
+                res.status(500).json({ error: 'Failed to send message' });
+            }
+        }) as RequestHandler);
+
+        // Route to get the parent of a thread and a page of its replies
+        this.app.get('/api/chat-rooms/:chatId/messages/:id/thread', (async (req: Request, res: Response) => {
+            try {
+                const { chatId, id } = req.params;
+                const userId = req.user!.id;
+                const { options, error } = parsePageQuery(req);
+                if (error) {
+                    return res.status(400).json({ error });
+                }
+
+                const chat = await this.getAccessibleChat(chatId, userId, res, { allowArchived: true });
+                if (!chat) return;
+
+                const parent = await this.messageManager.getMessageById(id);
+                if (!parent || parent.chat_id !== chatId || parent.parent_id) {
+                    return res.status(404).json({ error: 'Thread not found' });
+                }
+
+                const [reactions, attachments, linkPreviews, page] = await Promise.all([
+                    this.messageManager.getReactions(id, userId),
+                    this.messageManager.getAttachments(id),
+                    this.messageManager.getLinkPreviews(id),
+                    this.messageManager.getMessagesForChat(chatId, { ...options, parentId: id }, userId)
+                ]);
+
+                res.json({
+                    parent: redactDeletedMessage({ ...parent, reactions, attachments, link_previews: linkPreviews }),
+                    ...page
+                });
+            } catch (error) {
+                console.error('Error fetching thread:', error);
+                res.status(500).json({ error: 'Failed to fetch thread' });
+            }
+        }) as RequestHandler);
+
+        // Route to edit a message (sender only, within the edit window)
+        this.app.patch('/api/chat-rooms/:chatId/messages/:id', (async (req: Request, res: Response) => {
+            try {
+                const { chatId, id } = req.params;
+                const userId = req.user!.id;
+                const { content } = req.body;
+
+                if (typeof content !== 'string' || !content.trim()) {
+                    return res.status(400).json({ error: 'Message content is required' });
+                }
+                if (content.length > MAX_MESSAGE_LENGTH) {
+                    return res.status(400).json({ error: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters` });
+                }
+
+                const chat = await this.getAccessibleChat(chatId, userId, res);
+                if (!chat) return;
+
+                const message = await this.messageManager.getMessageById(id);
+                if (!message || message.chat_id !== chatId || message.deleted_at) {
+                    return res.status(404).json({ error: 'Message not found' });
+                }
+                if (message.sender_id !== userId) {
+                    return res.status(403).json({ error: 'You can only edit your own messages' });
+                }
+                if (!isWithinEditWindow(message)) {
+                    return res.status(403).json({ error: 'This message can no longer be edited' });
+                }
+
+                if (content === message.content) {
+                    return res.json(message);
+                }
+
+                const updated = await this.messageManager.updateMessageContent(message, content, userId);
+                if (!updated) {
+                    return res.status(500).json({ error: 'Failed to edit message' });
+                }
+
+                await this.messageManager.publishMessageEvent('message.updated', updated);
+
+                this.unfurlLinks(updated, true);
+
+                res.json(updated);
+            } catch (error) {
+                console.error('Error editing message:', error);
+                res.status(500).json({ error: 'Failed to edit message' });
+            }
+        }) as RequestHandler);
+
+        // Route to delete a message (sender, or room owners and admins)
+        this.app.delete('/api/chat-rooms/:chatId/messages/:id', (async (req: Request, res: Response) => {
+            try {
+                const { chatId, id } = req.params;
+                const userId = req.user!.id;
+
+                const chat = await this.getAccessibleChat(chatId, userId, res, { allowArchived: true });
+                if (!chat) return;
+
+                const message = await this.messageManager.getMessageById(id);
+                if (!message || message.chat_id !== chatId) {
+                    return res.status(404).json({ error: 'Message not found' });
+                }
+                if (message.deleted_at) {
+                    return res.json(redactDeletedMessage(message));
+                }
+
+                const isModerator = chat.room ? await this.roomManager.canManage(chat.room, userId) : false;
+                if (message.sender_id !== userId && !isModerator) {
+                    return res.status(403).json({ error: 'You can only delete your own messages' });
+                }
+
+                const deleted = await this.messageManager.deleteMessage(id, userId);
+                if (!deleted) {
+                    return res.status(500).json({ error: 'Failed to delete message' });
+                }
+
+                await this.messageManager.publishMessageDeleted(deleted);
+
+                // Deleted messages no longer stay pinned
+                const unpinned = await this.pinManager.unpinMessage(id);
+                if (unpinned) {
+                    await this.pinManager.publishPinEvent('pin.removed', unpinned);
+                }
+
+                res.json(deleted);
+            } catch (error) {
+                console.error('Error deleting message:', error);
+                res.status(500).json({ error: 'Failed to delete message' });
+            }
+        }) as RequestHandler);
+
+        // Routes to add and remove the caller's reaction to a message
+        this.app.put('/api/chat-rooms/:chatId/messages/:id/reactions/:emoji', (async (req: Request, res: Response) => {
+            await this.toggleReaction(req, res, true);
+        }) as RequestHandler);
+
+        this.app.delete('/api/chat-rooms/:chatId/messages/:id/reactions/:emoji', (async (req: Request, res: Response) => {
+            await this.toggleReaction(req, res, false);
+        }) as RequestHandler);
+
+        // Route to get the previous versions of an edited message
+        this.app.get('/api/chat-rooms/:chatId/messages/:id/edits', (async (req: Request, res: Response) => {
+            try {
+                const { chatId, id } = req.params;
+
+                const chat = await this.getAccessibleChat(chatId, req.user!.id, res, { allowArchived: true });
+                if (!chat) return;
+
+                const message = await this.messageManager.getMessageById(id);
+                if (!message || message.chat_id !== chatId) {
+                    return res.status(404).json({ error: 'Message not found' });
+                }
+
+                // Earlier versions of a deleted message are hidden along with its content
+                const edits = message.deleted_at ? [] : await this.messageManager.getEditHistory(id);
+                res.json(edits);
+            } catch (error) {
+                console.error('Error fetching message edits:', error);
+                res.status(500).json({ error: 'Failed to fetch message edits' });
+            }
+        }) as RequestHandler);
+
+        // Route to get the pinned messages of a room, most recently pinned first
+        this.app.get('/api/chat-rooms/:chatId/pins', (async (req: Request, res: Response) => {
+            try {
+                const chatId = req.params.chatId;
+
+                const chat = await this.getAccessibleChat(chatId, req.user!.id, res, { allowArchived: true });
+                if (!chat) return;
+
+                const pins = await this.pinManager.getPinsForChat(chatId);
+                const messages = await this.messageManager.getMessagesByIds(pins.map(pin => pin.message_id));
+                const messageMap = new Map(messages.map(message => [message.id, message]));
+
+                res.json(pins
+                    .filter(pin => messageMap.has(pin.message_id))
+                    .map(pin => ({ ...pin, message: messageMap.get(pin.message_id) })));
+            } catch (error) {
+                console.error('Error fetching pins:', error);
+                res.status(500).json({ error: 'Failed to fetch pins' });
+            }
+        }) as RequestHandler);
+
+        // Route to pin a message to the top of its room (room owners and admins)
+        this.app.put('/api/chat-rooms/:chatId/messages/:id/pin', (async (req: Request, res: Response) => {
+            try {
+                const { chatId, id } = req.params;
+                const userId = req.user!.id;
+
+                // Archived rooms are read-only
+                const chat = await this.getAccessibleChat(chatId, userId, res);
+                if (!chat) return;
+
+                if (!chat.room) {
+                    return res.status(400).json({ error: 'Only room messages can be pinned' });
+                }
+                if (!await this.roomManager.canManage(chat.room, userId)) {
+                    return res.status(403).json({ error: 'Only room owners and admins can pin messages' });
+                }
+
+                const message = await this.messageManager.getMessageById(id);
+                if (!message || message.chat_id !== chatId || message.deleted_at) {
+                    return res.status(404).json({ error: 'Message not found' });
+                }
+
+                // Pinning a pinned message again changes nothing
+                const existing = await this.pinManager.getPin(id);
+                if (existing) {
+                    return res.json({ ...existing, message });
+                }
+
+                if (await this.pinManager.countPins(chatId) >= MAX_PINS_PER_CHAT) {
+                    return res.status(400).json({ error: `A room can have at most ${MAX_PINS_PER_CHAT} pinned messages` });
+                }
+
+                const pin = await this.pinManager.pinMessage(message, userId);
+                if (!pin) {
+                    return res.status(500).json({ error: 'Failed to pin message' });
+                }
+
+                const pinner = await this.userManager.getUserById(userId);
+                const pinned = {
+                    ...pin,
+                    pinned_by_user: { id: userId, username: pinner?.username || 'Unknown User' },
+                    message
+                };
+                await this.pinManager.publishPinEvent('pin.added', pinned);
+
+                res.status(201).json(pinned);
+            } catch (error) {
+                console.error('Error pinning message:', error);
+                res.status(500).json({ error: 'Failed to pin message' });
+            }
+        }) as RequestHandler);
+
+        // Route to unpin a message (room owners and admins)
+        this.app.delete('/api/chat-rooms/:chatId/messages/:id/pin', (async (req: Request, res: Response) => {
+            try {
+                const { chatId, id } = req.params;
+                const userId = req.user!.id;
+
+                const chat = await this.getAccessibleChat(chatId, userId, res);
+                if (!chat) return;
+
+                if (!chat.room || !await this.roomManager.canManage(chat.room, userId)) {
+                    return res.status(403).json({ error: 'Only room owners and admins can unpin messages' });
+                }
+
+                const existing = await this.pinManager.getPin(id);
+                if (!existing || existing.chat_id !== chatId) {
+                    return res.status(404).json({ error: 'Message is not pinned' });
+                }
+
+                const unpinned = await this.pinManager.unpinMessage(id);
+                if (unpinned) {
+                    await this.pinManager.publishPinEvent('pin.removed', unpinned);
+                }
+
+                res.status(204).send();
+            } catch (error) {
+                console.error('Error unpinning message:', error);
+                res.status(500).json({ error: 'Failed to unpin message' });
+            }
+        }) as RequestHandler);
+
+        // Route to get how far each participant has read in a chat
+        this.app.get('/api/chat-rooms/:chatId/read', (async (req: Request, res: Response) => {
+            try {
+                const chatId = req.params.chatId;
+
+                const chat = await this.getAccessibleChat(chatId, req.user!.id, res, { allowArchived: true });
+                if (!chat) return;
+
+                const markers = await this.readMarkerManager.getMarkersForChat(chatId);
+                res.json(markers);
+            } catch (error) {
+                console.error('Error fetching read markers:', error);
+                res.status(500).json({ error: 'Failed to fetch read markers' });
+            }
+        }) as RequestHandler);
+
+        // Route to mark a chat as read up to a message
+        this.app.post('/api/chat-rooms/:chatId/read', (async (req: Request, res: Response) => {
+            try {
+                const chatId = req.params.chatId;
+                const userId = req.user!.id;
+                const { messageId } = req.body;
+
+                if (typeof messageId !== 'string') {
+                    return res.status(400).json({ error: 'messageId is required' });
+                }
+
+                const chat = await this.getAccessibleChat(chatId, userId, res, { allowArchived: true });
+                if (!chat) return;
+
+                // Markers follow the main message flow, not threads
+                const message = await this.messageManager.getMessageById(messageId);
+                if (!message || message.chat_id !== chatId || message.parent_id) {
+                    return res.status(404).json({ error: 'Message not found' });
+                }
+
+                const { marker, changed } = await this.readMarkerManager.advanceMarker(userId, message);
+                if (!marker) {
+                    return res.status(500).json({ error: 'Failed to update read marker' });
+                }
+
+                if (changed) {
+                    const reader = await this.userManager.getUserById(userId);
+                    const username = reader?.username || 'Unknown User';
+                    await this.readMarkerManager.publishMarker(marker, username);
+
+                    // Clear the unread badge in the reader's other tabs
+                    const [count] = await this.readMarkerManager.getUnreadCounts(userId, [chatId]);
+                    if (count) {
+                        await this.notificationManager.publishUnreadCount(userId, count);
+                    }
+                }
+
+                res.json(marker);
+            } catch (error) {
+                console.error('Error updating read marker:', error);
+                res.status(500).json({ error: 'Failed to update read marker' });
+            }
+        }) as RequestHandler);
+    }
+
+    private setupRoomRoutes(): void {
+        // Route to get the chat rooms the user can see
+        this.app.get('/api/chat-rooms', (async (req: Request, res: Response) => {
+            try {
+                const rooms = await this.roomManager.getRoomsForUser(req.user!.id);
+                res.json(rooms);
+            } catch (error) {
+                console.error('Error fetching chat rooms:', error);
+                res.status(500).json({ error: 'Failed to fetch chat rooms' });
+            }
+        }) as RequestHandler);
+
+        // Route to create a chat room
+        this.app.post('/api/chat-rooms', (async (req: Request, res: Response) => {
+            try {
+                const { name, description = '', isPrivate = false } = req.body;
+
+                if (name === undefined) {
+                    return res.status(400).json({ error: 'Room name is required' });
+                }
+                const validationError = validateRoomInput(name, description);
+                if (validationError) {
+                    return res.status(400).json({ error: validationError });
+                }
+
+                const room = await this.roomManager.createRoom(
+                    name.trim(),
+                    description.trim(),
+                    req.user!.id,
+                    isPrivate === true
+                );
+                if (!room) {
+                    return res.status(500).json({ error: 'Failed to create room' });
+                }
+
+                this.listenToRoom(room);
+                await this.roomManager.publishRoomsUpdated(room.id);
+
+                res.status(201).json({ ...room, role: 'owner' });
+            } catch (error) {
+                console.error('Error creating chat room:', error);
+                res.status(500).json({ error: 'Failed to create room' });
+            }
+        }) as RequestHandler);
+
+        // Route to rename a chat room or change its description
+        this.app.patch('/api/chat-rooms/:chatId', (async (req: Request, res: Response) => {
+            try {
+                const { name, description } = req.body;
+
+                if (name === undefined && description === undefined) {
+                    return res.status(400).json({ error: 'Nothing to update' });
+                }
+                const validationError = validateRoomInput(name, description);
+                if (validationError) {
+                    return res.status(400).json({ error: validationError });
+                }
+
+                const room = await this.getAccessibleRoom(req.params.chatId, req.user!.id, res);
+                if (!room) return;
+
+                if (!await this.roomManager.canManage(room, req.user!.id)) {
+                    return res.status(403).json({ error: 'Only room owners and admins can change this room' });
+                }
+
+                const updated = await this.roomManager.updateRoom(room.id, {
+                    ...(name !== undefined && { name: name.trim() }),
+                    ...(description !== undefined && { description: description.trim() })
+                });
+                if (!updated) {
+                    return res.status(500).json({ error: 'Failed to update room' });
+                }
+
+                await this.roomManager.publishRoomsUpdated(room.id);
+
+                res.json(updated);
+            } catch (error) {
+                console.error('Error updating chat room:', error);
+                res.status(500).json({ error: 'Failed to update room' });
+            }
+        }) as RequestHandler);
+
+        // Route to archive a chat room
+        this.app.delete('/api/chat-rooms/:chatId', (async (req: Request, res: Response) => {
+            try {
+                const room = await this.getAccessibleRoom(req.params.chatId, req.user!.id, res);
+                if (!room) return;
+
+                if (!await this.roomManager.canManage(room, req.user!.id)) {
+                    return res.status(403).json({ error: 'Only room owners and admins can archive this room' });
+                }
+
+                const archived = await this.roomManager.archiveRoom(room.id);
+                if (!archived) {
+                    return res.status(500).json({ error: 'Failed to archive room' });
+                }
+
+                await this.roomManager.publishRoomsUpdated(room.id);
+
+                res.json(archived);
+            } catch (error) {
+                console.error('Error archiving chat room:', error);
+                res.status(500).json({ error: 'Failed to archive room' });
+            }
+        }) as RequestHandler);
+
+        // Route to list the members of a room
+        this.app.get('/api/chat-rooms/:chatId/members', (async (req: Request, res: Response) => {
+            try {
+                const room = await this.getAccessibleRoom(req.params.chatId, req.user!.id, res);
+                if (!room) return;
+
+                const members = await this.roomManager.getMembers(room.id);
+                res.json(members);
+            } catch (error) {
+                console.error('Error fetching room members:', error);
+                res.status(500).json({ error: 'Failed to fetch room members' });
+            }
+        }) as RequestHandler);
+
+        // Route to change a member's role (owner only)
+        this.app.patch('/api/chat-rooms/:chatId/members/:userId', (async (req: Request, res: Response) => {
+            try {
+                const { role } = req.body;
+                if (role !== 'admin' && role !== 'member') {
+                    return res.status(400).json({ error: 'Role must be admin or member' });
+                }
+
+                const room = await this.getAccessibleRoom(req.params.chatId, req.user!.id, res);
+                if (!room) return;
+
+                if (await this.roomManager.getRole(room, req.user!.id) !== 'owner') {
+                    return res.status(403).json({ error: 'Only the room owner can change roles' });
+                }
+                if (req.params.userId === req.user!.id) {
+                    return res.status(400).json({ error: 'The owner cannot change their own role' });
+                }
+
+                const member = await this.roomManager.updateMemberRole(room.id, req.params.userId, role);
+                if (!member) {
+                    return res.status(404).json({ error: 'Member not found' });
+                }
+
+                await this.roomManager.publishRoomsUpdated(room.id);
+
+                res.json(member);
+            } catch (error) {
+                console.error('Error updating room member:', error);
+                res.status(500).json({ error: 'Failed to update member' });
+            }
+        }) as RequestHandler);
+
+        // Route to remove a member from a room, or to leave it
+        this.app.delete('/api/chat-rooms/:chatId/members/:userId', (async (req: Request, res: Response) => {
+            try {
+                const room = await this.getAccessibleRoom(req.params.chatId, req.user!.id, res);
+                if (!room) return;
+
+                const targetId = req.params.userId;
+                const leaving = targetId === req.user!.id;
+                const targetRole = await this.roomManager.getRole(room, targetId);
+
+                if (!targetRole) {
+                    return res.status(404).json({ error: 'Member not found' });
+                }
+                if (targetRole === 'owner') {
+                    return res.status(400).json({ error: 'The room owner cannot be removed' });
+                }
+                if (!leaving) {
+                    const role = await this.roomManager.getRole(room, req.user!.id);
+                    // Admins can remove members; only the owner can remove admins
+                    const allowed = role === 'owner' || (role === 'admin' && targetRole === 'member');
+                    if (!allowed) {
+                        return res.status(403).json({ error: 'Not allowed to remove this member' });
+                    }
+                }
+
+                const success = await this.roomManager.removeMember(room.id, targetId);
+                if (!success) {
+                    return res.status(500).json({ error: 'Failed to remove member' });
+                }
+
+                await this.roomManager.publishRoomsUpdated(room.id);
+
+                res.json({ success: true });
+            } catch (error) {
+                console.error('Error removing room member:', error);
+                res.status(500).json({ error: 'Failed to remove member' });
+            }
+        }) as RequestHandler);
+
+        // Route to invite someone to a room, by user ID or as a shareable link
+        this.app.post('/api/chat-rooms/:chatId/invites', (async (req: Request, res: Response) => {
+            try {
+                const { userId } = req.body;
+
+                const room = await this.getAccessibleRoom(req.params.chatId, req.user!.id, res);
+                if (!room) return;
+
+                if (!await this.roomManager.canManage(room, req.user!.id)) {
+                    return res.status(403).json({ error: 'Only room owners and admins can invite' });
+                }
+
+                if (userId) {
+                    const invitee = await this.userManager.getUserById(userId);
+                    if (!invitee) {
+                        return res.status(404).json({ error: 'User not found' });
+                    }
+                    if (await this.roomManager.getRole(room, userId)) {
+                        return res.status(409).json({ error: 'User is already a member' });
+                    }
+                }
+
+                const invite = await this.inviteManager.createInvite(room.id, req.user!.id, userId);
+                if (!invite) {
+                    return res.status(500).json({ error: 'Failed to create invite' });
+                }
+
+                await this.inviteManager.publishInvite(invite);
+
+                res.status(201).json(invite);
+            } catch (error) {
+                console.error('Error creating invite:', error);
+                res.status(500).json({ error: 'Failed to create invite' });
+            }
+        }) as RequestHandler);
+
+        // Route to get the invites waiting for the current user
+        this.app.get('/api/invites', (async (req: Request, res: Response) => {
+            try {
+                const invites = await this.inviteManager.getPendingInvitesForUser(req.user!.id);
+                res.json(invites);
+            } catch (error) {
+                console.error('Error fetching invites:', error);
+                res.status(500).json({ error: 'Failed to fetch invites' });
+            }
+        }) as RequestHandler);
+
+        // Route to accept an invite from a link or addressed to the current user
+        this.app.post('/api/invites/:token/accept', (async (req: Request, res: Response) => {
+            try {
+                const userId = req.user!.id;
+                const invite = await this.inviteManager.getInviteByToken(req.params.token);
+
+                if (!invite) {
+                    return res.status(404).json({ error: 'Invite not found' });
+                }
+                if (invite.invitee_id && invite.invitee_id !== userId) {
+                    return res.status(403).json({ error: 'This invite is for another user' });
+                }
+                if (!isInviteUsable(invite)) {
+                    return res.status(410).json({ error: 'This invite has expired' });
+                }
+
+                const room = await this.roomManager.getRoomById(invite.room_id);
+                if (!room || room.archived_at) {
+                    return res.status(404).json({ error: 'Room not found' });
+                }
+
+                // Keep the current role if the user is already a member
+                const role = await this.roomManager.getRole(room, userId);
+                if (!role) {
+                    const member = await this.roomManager.addMember(room.id, userId, 'member');
+                    if (!member) {
+                        return res.status(500).json({ error: 'Failed to join room' });
+                    }
+                }
+
+                await this.inviteManager.markAccepted(invite.id, userId);
+                await this.roomManager.publishRoomsUpdated(room.id);
+
+                res.json({ ...room, role: role || 'member' });
+            } catch (error) {
+                console.error('Error accepting invite:', error);
+                res.status(500).json({ error: 'Failed to accept invite' });
+            }
+        }) as RequestHandler);
+
+        // Route to decline an invite addressed to the current user
+        this.app.delete('/api/invites/:token', (async (req: Request, res: Response) => {
+            try {
+                const invite = await this.inviteManager.getInviteByToken(req.params.token);
+
+                if (!invite || invite.invitee_id !== req.user!.id) {
+                    return res.status(404).json({ error: 'Invite not found' });
+                }
+
+                const success = await this.inviteManager.deleteInvite(invite.id);
+                if (!success) {
+                    return res.status(500).json({ error: 'Failed to decline invite' });
+                }
+
+                res.json({ success: true });
+            } catch (error) {
+                console.error('Error declining invite:', error);
+                res.status(500).json({ error: 'Failed to decline invite' });
+            }
+        }) as RequestHandler);
+    }
+
+    /**
+     * Look up a room the user is allowed to see. Sends a 404 or 403 response
+     * and returns null when the room is missing, archived or private to others.
+     */
+    private async getAccessibleRoom(roomId: string, userId: string, res: Response): Promise<RoomData | null> {
+        const room = await this.roomManager.getRoomById(roomId);
+        if (!room || room.archived_at) {
+            res.status(404).json({ error: 'Room not found' });
+            return null;
+        }
+
+        if (!await this.roomManager.canAccess(room, userId)) {
+            res.status(403).json({ error: 'You are not a member of this room' });
+            return null;
+        }
+
+        return room;
+    }
+
+    /**
+     * Fetch previews of the links in a message without holding up the response, and send
+     * them to clients as a message update. Edits replace the previews of the old content.
+     */
+    private unfurlLinks(message: MessageData, replace: boolean = false): void {
+        this.linkPreviewManager.unfurlMessage(message.id, message.content, replace)
+            .then(async previews => {
+                if (previews.length > 0 || replace) {
+                    await this.messageManager.publishLinkPreviews(message, previews);
+                }
+            })
+            .catch(error => console.error('Error unfurling links:', error));
+    }
+
+    /**
+     * Send the notifications for a new message without holding up the response, as a room
+     * can have many recipients. Unread counts follow the main message flow; mentions are sent
+     * from threads too.
+     */
+    private notifyRecipients(chat: ChatAccess, message: MessageData, senderUsername: string): void {
+        this.getChatRecipients(chat, message.sender_id)
+            .then(async recipients => {
+                const mentioned = recipients.filter(recipient => message.mentions?.includes(recipient.id));
+                await Promise.all([
+                    message.parent_id ? Promise.resolve() : this.notificationManager.publishNewMessage(message, recipients),
+                    this.notificationManager.publishMentions(message, mentioned, senderUsername)
+                ]);
+            })
+            .catch(error => console.error('Error sending message notifications:', error));
+    }
+
+    /**
+     * Get everyone except the sender who can read a chat
+     */
+    private async getChatRecipients(chat: ChatAccess, senderId: string): Promise<NotificationRecipient[]> {
+        if (chat.recipientId) {
+            const recipient = await this.userManager.getUserById(chat.recipientId);
+            return recipient ? [{ id: recipient.id, username: recipient.username }] : [];
+        }
+
+        if (chat.room?.is_private) {
+            const members = await this.roomManager.getMembers(chat.room.id);
+            return members
+                .filter(member => member.user_id !== senderId)
+                .map(member => ({ id: member.user_id, username: member.user?.username || '' }));
+        }
+
+        const users = await this.userManager.getAllUsers();
+        return users
+            .filter(user => user.id !== senderId)
+            .map(user => ({ id: user.id, username: user.username }));
+    }
+
+    /**
+     * Look up a room or direct message conversation the user is allowed to use.
+     * Sends a 404 or 403 response and returns null when access is not allowed.
+     */
+    private async getAccessibleChat(
+        chatId: string,
+        userId: string,
+        res: Response,
+        options: { allowArchived?: boolean } = {}
+    ): Promise<ChatAccess | null> {
+        if (isConversationId(chatId)) {
+            const participants = getConversationParticipants(chatId);
+            if (!participants) {
+                res.status(404).json({ error: 'Conversation not found' });
+                return null;
+            }
+            if (!participants.includes(userId)) {
+                res.status(403).json({ error: 'You are not part of this conversation' });
+                return null;
+            }
+
+            const recipientId = participants.find(id => id !== userId)!;
+            if (!await this.userManager.getUserById(recipientId)) {
+                res.status(404).json({ error: 'Conversation not found' });
+                return null;
+            }
+
+            return { chatId, room: null, recipientId };
+        }
+
+        if (options.allowArchived) {
+            const room = await this.roomManager.getRoomById(chatId);
+            if (!room) {
+                res.status(404).json({ error: 'Room not found' });
+                return null;
+            }
+            if (!await this.roomManager.canAccess(room, userId)) {
+                res.status(403).json({ error: 'You are not a member of this room' });
+                return null;
+            }
+            return { chatId, room };
+        }
+
+        const room = await this.getAccessibleRoom(chatId, userId, res);
+        return room ? { chatId, room } : null;
+    }
+
+    /**
+     * Describe the chat of a bookmarked message, or return null if the user cannot see it
+     */
+    private async getBookmarkChat(chatId: string, userId: string): Promise<BookmarkChat | null> {
+        if (isConversationId(chatId)) {
+            const participants = getConversationParticipants(chatId);
+            if (!participants || !participants.includes(userId)) {
+                return null;
+            }
+
+            const otherUser = await this.userManager.getUserById(participants.find(id => id !== userId)!);
+            return otherUser ? { id: chatId, type: 'direct', name: otherUser.username, archived: false } : null;
+        }
+
+        const room = await this.roomManager.getRoomById(chatId);
+        if (!room || !await this.roomManager.canAccess(room, userId)) {
+            return null;
+        }
+        return { id: chatId, type: 'room', name: room.name, archived: !!room.archived_at };
+    }
+
+    /**
+     * Add or remove the caller's reaction to a message and respond with the message's reactions
+     */
+    private async toggleReaction(req: Request, res: Response, add: boolean): Promise<void> {
+        try {
+            const { chatId, id, emoji } = req.params;
+            const userId = req.user!.id;
+
+            if (!isValidReactionEmoji(emoji)) {
+                res.status(400).json({ error: 'Reaction must be an emoji' });
+                return;
+            }
+
+            // Archived rooms are read-only
+            const chat = await this.getAccessibleChat(chatId, userId, res);
+            if (!chat) return;
+
+            const message = await this.messageManager.getMessageById(id);
+            if (!message || message.chat_id !== chatId || message.deleted_at) {
+                res.status(404).json({ error: 'Message not found' });
+                return;
+            }
+
+            const changed = add
+                ? await this.messageManager.addReaction(id, userId, emoji)
+                : await this.messageManager.removeReaction(id, userId, emoji);
+
+            const reactions = await this.messageManager.getReactions(id, userId);
+
+            // Only publish when something changed, so repeated requests are harmless
+            if (changed) {
+                const count = reactions.find(r => r.emoji === emoji)?.count || 0;
+                await this.messageManager.publishReactionEvent(
+                    add ? 'reaction.added' : 'reaction.removed',
+                    message,
+                    userId,
+                    emoji,
+                    count
+                );
+            }
+
+            res.json({ message_id: id, reactions });
+        } catch (error) {
+            console.error('Error updating reaction:', error);
+            res.status(500).json({ error: 'Failed to update reaction' });
+        }
+    }
+
+    private setupRealtimeListeners(): void {
+        // Set up channel for each chat room
+        this.roomManager.getRooms()
+            .then(rooms => rooms.forEach(room => this.listenToRoom(room)))
+            .catch(error => console.error('Error setting up room channels:', error));
+
+        // Follow users entering and leaving presence for their online status
+        this.userManager.setupPresenceListeners(async (userId, isOnline) => {
+            console.log(`User ${userId} is now ${isOnline ? 'online' : 'offline'}`);
+
+            try {
+                // Update the user's online status in the database
+                await this.userManager.updateOnlineStatus(userId, isOnline);
+
+                // Publish the updated user list to all clients
+                await this.publishUserList();
+            } catch (error) {
+                console.error('Error updating online status from presence:', error);
+            }
+        });
+    }
+
+    // Listen for messages in a chat room
+    private listenToRoom(room: RoomData): void {
+        const channelName = `chat:${room.id}`;
+        console.log(`Setting up realtime channel: ${channelName}`);
+
+        this.realtime.subscribe(channelName, 'message', async (message) => {
+            console.log(`Received message in ${room.name}:`, message.data);
         });
     }
 
@@ -247,15 +1507,8 @@ export class ChatServer {
         try {
             console.log('Publishing user list to all clients');
 
-            // Get the current user list from the database - using lowercase column names
-            const { data, error } = await this.supabase
-                .from('users')
-                .select('id, username, isonline, lastseen'); // Changed isOnline to isonline and lastSeen to lastseen
-
-            if (error) {
-                console.error('Error fetching users for publishing:', error);
-                return;
-            }
+            // Get the current user list from the database
+            const data = await this.userManager.getAllUsers();
 
             console.log('Retrieved users from database:', data);
 
@@ -265,17 +1518,25 @@ export class ChatServer {
             }
 
             // Publish the user list to the users channel
-            const usersChannel = this.ablyClient.channels.get('users');
-            await usersChannel.publish('update', { users: data });
+            const update: UsersUpdateEvent = { users: data };
+            await this.realtime.publish('users', 'update', update);
             console.log('User list published successfully, count:', data.length);
         } catch (error) {
             console.error('Error publishing user list:', error);
         }
     }
 
+    /**
+     * Get the Express app, e.g. to send requests to it in tests without listening on a port
+     */
+    public getApp(): Application {
+        return this.app;
+    }
+
     public start(): void {
-        this.app.listen(this.port, () => {
+        const server = this.app.listen(this.port, () => {
             console.log(`Server is running on port ${this.port}`);
         });
+        this.realtime.attach(server);
     }
 } 
\ No newline at end of file
@@ -20,9 +20,270 @@ CREATE TABLE IF NOT EXISTS public.messages (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Track when a message was last edited
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+
+-- Soft delete: deleted messages keep their row but their content is no longer served
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES auth.users(id);
+
+-- Threads: replies point at their top-level message, which keeps a reply count
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.messages(id) ON DELETE CASCADE;
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS reply_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS last_reply_at TIMESTAMP WITH TIME ZONE;
+
+-- Keep the reply count and last reply time of a thread's parent up to date
+CREATE OR REPLACE FUNCTION public.update_thread_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.messages
+    SET reply_count = reply_count + 1,
+        last_reply_at = NEW.created_at
+    WHERE id = NEW.parent_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_thread_reply ON public.messages;
+CREATE TRIGGER on_thread_reply
+    AFTER INSERT ON public.messages
+    FOR EACH ROW
+    WHEN (NEW.parent_id IS NOT NULL)
+    EXECUTE FUNCTION public.update_thread_stats();
+
+-- Full-text search: an index of the words in each message
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+-- Search the messages of the given chats, best matches first, with highlighted snippets.
+-- Matching words are wrapped in the control characters U+0001 and U+0002, which are first
+-- replaced in the content so that the server can tell real matches from anything typed.
+CREATE OR REPLACE FUNCTION public.search_messages(
+    search_query TEXT,
+    chat_ids TEXT[],
+    filter_sender_id UUID DEFAULT NULL,
+    sent_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    sent_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    result_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    id UUID,
+    chat_id TEXT,
+    sender_id UUID,
+    parent_id UUID,
+    content TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    snippet TEXT,
+    rank REAL
+) AS $$
+    SELECT
+        m.id,
+        m.chat_id,
+        m.sender_id,
+        m.parent_id,
+        m.content,
+        m.created_at,
+        ts_headline('english', translate(m.content, E'\x01\x02', '  '), query, E'StartSel="\x01", StopSel="\x02", MaxWords=25, MinWords=8, MaxFragments=2'),
+        ts_rank(m.search_vector, query)
+    FROM public.messages m, websearch_to_tsquery('english', search_query) query
+    WHERE m.search_vector @@ query
+        AND m.chat_id = ANY(chat_ids)
+        AND m.deleted_at IS NULL
+        AND (filter_sender_id IS NULL OR m.sender_id = filter_sender_id)
+        AND (sent_from IS NULL OR m.created_at >= sent_from)
+        AND (sent_to IS NULL OR m.created_at <= sent_to)
+    ORDER BY ts_rank(m.search_vector, query) DESC, m.created_at DESC
+    LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
+
+-- Get the latest top-level message of each direct message conversation a user takes part in,
+-- most recent first
+CREATE OR REPLACE FUNCTION public.latest_direct_messages(for_user_id UUID)
+RETURNS SETOF public.messages AS $$
+    SELECT * FROM (
+        SELECT DISTINCT ON (m.chat_id) m.*
+        FROM public.messages m
+        WHERE m.chat_id LIKE 'dm:%'
+            AND m.parent_id IS NULL
+            AND (m.sender_id = for_user_id OR m.recipient_id = for_user_id)
+        ORDER BY m.chat_id, m.created_at DESC, m.id DESC
+    ) latest
+    ORDER BY latest.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Create message edits table holding previous versions of edited messages
+CREATE TABLE IF NOT EXISTS public.message_edits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+    previous_content TEXT NOT NULL,
+    edited_by UUID NOT NULL REFERENCES auth.users(id),
+    edited_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Replace the content of a message that is not deleted, keeping the previous content in its
+-- edit history. Both happen in the function's transaction, so neither is saved without the other.
+CREATE OR REPLACE FUNCTION public.edit_message(
+    target_message_id UUID,
+    new_content TEXT,
+    editor_id UUID,
+    edit_time TIMESTAMP WITH TIME ZONE
+)
+RETURNS SETOF public.messages AS $$
+BEGIN
+    INSERT INTO public.message_edits (message_id, previous_content, edited_by, edited_at)
+    SELECT m.id, m.content, editor_id, edit_time
+    FROM public.messages m
+    WHERE m.id = target_message_id AND m.deleted_at IS NULL
+    FOR UPDATE;
+
+    RETURN QUERY
+    UPDATE public.messages m
+    SET content = new_content, edited_at = edit_time, updated_at = edit_time
+    WHERE m.id = target_message_id AND m.deleted_at IS NULL
+    RETURNING m.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create message reactions table (one row per user and emoji)
+CREATE TABLE IF NOT EXISTS public.message_reactions (
+    message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id),
+    emoji TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (message_id, user_id, emoji)
+);
+
+-- Create attachments table: files uploaded for a message, linked to it once it is sent
+CREATE TABLE IF NOT EXISTS public.attachments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+    uploaded_by UUID NOT NULL REFERENCES auth.users(id),
+    storage_key TEXT NOT NULL,
+    filename TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    size_bytes BIGINT NOT NULL,
+    width INTEGER,
+    height INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Private bucket for attachments when ATTACHMENT_STORAGE=supabase
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create message mentions table: the users each message mentions as @username
+CREATE TABLE IF NOT EXISTS public.message_mentions (
+    message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (message_id, user_id)
+);
+
+-- Create link previews table: metadata fetched for linked pages, cached by URL.
+-- Rows without a title or description record pages that had nothing to preview.
+CREATE TABLE IF NOT EXISTS public.link_previews (
+    url TEXT PRIMARY KEY,
+    title TEXT,
+    description TEXT,
+    image_url TEXT,
+    site_name TEXT,
+    fetched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create message link previews table: the previews shown with each message, in link order
+CREATE TABLE IF NOT EXISTS public.message_link_previews (
+    message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+    url TEXT NOT NULL REFERENCES public.link_previews(url) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (message_id, url)
+);
+
+-- Create pinned messages table: messages pinned to the top of a room by its owners and admins
+CREATE TABLE IF NOT EXISTS public.pinned_messages (
+    message_id UUID PRIMARY KEY REFERENCES public.messages(id) ON DELETE CASCADE,
+    chat_id TEXT NOT NULL,
+    pinned_by UUID NOT NULL REFERENCES auth.users(id),
+    pinned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create bookmarks table: messages each user has saved for later, with an optional note
+CREATE TABLE IF NOT EXISTS public.bookmarks (
+    user_id UUID NOT NULL REFERENCES auth.users(id),
+    message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+    chat_id TEXT NOT NULL,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, message_id)
+);
+
+-- Create read markers table: how far each user has read in each chat
+CREATE TABLE IF NOT EXISTS public.read_markers (
+    user_id UUID NOT NULL REFERENCES auth.users(id),
+    chat_id TEXT NOT NULL,
+    last_read_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+    read_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, chat_id)
+);
+
+-- Create rooms table
+CREATE TABLE IF NOT EXISTS public.rooms (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    archived_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Private rooms are only visible to their members
+ALTER TABLE public.rooms ADD COLUMN IF NOT EXISTS is_private BOOLEAN NOT NULL DEFAULT false;
+
+-- Create room members table
+CREATE TABLE IF NOT EXISTS public.room_members (
+    room_id TEXT NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+    joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (room_id, user_id)
+);
+
+-- Create room invites table; invitee_id is null for shareable link invites
+CREATE TABLE IF NOT EXISTS public.room_invites (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    token TEXT NOT NULL UNIQUE,
+    room_id TEXT NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+    created_by UUID NOT NULL REFERENCES auth.users(id),
+    invitee_id UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    accepted_by UUID REFERENCES auth.users(id)
+);
+
+-- Seed the default rooms
+INSERT INTO public.rooms (id, name, description) VALUES
+    ('general', 'General Chat', 'Public chat room for general discussions'),
+    ('tech', 'Tech Chat', 'Discuss programming, technology, and development'),
+    ('resources', 'Resources', 'Share useful links and learning resources')
+ON CONFLICT (id) DO NOTHING;
+
 -- Add row level security
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_edits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_mentions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.link_previews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_link_previews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pinned_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bookmarks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.read_markers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.room_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.room_invites ENABLE ROW LEVEL SECURITY;
 
 -- Create policy to allow users to read all users
 CREATE POLICY "Users are viewable by everyone" ON public.users
@@ -36,20 +297,141 @@ CREATE POLICY "Users can update own data" ON public.users
 CREATE POLICY "Users can insert own data" ON public.users
     FOR INSERT WITH CHECK (auth.uid() = id);
 
--- Create policy to allow users to read all messages
-CREATE POLICY "Messages are viewable by everyone" ON public.messages
+-- Create policy to allow users to read messages in public rooms, private rooms they belong to
+-- and their own direct message conversations (chat_id 'dm:<userId>:<userId>')
+CREATE POLICY "Messages are viewable by room members" ON public.messages
+    FOR SELECT USING (
+        (chat_id LIKE 'dm:%' AND auth.uid() IN (sender_id, recipient_id))
+        OR EXISTS (
+            SELECT 1 FROM public.rooms r
+            WHERE r.id = chat_id
+            AND (
+                NOT r.is_private
+                OR EXISTS (
+                    SELECT 1 FROM public.room_members m
+                    WHERE m.room_id = r.id AND m.user_id = auth.uid()
+                )
+            )
+        )
+    );
+
+-- Create policy to allow users to send their own messages to rooms they can post in
+-- and to their own direct message conversations
+CREATE POLICY "Users can insert own messages in their chats" ON public.messages
+    FOR INSERT WITH CHECK (
+        auth.uid() = sender_id
+        AND (
+            (
+                chat_id LIKE 'dm:%'
+                AND recipient_id IS NOT NULL
+                AND recipient_id <> sender_id
+                AND chat_id = 'dm:' || LEAST(sender_id::text, recipient_id::text)
+                    || ':' || GREATEST(sender_id::text, recipient_id::text)
+            )
+            OR EXISTS (
+                SELECT 1 FROM public.rooms r
+                WHERE r.id = chat_id
+                AND r.archived_at IS NULL
+                AND (
+                    NOT r.is_private
+                    OR EXISTS (
+                        SELECT 1 FROM public.room_members m
+                        WHERE m.room_id = r.id AND m.user_id = auth.uid()
+                    )
+                )
+            )
+        )
+    );
+
+-- Messages have no UPDATE policy: edits and deletions go through the server, which enforces
+-- the edit window and records the edit history
+
+-- Create policy to allow users to read the edit history of messages they can see
+CREATE POLICY "Message edits are viewable with their message" ON public.message_edits
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.messages m WHERE m.id = message_id)
+    );
+
+-- Create policy to allow users to read the reactions to messages they can read
+CREATE POLICY "Message reactions are viewable with their message" ON public.message_reactions
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.messages m WHERE m.id = message_id)
+    );
+
+-- Create policy to allow users to read the attachments of messages they can read, and their own uploads
+CREATE POLICY "Attachments are viewable with their message" ON public.attachments
+    FOR SELECT USING (
+        auth.uid() = uploaded_by
+        OR EXISTS (SELECT 1 FROM public.messages m WHERE m.id = message_id)
+    );
+
+-- Create policy to allow users to read the mentions in messages they can read
+CREATE POLICY "Message mentions are viewable with their message" ON public.message_mentions
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.messages m WHERE m.id = message_id)
+    );
+
+-- Create policy to allow users to read cached link previews, which only hold public page metadata
+CREATE POLICY "Link previews are viewable by everyone" ON public.link_previews
     FOR SELECT USING (true);
 
--- Create policy to allow authenticated users to insert messages
-CREATE POLICY "Authenticated users can insert messages" ON public.messages
-    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+-- Create policy to allow users to read the link previews of messages they can read
+CREATE POLICY "Message link previews are viewable with their message" ON public.message_link_previews
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.messages m WHERE m.id = message_id)
+    );
+
+-- Create policy to allow users to see the pins of messages they can read
+CREATE POLICY "Pinned messages are viewable with their message" ON public.pinned_messages
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.messages m WHERE m.id = message_id)
+    );
+
+-- Create policy to allow users to see only their own bookmarks
+CREATE POLICY "Users can view own bookmarks" ON public.bookmarks
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Create policy to allow users to see read markers in chats whose messages they can read
+CREATE POLICY "Read markers are viewable in readable chats" ON public.read_markers
+    FOR SELECT USING (
+        auth.uid() = user_id
+        OR EXISTS (SELECT 1 FROM public.messages m WHERE m.chat_id = read_markers.chat_id)
+    );
+
+-- Create policy to allow users to read public rooms and private rooms they belong to
+CREATE POLICY "Rooms are viewable by members" ON public.rooms
+    FOR SELECT USING (
+        NOT is_private
+        OR EXISTS (
+            SELECT 1 FROM public.room_members m
+            WHERE m.room_id = rooms.id AND m.user_id = auth.uid()
+        )
+    );
+
+-- Create policy to allow users to see their own memberships
+CREATE POLICY "Users can view own memberships" ON public.room_members
+    FOR SELECT USING (auth.uid() = user_id);
 
--- Create policy to allow users to update their own messages
-CREATE POLICY "Users can update own messages" ON public.messages
-    FOR UPDATE USING (auth.uid() = sender_id);
+-- Create policy to allow users to see invites addressed to them
+CREATE POLICY "Users can view own invites" ON public.room_invites
+    FOR SELECT USING (auth.uid() = invitee_id);
 
 -- Create indexes for faster queries
 CREATE INDEX IF NOT EXISTS idx_messages_sender_id ON public.messages(sender_id);
 CREATE INDEX IF NOT EXISTS idx_messages_recipient_id ON public.messages(recipient_id);
 CREATE INDEX IF NOT EXISTS idx_messages_chat_id ON public.messages(chat_id);
-CREATE INDEX IF NOT EXISTS idx_users_online ON public.users(isonline); 
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_users_online ON public.users(isonline); 
+CREATE INDEX IF NOT EXISTS idx_rooms_archived_at ON public.rooms(archived_at);
+CREATE INDEX IF NOT EXISTS idx_room_members_user_id ON public.room_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_room_invites_invitee_id ON public.room_invites(invitee_id);
+CREATE INDEX IF NOT EXISTS idx_message_edits_message_id ON public.message_edits(message_id);
+CREATE INDEX IF NOT EXISTS idx_messages_parent_id ON public.messages(parent_id, created_at);
+-- History pages are read in (created_at, id) order from the top-level messages of one chat;
+-- thread replies are paged through idx_messages_parent_id
+CREATE INDEX IF NOT EXISTS idx_messages_chat_history ON public.messages(chat_id, created_at, id) WHERE parent_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_read_markers_chat_id ON public.read_markers(chat_id);
+CREATE INDEX IF NOT EXISTS idx_message_mentions_user_id ON public.message_mentions(user_id);
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector ON public.messages USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_attachments_message_id ON public.attachments(message_id);
+CREATE INDEX IF NOT EXISTS idx_pinned_messages_chat_id ON public.pinned_messages(chat_id, pinned_at);
+CREATE INDEX IF NOT EXISTS idx_bookmarks_user_id ON public.bookmarks(user_id, created_at);
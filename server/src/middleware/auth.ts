@@ -0,0 +1,80 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// Identity of the caller, taken from a verified Supabase access token
+export interface AuthUser {
+    id: string;
+    email?: string;
+    username?: string;
+}
+
+declare global {
+    namespace Express {
+        interface Request {
+            user?: AuthUser;
+        }
+    }
+}
+
+/**
+ * Extract the bearer token from the Authorization header
+ */
+function getBearerToken(req: Request): string | null {
+    const header = req.headers.authorization;
+    if (!header) return null;
+
+    const [scheme, token] = header.split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token) return null;
+
+    return token;
+}
+
+// Looks up the user an access token belongs to, resolving to null if it is invalid or expired
+export type TokenVerifier = (token: string) => Promise<AuthUser | null>;
+
+/**
+ * Create a verifier for Supabase access tokens
+ */
+export function createSupabaseTokenVerifier(supabase: SupabaseClient): TokenVerifier {
+    return async (token: string) => {
+        const { data, error } = await supabase.auth.getUser(token);
+
+        if (error || !data.user) {
+            return null;
+        }
+
+        return {
+            id: data.user.id,
+            email: data.user.email,
+            username: data.user.user_metadata?.username
+        };
+    };
+}
+
+/**
+ * Create middleware that verifies the access token sent by the client
+ * and attaches the verified user to the request
+ */
+export function createAuthMiddleware(verifyToken: TokenVerifier): RequestHandler {
+    return (async (req: Request, res: Response, next: NextFunction) => {
+        const token = getBearerToken(req);
+        if (!token) {
+            return res.status(401).json({ error: 'Authorization token is required' });
+        }
+
+        try {
+            const user = await verifyToken(token);
+
+            if (!user) {
+                return res.status(401).json({ error: 'Invalid or expired token' });
+            }
+
+            req.user = user;
+
+            next();
+        } catch (error) {
+            console.error('Error verifying access token:', error);
+            res.status(500).json({ error: 'Failed to verify token' });
+        }
+    }) as RequestHandler;
+}
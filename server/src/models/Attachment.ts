@@ -0,0 +1,241 @@
+import { randomUUID } from 'crypto';
+import { AttachmentStorage } from '../storage/AttachmentStorage';
+import { ChatStore } from '../store/ChatStore';
+
+// A file uploaded to be sent with a message
+export interface AttachmentData {
+    id: string;
+    // Null until the message it was uploaded for is sent
+    message_id: string | null;
+    uploaded_by: string;
+    filename: string;
+    mime_type: string;
+    size_bytes: number;
+    // Set for images
+    width: number | null;
+    height: number | null;
+    created_at: string;
+}
+
+// Where the attachment's content is kept; never sent to clients
+export interface AttachmentRow extends AttachmentData {
+    storage_key: string;
+}
+
+// Largest attachment accepted (default 10 MB)
+export const MAX_ATTACHMENT_BYTES = parseFloat(process.env.MAX_ATTACHMENT_MB || '10') * 1024 * 1024;
+
+// Most attachments a single message can carry
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Screenshots, logs and other common documents. SVG and HTML are left out as they can carry scripts.
+export const ALLOWED_ATTACHMENT_TYPES = [
+    ...IMAGE_TYPES,
+    'text/plain',
+    'text/csv',
+    'text/markdown',
+    'application/json',
+    'application/pdf',
+    'application/zip',
+    'application/gzip',
+    'application/x-gzip'
+];
+
+/**
+ * Check whether a MIME type is one of the image types shown as previews
+ */
+export function isImageType(mimeType: string): boolean {
+    return IMAGE_TYPES.includes(mimeType);
+}
+
+/**
+ * Reduce an uploaded file's name to a safe display name without any directory part
+ */
+export function sanitizeFilename(filename: string): string {
+    const name = filename
+        .split(/[/\\]/).pop()!
+        .replace(/[\u0000-\u001f\u007f"]/g, '')
+        .trim()
+        .slice(0, 255);
+    return name || 'file';
+}
+
+/**
+ * Read the width and height of a PNG, JPEG, GIF or WebP image from its header.
+ * Returns null when the data is not an image of the given type.
+ */
+export function readImageDimensions(data: Buffer, mimeType: string): { width: number; height: number } | null {
+    try {
+        switch (mimeType) {
+            case 'image/png':
+                if (data.length < 24 || data.toString('latin1', 1, 4) !== 'PNG' || data.toString('latin1', 12, 16) !== 'IHDR') {
+                    return null;
+                }
+                return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+
+            case 'image/gif':
+                if (data.length < 10 || !/^GIF8[79]a$/.test(data.toString('latin1', 0, 6))) {
+                    return null;
+                }
+                return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+
+            case 'image/jpeg': {
+                if (data.length < 4 || data[0] !== 0xFF || data[1] !== 0xD8) {
+                    return null;
+                }
+                // Walk the segments until a start-of-frame segment gives the size
+                let offset = 2;
+                while (offset + 9 < data.length) {
+                    if (data[offset] !== 0xFF) {
+                        return null;
+                    }
+                    const marker = data[offset + 1];
+                    if (marker === 0xFF) {
+                        offset++;
+                        continue;
+                    }
+                    const isStartOfFrame = marker >= 0xC0 && marker <= 0xCF && ![0xC4, 0xC8, 0xCC].includes(marker);
+                    if (isStartOfFrame) {
+                        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+                    }
+                    offset += 2 + data.readUInt16BE(offset + 2);
+                }
+                return null;
+            }
+
+            case 'image/webp': {
+                if (data.length < 30 || data.toString('latin1', 0, 4) !== 'RIFF' || data.toString('latin1', 8, 12) !== 'WEBP') {
+                    return null;
+                }
+                const chunk = data.toString('latin1', 12, 16);
+                if (chunk === 'VP8 ') {
+                    return { width: data.readUInt16LE(26) & 0x3FFF, height: data.readUInt16LE(28) & 0x3FFF };
+                }
+                if (chunk === 'VP8L') {
+                    const bits = data.readUInt32LE(21);
+                    return { width: (bits & 0x3FFF) + 1, height: ((bits >> 14) & 0x3FFF) + 1 };
+                }
+                if (chunk === 'VP8X') {
+                    return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+                }
+                return null;
+            }
+
+            default:
+                return null;
+        }
+    } catch {
+        // Truncated headers
+        return null;
+    }
+}
+
+export class Attachment {
+    private store: ChatStore;
+    private storage: AttachmentStorage;
+
+    constructor(store: ChatStore, storage: AttachmentStorage) {
+        this.store = store;
+        this.storage = storage;
+    }
+
+    /**
+     * Store an uploaded file and record it as an attachment that is not yet part of a message
+     */
+    async createAttachment(
+        userId: string,
+        filename: string,
+        mimeType: string,
+        data: Buffer,
+        dimensions: { width: number; height: number } | null
+    ): Promise<AttachmentData | null> {
+        const id = randomUUID();
+        const storageKey = `${userId}/${id}`;
+
+        try {
+            await this.storage.put(storageKey, data, mimeType);
+        } catch (error) {
+            console.error('Error storing attachment:', error);
+            return null;
+        }
+
+        const attachment = await this.store.insertAttachment({
+            id,
+            message_id: null,
+            uploaded_by: userId,
+            storage_key: storageKey,
+            filename,
+            mime_type: mimeType,
+            size_bytes: data.length,
+            width: dimensions?.width ?? null,
+            height: dimensions?.height ?? null,
+            created_at: new Date().toISOString()
+        });
+
+        if (!attachment) {
+            await this.storage.delete(storageKey).catch(() => undefined);
+            return null;
+        }
+
+        return attachment;
+    }
+
+    /**
+     * Get an attachment with the key of its stored content
+     */
+    private async getAttachmentRow(attachmentId: string): Promise<AttachmentRow | null> {
+        if (!/^[0-9a-f-]{36}$/i.test(attachmentId)) {
+            return null;
+        }
+
+        return this.store.getAttachment(attachmentId);
+    }
+
+    /**
+     * Get an attachment and its content
+     */
+    async getAttachmentWithContent(attachmentId: string): Promise<{ attachment: AttachmentData; content: Buffer } | null> {
+        const row = await this.getAttachmentRow(attachmentId);
+        if (!row) {
+            return null;
+        }
+
+        try {
+            const content = await this.storage.get(row.storage_key);
+            if (!content) {
+                return null;
+            }
+
+            const { storage_key: _storageKey, ...attachment } = row;
+            return { attachment, content };
+        } catch (error) {
+            console.error('Error reading attachment:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Check that attachments were uploaded by a user and have not been sent with a message yet
+     */
+    async areUnsentUploadsOf(attachmentIds: string[], userId: string): Promise<boolean> {
+        if (attachmentIds.some(id => !/^[0-9a-f-]{36}$/i.test(id))) {
+            return false;
+        }
+
+        const count = await this.store.countUnsentAttachments(attachmentIds, userId);
+        return count === new Set(attachmentIds).size;
+    }
+
+    /**
+     * Attach a user's unsent uploads to the message they were sent with
+     */
+    async linkToMessage(attachmentIds: string[], messageId: string, userId: string): Promise<AttachmentData[]> {
+        if (attachmentIds.length === 0) {
+            return [];
+        }
+
+        return this.store.linkAttachments(attachmentIds, messageId, userId);
+    }
+}
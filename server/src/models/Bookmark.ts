@@ -0,0 +1,68 @@
+import { MessageData } from './Message';
+import { ChatStore } from '../store/ChatStore';
+
+// The room or direct message conversation a bookmarked message was sent in
+export interface BookmarkChat {
+    id: string;
+    type: 'room' | 'direct';
+    // The room name, or the other participant's username
+    name: string;
+    archived: boolean;
+}
+
+// A message a user has saved for later
+export interface BookmarkData {
+    user_id: string;
+    message_id: string;
+    chat_id: string;
+    note: string | null;
+    created_at: string;
+    message?: MessageData;
+    chat?: BookmarkChat;
+}
+
+// Longest note that can be kept with a bookmark
+export const MAX_BOOKMARK_NOTE_LENGTH = 500;
+
+/**
+ * Check the optional note of a bookmark. Returns an error message, or null if it is valid.
+ */
+export function validateBookmarkNote(note: unknown): string | null {
+    if (note !== undefined && note !== null && typeof note !== 'string') {
+        return 'Bookmark note must be text';
+    }
+    if (typeof note === 'string' && note.trim().length > MAX_BOOKMARK_NOTE_LENGTH) {
+        return `Bookmark note must be at most ${MAX_BOOKMARK_NOTE_LENGTH} characters`;
+    }
+    return null;
+}
+
+export class Bookmark {
+    constructor(private store: ChatStore) {}
+
+    /**
+     * Get a user's bookmarks, most recently saved first
+     */
+    async getBookmarksForUser(userId: string): Promise<BookmarkData[]> {
+        return this.store.listBookmarks(userId);
+    }
+
+    /**
+     * Bookmark a message for a user. Saving a bookmarked message again replaces its note.
+     */
+    async saveBookmark(userId: string, message: MessageData, note: string | null): Promise<BookmarkData | null> {
+        return this.store.upsertBookmark({
+            user_id: userId,
+            message_id: message.id,
+            chat_id: message.chat_id,
+            note
+        });
+    }
+
+    /**
+     * Remove a user's bookmark. Returns the removed bookmark, or null if the message was not bookmarked.
+     */
+    async removeBookmark(userId: string, messageId: string): Promise<BookmarkData | null> {
+        return this.store.deleteBookmark(userId, messageId);
+    }
+}
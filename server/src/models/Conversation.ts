@@ -0,0 +1,54 @@
+import { getConversationParticipants } from 'shared';
+import { MessageData, redactDeletedMessage } from './Message';
+import { ChatStore } from '../store/ChatStore';
+
+export interface ConversationData {
+    id: string;
+    other_user: {
+        id: string;
+        username: string;
+    };
+    last_message: MessageData;
+}
+
+export class Conversation {
+    constructor(private store: ChatStore) {}
+
+    /**
+     * Get a user's direct message conversations, most recently active first
+     */
+    async getConversationsForUser(userId: string): Promise<ConversationData[]> {
+        try {
+            const messages = await this.store.listLatestDirectMessages(userId);
+            const latest = new Map<string, MessageData>(
+                messages.map(message => [message.chat_id, redactDeletedMessage(message)])
+            );
+
+            const otherUserIds = [...latest.keys()]
+                .map(chatId => getConversationParticipants(chatId)?.find(id => id !== userId))
+                .filter((id): id is string => !!id);
+
+            if (otherUserIds.length === 0) {
+                return [];
+            }
+
+            // The user's own profile is needed as the sender of their latest messages
+            const users = await this.store.getUsers([...otherUserIds, userId]);
+            const userMap = new Map(users.map(user => [user.id, user]));
+
+            return [...latest.entries()]
+                .map(([chatId, lastMessage]): ConversationData | null => {
+                    const otherUserId = getConversationParticipants(chatId)?.find(id => id !== userId);
+                    const otherUser = otherUserId ? userMap.get(otherUserId) : undefined;
+                    const sender = userMap.get(lastMessage.sender_id) || { id: lastMessage.sender_id, username: 'Unknown User' };
+                    return otherUser
+                        ? { id: chatId, other_user: otherUser, last_message: { ...lastMessage, sender } }
+                        : null;
+                })
+                .filter((conversation): conversation is ConversationData => conversation !== null);
+        } catch (error) {
+            console.error('Exception fetching conversations:', error);
+            return [];
+        }
+    }
+}
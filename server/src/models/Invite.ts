@@ -0,0 +1,118 @@
+import { randomBytes } from 'crypto';
+import { ChatStore } from '../store/ChatStore';
+import { RealtimeBus } from '../realtime/RealtimeBus';
+
+// Define invite interface
+export interface InviteData {
+    id: string;
+    token: string;
+    room_id: string;
+    created_by: string;
+    invitee_id: string | null;
+    created_at: string;
+    expires_at: string;
+    accepted_at: string | null;
+    accepted_by: string | null;
+    room?: {
+        id: string;
+        name: string;
+    };
+}
+
+// How long an invite stays valid (default 7 days)
+export const INVITE_TTL_MS = parseInt(process.env.INVITE_TTL_MS || '604800000');
+
+/**
+ * Check whether an invite can still be accepted
+ */
+export function isInviteUsable(invite: InviteData): boolean {
+    if (new Date(invite.expires_at).getTime() < Date.now()) {
+        return false;
+    }
+    // Invites addressed to a user can only be used once; link invites until they expire
+    return !(invite.invitee_id && invite.accepted_at);
+}
+
+export class Invite {
+    private store: ChatStore;
+    private realtime: RealtimeBus;
+
+    constructor(store: ChatStore, realtime: RealtimeBus) {
+        this.store = store;
+        this.realtime = realtime;
+    }
+
+    /**
+     * Create an invite to a room, either for a specific user or as a shareable link
+     */
+    async createInvite(roomId: string, createdBy: string, inviteeId?: string): Promise<InviteData | null> {
+        try {
+            return await this.store.insertInvite({
+                token: randomBytes(24).toString('base64url'),
+                room_id: roomId,
+                created_by: createdBy,
+                invitee_id: inviteeId || null,
+                created_at: new Date().toISOString(),
+                expires_at: new Date(Date.now() + INVITE_TTL_MS).toISOString()
+            });
+        } catch (error) {
+            console.error('Exception creating invite:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Get invite by its token
+     */
+    async getInviteByToken(token: string): Promise<InviteData | null> {
+        return this.store.getInviteByToken(token);
+    }
+
+    /**
+     * Get the invites addressed to a user that are still waiting for an answer
+     */
+    async getPendingInvitesForUser(userId: string): Promise<InviteData[]> {
+        const invites = await this.store.listPendingInvites(userId);
+
+        if (invites.length === 0) {
+            return [];
+        }
+
+        // Attach room names so the invite can be shown without another request
+        const rooms = await this.store.getRooms(invites.map(i => i.room_id));
+        const roomMap = new Map(rooms
+            .filter(room => !room.archived_at)
+            .map(room => [room.id, { id: room.id, name: room.name }]));
+
+        return invites
+            .filter(invite => roomMap.has(invite.room_id))
+            .map(invite => ({ ...invite, room: roomMap.get(invite.room_id) }));
+    }
+
+    /**
+     * Record that a user accepted an invite
+     */
+    async markAccepted(inviteId: string, userId: string): Promise<boolean> {
+        return this.store.markInviteAccepted(inviteId, userId);
+    }
+
+    /**
+     * Delete an invite, e.g. when it is declined
+     */
+    async deleteInvite(inviteId: string): Promise<boolean> {
+        return this.store.deleteInvite(inviteId);
+    }
+
+    /**
+     * Let an invited user know about a new invite on their direct channel
+     */
+    async publishInvite(invite: InviteData): Promise<void> {
+        if (!invite.invitee_id) return;
+
+        try {
+            await this.realtime.publish(`direct:${invite.invitee_id}`, 'invite', { inviteId: invite.id, roomId: invite.room_id });
+        } catch (error) {
+            console.error('Error publishing invite:', error);
+        }
+    }
+}
@@ -0,0 +1,124 @@
+import { LinkMetadata, LinkPreviewFetcher } from '../previews/LinkPreviewFetcher';
+import { ChatStore } from '../store/ChatStore';
+
+// A preview of a page linked in a message
+export interface LinkPreviewData extends LinkMetadata {
+    url: string;
+}
+
+// A cached fetch; rows without a title or description record pages with nothing to show
+export interface LinkPreviewRow extends LinkPreviewData {
+    fetched_at: string;
+}
+
+// Only the first few links of a message are previewed
+export const MAX_LINK_PREVIEWS_PER_MESSAGE = 3;
+
+// Pages are fetched again after this long (default 24 hours)
+const LINK_PREVIEW_TTL_MS = parseInt(process.env.LINK_PREVIEW_TTL_HOURS || '24') * 60 * 60 * 1000;
+
+const MAX_URL_LENGTH = 2048;
+
+// An http(s) URL; trailing punctuation is trimmed off afterwards
+const LINK_PATTERN = /\bhttps?:\/\/[^\s<>]+/gi;
+
+/**
+ * Get the distinct http(s) links in a message, in the order they appear
+ */
+export function extractLinks(content: string): string[] {
+    const links = [...content.matchAll(LINK_PATTERN)]
+        // A trailing full stop or closing bracket ends the sentence rather than the link
+        .map(match => match[0].replace(/[.,;:!?)'"`*_]+$/, ''))
+        .filter(link => link.length <= MAX_URL_LENGTH)
+        .map(link => {
+            try {
+                return new URL(link).href;
+            } catch {
+                return null;
+            }
+        })
+        .filter((link): link is string => !!link);
+    return [...new Set(links)];
+}
+
+const isShowable = (preview: LinkMetadata | null) => !!preview && !!(preview.title || preview.description);
+
+export class LinkPreview {
+    private store: ChatStore;
+    private fetcher: LinkPreviewFetcher;
+
+    constructor(store: ChatStore, fetcher: LinkPreviewFetcher) {
+        this.store = store;
+        this.fetcher = fetcher;
+    }
+
+    /**
+     * Get previews of some pages, fetching those that are not cached or have expired.
+     * Pages without anything to show are left out.
+     */
+    async getPreviews(urls: string[]): Promise<LinkPreviewData[]> {
+        if (urls.length === 0) {
+            return [];
+        }
+
+        const rows = await this.store.getLinkPreviews(urls);
+
+        const cached = new Map<string, LinkPreviewRow>();
+        const expiredBefore = Date.now() - LINK_PREVIEW_TTL_MS;
+        rows
+            .filter(row => new Date(row.fetched_at).getTime() > expiredBefore)
+            .forEach(row => cached.set(row.url, row));
+
+        const fetched: LinkPreviewRow[] = await Promise.all(urls
+            .filter(url => !cached.has(url))
+            .map(async url => {
+                const metadata = await this.fetcher.fetchMetadata(url);
+                return {
+                    url,
+                    title: metadata?.title ?? null,
+                    description: metadata?.description ?? null,
+                    image_url: metadata?.image_url ?? null,
+                    site_name: metadata?.site_name ?? null,
+                    fetched_at: new Date().toISOString()
+                };
+            }));
+
+        // Pages with nothing to show are cached too, so they are not fetched for every message
+        if (fetched.length > 0) {
+            await this.store.upsertLinkPreviews(fetched);
+            fetched.forEach(row => cached.set(row.url, row));
+        }
+
+        return urls
+            .map(url => cached.get(url)!)
+            .filter(isShowable)
+            .map(({ fetched_at: _fetchedAt, ...preview }) => preview);
+    }
+
+    /**
+     * Preview the links in a message, replacing any earlier previews when a message is edited.
+     * Returns the previews in the order their links appear.
+     */
+    async unfurlMessage(messageId: string, content: string, replace: boolean = false): Promise<LinkPreviewData[]> {
+        try {
+            const previews = await this.getPreviews(extractLinks(content).slice(0, MAX_LINK_PREVIEWS_PER_MESSAGE));
+
+            if (replace && !await this.store.deleteMessageLinks(messageId)) {
+                return [];
+            }
+
+            if (previews.length === 0) {
+                return [];
+            }
+
+            if (!await this.store.insertMessageLinks(messageId, previews.map(preview => preview.url))) {
+                return [];
+            }
+
+            return previews;
+        } catch (error) {
+            console.error('Exception unfurling links:', error);
+            return [];
+        }
+    }
+}
@@ -1,5 +1,8 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import * as Ably from 'ably';
+import { Message as WireMessage, TextRange, getConversationParticipants } from 'shared';
+import { AttachmentData } from './Attachment';
+import { LinkPreviewData } from './LinkPreview';
+import { ChatStore } from '../store/ChatStore';
+import { RealtimeBus } from '../realtime/RealtimeBus';
 
 // Define message interface
 export interface MessageData {
@@ -8,91 +11,548 @@ export interface MessageData {
     sender_id: string;
     recipient_id?: string;
     chat_id: string;
+    // Set on thread replies; replies are not part of the main message flow
+    parent_id?: string | null;
+    reply_count?: number;
+    last_reply_at?: string | null;
     created_at: string;
     updated_at: string;
+    edited_at?: string | null;
+    deleted_at?: string | null;
+    deleted_by?: string | null;
     sender?: {
         id: string;
         username: string;
     };
+    reactions?: ReactionSummary[];
+    // IDs of the users mentioned in the message
+    mentions?: string[];
+    attachments?: AttachmentData[];
+    // Previews of the pages linked in the message, added once they have been fetched
+    link_previews?: LinkPreviewData[];
+}
+
+// Reactions to a message grouped by emoji, as seen by one user
+export interface ReactionSummary {
+    emoji: string;
+    count: number;
+    reacted: boolean;
+}
+
+export interface ReactionData {
+    message_id: string;
+    user_id: string;
+    emoji: string;
+    created_at: string;
+}
+
+// A previous version of an edited message
+export interface MessageEditData {
+    id: string;
+    message_id: string;
+    previous_content: string;
+    edited_by: string;
+    edited_at: string;
+}
+
+// How long after sending a message its sender may still edit it (default 15 minutes)
+export const MESSAGE_EDIT_WINDOW_MS = parseInt(process.env.MESSAGE_EDIT_WINDOW_MINUTES || '15') * 60 * 1000;
+
+/**
+ * Check whether a message is still inside its edit window
+ */
+export function isWithinEditWindow(message: Pick<MessageData, 'created_at'>): boolean {
+    return Date.now() - new Date(message.created_at).getTime() <= MESSAGE_EDIT_WINDOW_MS;
+}
+
+/**
+ * Blank the content of a deleted message before it leaves the server
+ */
+export function redactDeletedMessage<T extends MessageData>(message: T): T {
+    return message.deleted_at ? { ...message, content: '', attachments: [], link_previews: [] } : message;
+}
+
+// A reaction is a single emoji, possibly with modifiers or joined with zero-width joiners
+const REACTION_EMOJI_PATTERN = /^(?:\p{Extended_Pictographic}|\p{Emoji_Component}|\u200D|\uFE0F)+$/u;
+const MAX_REACTION_LENGTH = 32;
+
+/**
+ * Check whether a string can be used as a reaction
+ */
+export function isValidReactionEmoji(emoji: string): boolean {
+    return emoji.length <= MAX_REACTION_LENGTH
+        && REACTION_EMOJI_PATTERN.test(emoji)
+        && /\p{Extended_Pictographic}/u.test(emoji);
+}
+
+// An @username at the start of the message or after whitespace
+const MENTION_PATTERN = /(?:^|\s)@([\w.-]+)/g;
+
+/**
+ * Get the distinct usernames mentioned in a message
+ */
+export function extractMentions(content: string): string[] {
+    const usernames = [...content.matchAll(MENTION_PATTERN)]
+        // A trailing full stop ends the sentence rather than the username
+        .map(match => match[1].replace(/\.+$/, ''))
+        .filter(username => username.length > 0);
+    return [...new Set(usernames)];
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+export interface MessagePageOptions {
+    before?: string;
+    after?: string;
+    limit?: number;
+    // Page through the replies to this message instead of the top-level messages
+    parentId?: string;
+    // Get the page surrounding this message instead
+    around?: string;
+}
+
+export interface MessagePage {
+    messages: MessageData[];
+    hasMore: boolean;
+    nextCursor: string | null;
+    // Set on pages around a message: whether there are newer messages, and where they start
+    hasNewer?: boolean;
+    newerCursor?: string | null;
+}
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+export interface MessageSearchOptions {
+    query: string;
+    // Only the messages of these chats are searched
+    chatIds: string[];
+    senderId?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+}
+
+// A message matching a search, with a plain text snippet and where the matching words are in it
+export interface MessageSearchResult extends Pick<MessageData, 'id' | 'chat_id' | 'sender_id' | 'parent_id' | 'content' | 'created_at' | 'sender'> {
+    snippet: string;
+    highlights: TextRange[];
+    rank: number;
+}
+
+export interface MessageCursor {
+    createdAt: string;
+    id?: string;
+}
+
+/**
+ * Encode the position of a message as a pagination cursor
+ */
+export function encodeCursor(message: Pick<MessageData, 'created_at' | 'id'>): string {
+    return `${message.created_at}|${message.id}`;
+}
+
+/**
+ * Parse a pagination cursor. A bare ISO timestamp is accepted as well as an encoded cursor.
+ */
+export function parseCursor(cursor: string): MessageCursor | null {
+    const [createdAt, id] = cursor.split('|');
+    if (!createdAt || isNaN(Date.parse(createdAt))) {
+        return null;
+    }
+    if (id !== undefined && !/^[0-9a-f-]{36}$/i.test(id)) {
+        return null;
+    }
+    return { createdAt, id };
+}
+
+/**
+ * Keep a requested page size within the server-side bounds
+ */
+export function clampPageSize(limit?: number): number {
+    if (!limit || isNaN(limit) || limit < 1) {
+        return DEFAULT_PAGE_SIZE;
+    }
+    return Math.min(Math.floor(limit), MAX_PAGE_SIZE);
+}
+
+/**
+ * Get the realtime channels that events for a chat are published on.
+ * Room events go to the room channel, or to the thread channel for thread replies;
+ * direct message events go to both participants' direct channels.
+ */
+export function getChatChannelNames(chatId: string, parentId?: string | null): string[] {
+    const participants = getConversationParticipants(chatId);
+    if (participants) {
+        return participants.map(userId => `direct:${userId}`);
+    }
+    return [parentId ? `thread:${chatId}:${parentId}` : `chat:${chatId}`];
+}
+
+/**
+ * Group reactions by emoji in the order each emoji was first used
+ */
+function summarizeReactions(reactions: ReactionData[], viewerId?: string): ReactionSummary[] {
+    const summaries = new Map<string, ReactionSummary>();
+    reactions.forEach(reaction => {
+        const summary = summaries.get(reaction.emoji) || { emoji: reaction.emoji, count: 0, reacted: false };
+        summary.count++;
+        summary.reacted = summary.reacted || reaction.user_id === viewerId;
+        summaries.set(reaction.emoji, summary);
+    });
+    return [...summaries.values()];
 }
 
 export class Message {
-    private supabase: SupabaseClient;
-    private ably: Ably.Realtime;
+    private store: ChatStore;
+    private realtime: RealtimeBus;
+
+    constructor(store: ChatStore, realtime: RealtimeBus) {
+        this.store = store;
+        this.realtime = realtime;
+    }
+
+    /**
+     * Get a page of messages for a specific chat room, ordered oldest first.
+     * Pages are keyed on (created_at, id) so that messages sharing a timestamp are never skipped.
+     * Reactions are marked as `reacted` when they were added by the viewer.
+     */
+    async getMessagesForChat(chatId: string, options: MessagePageOptions = {}, viewerId?: string): Promise<MessagePage> {
+        const limit = clampPageSize(options.limit);
+        const before = options.before ? parseCursor(options.before) : null;
+        const after = !before && options.after ? parseCursor(options.after) : null;
+        const ascending = !!after;
+
+        try {
+            // Fetch one extra row to find out whether there is another page
+            const rows = await this.store.listMessages({
+                chatId,
+                parentId: options.parentId || null,
+                before: before || undefined,
+                after: after || undefined,
+                limit: limit + 1
+            });
 
-    constructor(supabaseUrl: string, supabaseKey: string, ablyClient: Ably.Realtime) {
-        // Initialize Supabase client with service role key for admin operations
-        const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+            const hasMore = rows.length > limit;
+            const page = rows.slice(0, limit);
 
-        if (!serviceRoleKey) {
-            console.warn('SUPABASE_SERVICE_ROLE_KEY not set - using anon key instead');
+            // The last row fetched is where the next page in the same direction starts
+            const nextCursor = hasMore ? encodeCursor(page[page.length - 1]) : null;
+
+            const messages = await this.attachLinkPreviews(await this.attachAttachments(await this.attachReactions(
+                await this.attachSenders(ascending ? page : page.reverse()),
+                viewerId
+            )));
+            return { messages: messages.map(redactDeletedMessage), hasMore, nextCursor };
+        } catch (error) {
+            console.error('Exception fetching messages:', error);
+            return { messages: [], hasMore: false, nextCursor: null };
         }
+    }
 
-        this.supabase = createClient(
-            supabaseUrl,
-            serviceRoleKey || supabaseKey
-        );
+    /**
+     * Get the page of messages surrounding a message, with the message in the middle.
+     * Returns null when the message is not in the chat, or not in the requested thread.
+     */
+    async getMessagesAround(chatId: string, options: MessagePageOptions, viewerId?: string): Promise<MessagePage | null> {
+        const target = options.around ? await this.getMessageById(options.around) : null;
+        if (!target || target.chat_id !== chatId || (target.parent_id || undefined) !== options.parentId) {
+            return null;
+        }
+
+        const limit = clampPageSize(options.limit);
+        const olderLimit = Math.floor((limit - 1) / 2);
+        const newerLimit = limit - 1 - olderLimit;
+        const cursor = encodeCursor(target);
+        const pageOptions = { parentId: options.parentId };
+
+        const [older, newer, [message]] = await Promise.all([
+            olderLimit > 0
+                ? this.getMessagesForChat(chatId, { ...pageOptions, before: cursor, limit: olderLimit }, viewerId)
+                : Promise.resolve({ messages: [], hasMore: true, nextCursor: cursor }),
+            newerLimit > 0
+                ? this.getMessagesForChat(chatId, { ...pageOptions, after: cursor, limit: newerLimit }, viewerId)
+                : Promise.resolve({ messages: [], hasMore: true, nextCursor: cursor }),
+            this.attachReactions([target], viewerId)
+                .then(messages => this.attachAttachments(messages))
+                .then(messages => this.attachLinkPreviews(messages))
+        ]);
 
-        this.ably = ablyClient;
+        return {
+            messages: [...older.messages, redactDeletedMessage(message), ...newer.messages],
+            hasMore: older.hasMore,
+            nextCursor: older.nextCursor,
+            hasNewer: newer.hasMore,
+            newerCursor: newer.nextCursor
+        };
     }
 
     /**
-     * Get messages for a specific chat room
+     * Search the messages of some chats by their content, best matches first
      */
-    async getMessagesForChat(chatId: string, limit: number = 50): Promise<MessageData[]> {
+    async searchMessages(options: MessageSearchOptions): Promise<MessageSearchResult[]> {
+        if (options.chatIds.length === 0) {
+            return [];
+        }
+
+        const limit = !options.limit || isNaN(options.limit) || options.limit < 1
+            ? DEFAULT_SEARCH_LIMIT
+            : Math.min(Math.floor(options.limit), MAX_SEARCH_LIMIT);
+
         try {
-            // First, get the messages
-            const { data: messages, error: messagesError } = await this.supabase
-                .from('messages')
-                .select('*')
-                .eq('chat_id', chatId)
-                .order('created_at', { ascending: false })
-                .limit(limit);
-
-            if (messagesError) {
-                console.error('Error fetching messages:', messagesError);
-                return [];
+            const results = await this.store.searchMessages({ ...options, limit });
+            return await this.attachSenders(results);
+        } catch (error) {
+            console.error('Exception searching messages:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Add sender information to a list of messages
+     */
+    private async attachSenders<T extends Pick<MessageData, 'sender_id' | 'sender'>>(messages: T[]): Promise<T[]> {
+        if (messages.length === 0) {
+            return [];
+        }
+
+        // Get unique sender IDs from messages
+        const senderIds = [...new Set(messages.map(m => m.sender_id))];
+
+        // Fetch user data for all senders
+        const users = await this.store.getUsers(senderIds);
+
+        // Create a map of user data for quick lookup
+        const userMap = new Map(users.map(user => [user.id, user]));
+
+        // Combine message data with sender information; senders without a profile are shown as unknown
+        return messages.map(message => ({
+            ...message,
+            sender: {
+                id: message.sender_id,
+                username: userMap.get(message.sender_id)?.username || 'Unknown User'
             }
+        }));
+    }
+
+    /**
+     * Add aggregated reactions to a list of messages
+     */
+    private async attachReactions(messages: MessageData[], viewerId?: string): Promise<MessageData[]> {
+        if (messages.length === 0) {
+            return [];
+        }
+
+        const reactions = await this.store.listReactions(messages.map(m => m.id));
+
+        const reactionsByMessage = new Map<string, ReactionData[]>();
+        reactions.forEach(reaction => {
+            const list = reactionsByMessage.get(reaction.message_id) || [];
+            list.push(reaction);
+            reactionsByMessage.set(reaction.message_id, list);
+        });
+
+        return messages.map(message => ({
+            ...message,
+            reactions: summarizeReactions(reactionsByMessage.get(message.id) || [], viewerId)
+        }));
+    }
+
+    /**
+     * Add their attachments to a list of messages, in upload order
+     */
+    private async attachAttachments(messages: MessageData[]): Promise<MessageData[]> {
+        if (messages.length === 0) {
+            return [];
+        }
+
+        const attachments = await this.store.listAttachments(messages.map(m => m.id));
+
+        const attachmentsByMessage = new Map<string, AttachmentData[]>();
+        attachments.forEach(attachment => {
+            const list = attachmentsByMessage.get(attachment.message_id!) || [];
+            list.push(attachment);
+            attachmentsByMessage.set(attachment.message_id!, list);
+        });
+
+        return messages.map(message => ({
+            ...message,
+            attachments: attachmentsByMessage.get(message.id) || []
+        }));
+    }
+
+    /**
+     * Get the attachments of a message
+     */
+    async getAttachments(messageId: string): Promise<AttachmentData[]> {
+        const [message] = await this.attachAttachments([{ id: messageId } as MessageData]);
+        return message.attachments || [];
+    }
 
-            if (!messages || messages.length === 0) {
+    /**
+     * Add the previews of their links to a list of messages, in the order the links appear
+     */
+    private async attachLinkPreviews(messages: MessageData[]): Promise<MessageData[]> {
+        if (messages.length === 0) {
+            return [];
+        }
+
+        const links = await this.store.listMessageLinkPreviews(messages.map(m => m.id));
+
+        const previewsByMessage = new Map<string, LinkPreviewData[]>();
+        links.forEach(({ message_id: messageId, preview }) => {
+            const list = previewsByMessage.get(messageId) || [];
+            list.push(preview);
+            previewsByMessage.set(messageId, list);
+        });
+
+        return messages.map(message => ({
+            ...message,
+            link_previews: previewsByMessage.get(message.id) || []
+        }));
+    }
+
+    /**
+     * Get the link previews of a message
+     */
+    async getLinkPreviews(messageId: string): Promise<LinkPreviewData[]> {
+        const [message] = await this.attachLinkPreviews([{ id: messageId } as MessageData]);
+        return message.link_previews || [];
+    }
+
+    /**
+     * Get the reactions to a message, grouped by emoji
+     */
+    async getReactions(messageId: string, viewerId?: string): Promise<ReactionSummary[]> {
+        return summarizeReactions(await this.store.listReactions([messageId]), viewerId);
+    }
+
+    /**
+     * Add a reaction. Returns false if the user had already reacted with this emoji.
+     */
+    async addReaction(messageId: string, userId: string, emoji: string): Promise<boolean> {
+        return this.store.insertReaction({
+            message_id: messageId,
+            user_id: userId,
+            emoji,
+            created_at: new Date().toISOString()
+        });
+    }
+
+    /**
+     * Remove a reaction. Returns false if there was no such reaction.
+     */
+    async removeReaction(messageId: string, userId: string, emoji: string): Promise<boolean> {
+        return this.store.deleteReaction(messageId, userId, emoji);
+    }
+
+    /**
+     * Get a single message with its sender
+     */
+    async getMessageById(messageId: string): Promise<MessageData | null> {
+        if (!/^[0-9a-f-]{36}$/i.test(messageId)) {
+            return null;
+        }
+
+        const data = await this.store.getMessage(messageId);
+
+        if (!data) {
+            return null;
+        }
+
+        const [message] = await this.attachSenders([data]);
+        return message;
+    }
+
+    /**
+     * Get several messages with their senders, attachments and link previews, in no particular order
+     */
+    async getMessagesByIds(messageIds: string[]): Promise<MessageData[]> {
+        if (messageIds.length === 0) {
+            return [];
+        }
+
+        const data = await this.store.getMessages(messageIds);
+
+        const messages = await this.attachLinkPreviews(await this.attachAttachments(
+            await this.attachSenders(data)
+        ));
+        return messages.map(redactDeletedMessage);
+    }
+
+    /**
+     * Change the content of a message, keeping the previous version in its edit history
+     */
+    async updateMessageContent(message: MessageData, content: string, editorId: string): Promise<MessageData | null> {
+        try {
+            const data = await this.store.editMessage(message.id, content, editorId, new Date().toISOString());
+
+            if (!data) {
+                return null;
+            }
+
+            const [updated] = await this.attachSenders([data]);
+            // Edits can add or remove mentions; only new messages notify mentioned users
+            const mentions = await this.saveMentions(updated.id, content, true);
+            return { ...updated, mentions };
+        } catch (error) {
+            console.error('Exception updating message:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Soft-delete a message. The row is kept, but its content is no longer returned.
+     */
+    async deleteMessage(messageId: string, deletedBy: string): Promise<MessageData | null> {
+        const data = await this.store.updateMessage(messageId, {
+            deleted_at: new Date().toISOString(),
+            deleted_by: deletedBy,
+            updated_at: new Date().toISOString()
+        });
+
+        return data ? redactDeletedMessage(data) : null;
+    }
+
+    /**
+     * Record which users a message mentions, replacing earlier mentions when a message is edited.
+     * Returns the IDs of the mentioned users.
+     */
+    private async saveMentions(messageId: string, content: string, replace: boolean = false): Promise<string[]> {
+        try {
+            if (replace && !await this.store.deleteMentions(messageId)) {
                 return [];
             }
 
-            // Get unique sender IDs from messages
-            const senderIds = [...new Set(messages.map(m => m.sender_id))];
+            const usernames = extractMentions(content);
+            if (usernames.length === 0) {
+                return [];
+            }
 
-            // Fetch user data for all senders
-            const { data: users, error: usersError } = await this.supabase
-                .from('users')
-                .select('id, username')
-                .in('id', senderIds);
+            const userIds = await this.store.getUserIdsByUsername(usernames);
+            if (userIds.length === 0) {
+                return [];
+            }
 
-            if (usersError) {
-                console.error('Error fetching users:', usersError);
-                return messages;
+            if (!await this.store.insertMentions(messageId, userIds)) {
+                return [];
             }
 
-            // Create a map of user data for quick lookup
-            const userMap = new Map(users?.map(user => [user.id, user]) || []);
-
-            // Combine message data with sender information
-            const messagesWithSenders = messages.map(message => ({
-                ...message,
-                sender: userMap.get(message.sender_id)
-                    ? {
-                        id: message.sender_id,
-                        username: userMap.get(message.sender_id)?.username || 'Unknown User'
-                    }
-                    : undefined
-            }));
-
-            return messagesWithSenders;
+            return userIds;
         } catch (error) {
-            console.error('Exception fetching messages:', error);
+            console.error('Exception saving mentions:', error);
             return [];
         }
     }
 
+    /**
+     * Get the previous versions of a message, newest first
+     */
+    async getEditHistory(messageId: string): Promise<MessageEditData[]> {
+        return this.store.listMessageEdits(messageId);
+    }
+
     /**
      * Save a new message to the database
      */
@@ -100,28 +560,27 @@ export class Message {
         senderId: string,
         content: string,
         chatId: string,
-        recipientId?: string
+        recipientId?: string,
+        parentId?: string
     ): Promise<MessageData | null> {
         try {
-            const { data, error } = await this.supabase
-                .from('messages')
-                .insert({
-                    sender_id: senderId,
-                    content,
-                    chat_id: chatId,
-                    recipient_id: recipientId || null,
-                    created_at: new Date().toISOString(),
-                    updated_at: new Date().toISOString()
-                })
-                .select()
-                .single();
+            const data = await this.store.insertMessage({
+                sender_id: senderId,
+                content,
+                chat_id: chatId,
+                recipient_id: recipientId || null,
+                parent_id: parentId || null,
+                created_at: new Date().toISOString(),
+                updated_at: new Date().toISOString()
+            });
 
-            if (error) {
-                console.error('Error saving message:', error);
+            if (!data) {
                 return null;
             }
 
-            return data as MessageData;
+            const [message] = await this.attachSenders([data]);
+            const mentions = await this.saveMentions(message.id, content);
+            return { ...message, mentions };
         } catch (error) {
             console.error('Exception saving message:', error);
             return null;
@@ -129,30 +588,94 @@ export class Message {
     }
 
     /**
-     * Publish a message to the appropriate Ably channel
+     * Publish a message to the appropriate realtime channel
      */
     async publishMessage(message: MessageData, senderUsername: string): Promise<void> {
-        try {
-            // Create the message payload with sender info
-            const messagePayload = {
-                ...message,
-                sender: {
-                    id: message.sender_id,
-                    username: senderUsername
-                }
-            };
-
-            // Publish to chat room channel
-            const chatChannel = this.ably.channels.get(`chat:${message.chat_id}`);
-            await chatChannel.publish('message', messagePayload);
-
-            // If this is a direct message, also publish to recipient's channel
-            if (message.recipient_id) {
-                const directChannel = this.ably.channels.get(`direct:${message.recipient_id}`);
-                await directChannel.publish('message', messagePayload);
+        // Create the message payload with sender info
+        await this.publishMessageEvent('message', {
+            ...message,
+            sender: {
+                id: message.sender_id,
+                username: senderUsername
             }
+        } satisfies WireMessage);
+    }
+
+    /**
+     * Let clients replace a deleted message with a tombstone
+     */
+    async publishMessageDeleted(message: MessageData): Promise<void> {
+        await this.publishMessageEvent('message.deleted', {
+            id: message.id,
+            chat_id: message.chat_id,
+            parent_id: message.parent_id,
+            deleted_at: message.deleted_at,
+            deleted_by: message.deleted_by
+        });
+    }
+
+    /**
+     * Let clients update the reaction count of a message. The new total is sent
+     * so that clients can apply the event whether or not they saw earlier ones.
+     */
+    async publishReactionEvent(
+        name: 'reaction.added' | 'reaction.removed',
+        message: MessageData,
+        userId: string,
+        emoji: string,
+        count: number
+    ): Promise<void> {
+        try {
+            await Promise.all(getChatChannelNames(message.chat_id, message.parent_id).map(channelName =>
+                this.realtime.publish(channelName, name, {
+                    message_id: message.id,
+                    chat_id: message.chat_id,
+                    parent_id: message.parent_id,
+                    user_id: userId,
+                    emoji,
+                    count
+                })
+            ));
         } catch (error) {
-            console.error('Error publishing message:', error);
+            console.error(`Error publishing ${name}:`, error);
         }
     }
-} 
\ No newline at end of file
+
+    /**
+     * Let clients show the previews of a message's links once they have been fetched
+     */
+    async publishLinkPreviews(message: MessageData, previews: LinkPreviewData[]): Promise<void> {
+        await this.publishMessageEvent('message.updated', {
+            id: message.id,
+            chat_id: message.chat_id,
+            parent_id: message.parent_id,
+            link_previews: previews
+        });
+    }
+
+    /**
+     * Let clients update the reply count shown on a thread's parent message
+     */
+    async publishThreadUpdated(parent: MessageData): Promise<void> {
+        await this.publishMessageEvent('message.updated', {
+            id: parent.id,
+            chat_id: parent.chat_id,
+            parent_id: null,
+            reply_count: parent.reply_count,
+            last_reply_at: parent.last_reply_at
+        });
+    }
+
+    /**
+     * Publish a message event to the room or thread channel, or to both participants of a direct message
+     */
+    async publishMessageEvent(name: string, message: Partial<MessageData> & Pick<MessageData, 'chat_id'>): Promise<void> {
+        try {
+            await Promise.all(getChatChannelNames(message.chat_id, message.parent_id).map(channelName =>
+                this.realtime.publish(channelName, name, message)
+            ));
+        } catch (error) {
+            console.error(`Error publishing ${name}:`, error);
+        }
+    }
+}
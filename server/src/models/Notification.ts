@@ -0,0 +1,71 @@
+import { MentionNotification, MessageNotification, UnreadCount } from 'shared';
+import { MessageData } from './Message';
+import { RealtimeBus } from '../realtime/RealtimeBus';
+
+// Someone who should hear about a new message
+export interface NotificationRecipient {
+    id: string;
+    username: string;
+}
+
+/**
+ * Publishes to each user's own `notifications:<userId>` channel, so that clients can keep
+ * unread counts for every chat without subscribing to all of them
+ */
+export class Notification {
+    private realtime: RealtimeBus;
+
+    constructor(realtime: RealtimeBus) {
+        this.realtime = realtime;
+    }
+
+    /**
+     * Tell the recipients of a new message that it is unread
+     */
+    async publishNewMessage(message: MessageData, recipients: NotificationRecipient[]): Promise<void> {
+        try {
+            await Promise.all(recipients.map(recipient =>
+                this.realtime.publish(`notifications:${recipient.id}`, 'message', {
+                    chat_id: message.chat_id,
+                    message_id: message.id,
+                    sender_id: message.sender_id
+                } satisfies MessageNotification)
+            ));
+        } catch (error) {
+            console.error('Error publishing message notifications:', error);
+        }
+    }
+
+    /**
+     * Tell users that a message mentions them
+     */
+    async publishMentions(message: MessageData, mentioned: NotificationRecipient[], senderUsername: string): Promise<void> {
+        try {
+            await Promise.all(mentioned.map(recipient =>
+                this.realtime.publish(`notifications:${recipient.id}`, 'mention', {
+                    chat_id: message.chat_id,
+                    message_id: message.id,
+                    parent_id: message.parent_id || null,
+                    sender: {
+                        id: message.sender_id,
+                        username: senderUsername
+                    },
+                    content: message.content
+                } satisfies MentionNotification)
+            ));
+        } catch (error) {
+            console.error('Error publishing mentions:', error);
+        }
+    }
+
+    /**
+     * Send a user the new unread count of a chat, e.g. after they read it in another tab
+     */
+    async publishUnreadCount(userId: string, count: UnreadCount): Promise<void> {
+        try {
+            await this.realtime.publish(`notifications:${userId}`, 'unread', count);
+        } catch (error) {
+            console.error('Error publishing unread count:', error);
+        }
+    }
+}
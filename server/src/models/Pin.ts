@@ -0,0 +1,94 @@
+import { MessageData, getChatChannelNames } from './Message';
+import { ChatStore } from '../store/ChatStore';
+import { RealtimeBus } from '../realtime/RealtimeBus';
+
+// A message pinned to the top of a room
+export interface PinData {
+    message_id: string;
+    chat_id: string;
+    pinned_by: string;
+    pinned_at: string;
+    pinned_by_user?: {
+        id: string;
+        username: string;
+    };
+    message?: MessageData;
+}
+
+// Most messages that can be pinned in one room
+export const MAX_PINS_PER_CHAT = 50;
+
+export class Pin {
+    private store: ChatStore;
+    private realtime: RealtimeBus;
+
+    constructor(store: ChatStore, realtime: RealtimeBus) {
+        this.store = store;
+        this.realtime = realtime;
+    }
+
+    /**
+     * Get the pins of a chat, most recently pinned first, with who pinned them
+     */
+    async getPinsForChat(chatId: string): Promise<PinData[]> {
+        const pins = await this.store.listPins(chatId);
+
+        if (pins.length === 0) {
+            return [];
+        }
+
+        const users = await this.store.getUsers(pins.map(pin => pin.pinned_by));
+        const userMap = new Map(users.map(user => [user.id, user]));
+
+        return pins.map(pin => ({
+            ...pin,
+            pinned_by_user: userMap.get(pin.pinned_by)
+        }));
+    }
+
+    /**
+     * Get the pin of a message, if it is pinned
+     */
+    async getPin(messageId: string): Promise<PinData | null> {
+        return this.store.getPin(messageId);
+    }
+
+    /**
+     * Count the pins of a chat
+     */
+    async countPins(chatId: string): Promise<number> {
+        return this.store.countPins(chatId);
+    }
+
+    /**
+     * Pin a message to the top of its chat
+     */
+    async pinMessage(message: MessageData, userId: string): Promise<PinData | null> {
+        return this.store.insertPin({
+            message_id: message.id,
+            chat_id: message.chat_id,
+            pinned_by: userId,
+            pinned_at: new Date().toISOString()
+        });
+    }
+
+    /**
+     * Unpin a message. Returns the removed pin, or null if the message was not pinned.
+     */
+    async unpinMessage(messageId: string): Promise<PinData | null> {
+        return this.store.deletePin(messageId);
+    }
+
+    /**
+     * Let everyone in the room update its pinned messages
+     */
+    async publishPinEvent(name: 'pin.added' | 'pin.removed', pin: PinData): Promise<void> {
+        try {
+            await Promise.all(getChatChannelNames(pin.chat_id).map(channelName =>
+                this.realtime.publish(channelName, name, pin)
+            ));
+        } catch (error) {
+            console.error(`Error publishing ${name}:`, error);
+        }
+    }
+}
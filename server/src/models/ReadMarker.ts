@@ -0,0 +1,145 @@
+import { ReadMarker as WireReadMarker } from 'shared';
+import { MessageData, getChatChannelNames } from './Message';
+import { ChatStore } from '../store/ChatStore';
+import { RealtimeBus } from '../realtime/RealtimeBus';
+
+// How far a user has read in a chat
+export interface ReadMarkerData {
+    user_id: string;
+    chat_id: string;
+    last_read_message_id: string | null;
+    read_at: string;
+    user?: {
+        id: string;
+        username: string;
+    };
+}
+
+// Unread messages in a chat for one user, and how many of them mention the user
+export interface UnreadCountData {
+    chat_id: string;
+    unread_count: number;
+    mention_count: number;
+}
+
+/**
+ * Check whether message a comes after message b, using the same (created_at, id) order as history pages
+ */
+function isAfter(a: Pick<MessageData, 'created_at' | 'id'>, b: Pick<MessageData, 'created_at' | 'id'>): boolean {
+    const aTime = new Date(a.created_at).getTime();
+    const bTime = new Date(b.created_at).getTime();
+    return aTime > bTime || (aTime === bTime && a.id > b.id);
+}
+
+export class ReadMarker {
+    private store: ChatStore;
+    private realtime: RealtimeBus;
+
+    constructor(store: ChatStore, realtime: RealtimeBus) {
+        this.store = store;
+        this.realtime = realtime;
+    }
+
+    /**
+     * Get everyone's read markers in a chat with their usernames
+     */
+    async getMarkersForChat(chatId: string): Promise<ReadMarkerData[]> {
+        const markers = await this.store.listReadMarkers(chatId);
+
+        if (markers.length === 0) {
+            return [];
+        }
+
+        const users = await this.store.getUsers(markers.map(m => m.user_id));
+        const userMap = new Map(users.map(user => [user.id, user]));
+
+        return markers.map(marker => ({
+            ...marker,
+            user: userMap.get(marker.user_id)
+        }));
+    }
+
+    /**
+     * Get a user's read marker in a chat
+     */
+    async getMarker(userId: string, chatId: string): Promise<ReadMarkerData | null> {
+        return this.store.getReadMarker(userId, chatId);
+    }
+
+    /**
+     * Move a user's read marker to a message. Markers only move forward, so the
+     * existing marker is returned unchanged if it is already at or past the message.
+     */
+    async advanceMarker(userId: string, message: MessageData): Promise<{ marker: ReadMarkerData | null; changed: boolean }> {
+        try {
+            const existing = await this.getMarker(userId, message.chat_id);
+
+            if (existing?.last_read_message_id) {
+                const current = await this.store.getMessage(existing.last_read_message_id);
+
+                if (current && !isAfter(message, current)) {
+                    return { marker: existing, changed: false };
+                }
+            }
+
+            const marker = await this.store.upsertReadMarker({
+                user_id: userId,
+                chat_id: message.chat_id,
+                last_read_message_id: message.id,
+                read_at: new Date().toISOString()
+            });
+
+            return { marker, changed: !!marker };
+        } catch (error) {
+            console.error('Exception saving read marker:', error);
+            return { marker: null, changed: false };
+        }
+    }
+
+    /**
+     * Count the unread top-level messages from others in each chat, and the ones mentioning the user
+     */
+    async getUnreadCounts(userId: string, chatIds: string[]): Promise<UnreadCountData[]> {
+        if (chatIds.length === 0) {
+            return [];
+        }
+
+        try {
+            const markers = await this.store.listReadMarkersForUser(userId, chatIds);
+
+            // Find when each marker's message was sent
+            const markerMessageIds = markers
+                .map(marker => marker.last_read_message_id)
+                .filter((id): id is string => !!id);
+            const readUpTo = new Map<string, string>();
+
+            if (markerMessageIds.length > 0) {
+                const markerMessages = await this.store.getMessages(markerMessageIds);
+                markerMessages.forEach(message => readUpTo.set(message.chat_id, message.created_at));
+            }
+
+            return await Promise.all(chatIds.map(chatId =>
+                this.store.countUnreadMessages(chatId, userId, readUpTo.get(chatId))
+            ));
+        } catch (error) {
+            console.error('Exception counting unread messages:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Let the others in a chat know how far a user has read
+     */
+    async publishMarker(marker: ReadMarkerData, username: string): Promise<void> {
+        try {
+            await Promise.all(getChatChannelNames(marker.chat_id).map(channelName =>
+                this.realtime.publish(channelName, 'read.updated', {
+                    ...marker,
+                    user: { id: marker.user_id, username }
+                } satisfies WireReadMarker)
+            ));
+        } catch (error) {
+            console.error('Error publishing read marker:', error);
+        }
+    }
+}
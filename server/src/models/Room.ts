@@ -0,0 +1,254 @@
+import { ChatStore } from '../store/ChatStore';
+import { RealtimeBus } from '../realtime/RealtimeBus';
+
+// Define room interface
+export interface RoomData {
+    id: string;
+    name: string;
+    description: string;
+    created_by: string | null;
+    created_at: string;
+    updated_at: string;
+    archived_at: string | null;
+    is_private: boolean;
+}
+
+export type RoomRole = 'owner' | 'admin' | 'member';
+
+export const ROOM_ROLES: RoomRole[] = ['owner', 'admin', 'member'];
+
+// Room as seen by a particular user, with their role if they are a member
+export interface RoomWithRole extends RoomData {
+    role: RoomRole | null;
+}
+
+export interface RoomMemberData {
+    room_id: string;
+    user_id: string;
+    role: RoomRole;
+    joined_at: string;
+    user?: {
+        id: string;
+        username: string;
+    };
+}
+
+export const MAX_ROOM_NAME_LENGTH = 50;
+export const MAX_ROOM_DESCRIPTION_LENGTH = 200;
+
+/**
+ * Turn a room name into a channel-safe room ID
+ */
+export function slugifyRoomName(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .substring(0, MAX_ROOM_NAME_LENGTH) || 'room';
+}
+
+/**
+ * Check a room name and description, returning an error message if either is invalid
+ */
+export function validateRoomInput(name: unknown, description: unknown): string | null {
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+        return 'Room name is required';
+    }
+    if (typeof name === 'string' && name.trim().length > MAX_ROOM_NAME_LENGTH) {
+        return `Room name must be at most ${MAX_ROOM_NAME_LENGTH} characters`;
+    }
+    if (description !== undefined && typeof description !== 'string') {
+        return 'Room description must be text';
+    }
+    if (typeof description === 'string' && description.trim().length > MAX_ROOM_DESCRIPTION_LENGTH) {
+        return `Room description must be at most ${MAX_ROOM_DESCRIPTION_LENGTH} characters`;
+    }
+    return null;
+}
+
+export class Room {
+    private store: ChatStore;
+    private realtime: RealtimeBus;
+
+    constructor(store: ChatStore, realtime: RealtimeBus) {
+        this.store = store;
+        this.realtime = realtime;
+    }
+
+    /**
+     * Get all rooms that have not been archived
+     */
+    async getRooms(): Promise<RoomData[]> {
+        return this.store.listRooms();
+    }
+
+    /**
+     * Get room by ID, including archived rooms
+     */
+    async getRoomById(roomId: string): Promise<RoomData | null> {
+        return this.store.getRoom(roomId);
+    }
+
+    /**
+     * Get the rooms a user can see: all public rooms plus private rooms they belong to
+     */
+    async getRoomsForUser(userId: string): Promise<RoomWithRole[]> {
+        const [rooms, memberships] = await Promise.all([
+            this.getRooms(),
+            this.getMembershipsForUser(userId)
+        ]);
+
+        const roles = new Map(memberships.map(m => [m.room_id, m.role]));
+
+        return rooms
+            .filter(room => !room.is_private || roles.has(room.id))
+            .map(room => ({
+                ...room,
+                role: roles.get(room.id) || (room.created_by === userId ? 'owner' : null)
+            }));
+    }
+
+    /**
+     * Get all room memberships of a user
+     */
+    async getMembershipsForUser(userId: string): Promise<RoomMemberData[]> {
+        return this.store.listMemberships(userId);
+    }
+
+    /**
+     * Get a user's role in a room, or null if they are not a member.
+     * Room creators are treated as owners even without a membership row.
+     */
+    async getRole(room: RoomData, userId: string): Promise<RoomRole | null> {
+        const membership = await this.store.getMembership(room.id, userId);
+        return membership?.role || (room.created_by === userId ? 'owner' : null);
+    }
+
+    /**
+     * Check whether a user may read and post in a room
+     */
+    async canAccess(room: RoomData, userId: string): Promise<boolean> {
+        if (!room.is_private) {
+            return true;
+        }
+        return (await this.getRole(room, userId)) !== null;
+    }
+
+    /**
+     * Check whether a user can manage a room (owners and admins)
+     */
+    async canManage(room: RoomData, userId: string): Promise<boolean> {
+        const role = await this.getRole(room, userId);
+        return role === 'owner' || role === 'admin';
+    }
+
+    /**
+     * Get the members of a room with their usernames
+     */
+    async getMembers(roomId: string): Promise<RoomMemberData[]> {
+        const members = await this.store.listRoomMembers(roomId);
+
+        if (members.length === 0) {
+            return [];
+        }
+
+        const users = await this.store.getUsers(members.map(m => m.user_id));
+        const userMap = new Map(users.map(user => [user.id, user]));
+
+        return members.map(member => ({
+            ...member,
+            user: userMap.get(member.user_id)
+        }));
+    }
+
+    /**
+     * Add a user to a room, or change their role if they are already a member
+     */
+    async addMember(roomId: string, userId: string, role: RoomRole): Promise<RoomMemberData | null> {
+        return this.store.upsertRoomMember({
+            room_id: roomId,
+            user_id: userId,
+            role,
+            joined_at: new Date().toISOString()
+        });
+    }
+
+    /**
+     * Change the role of an existing member
+     */
+    async updateMemberRole(roomId: string, userId: string, role: RoomRole): Promise<RoomMemberData | null> {
+        return this.store.updateRoomMemberRole(roomId, userId, role);
+    }
+
+    /**
+     * Remove a user from a room
+     */
+    async removeMember(roomId: string, userId: string): Promise<boolean> {
+        return this.store.deleteRoomMember(roomId, userId);
+    }
+
+    /**
+     * Create a new room, deriving a unique ID from its name.
+     * The creator becomes the room owner.
+     */
+    async createRoom(name: string, description: string, createdBy: string, isPrivate: boolean = false): Promise<RoomData | null> {
+        try {
+            const slug = slugifyRoomName(name);
+            const existing = await this.getRoomById(slug);
+            const roomId = existing ? `${slug}-${Math.random().toString(36).substring(2, 8)}` : slug;
+
+            const data = await this.store.insertRoom({
+                id: roomId,
+                name,
+                description,
+                is_private: isPrivate,
+                created_by: createdBy,
+                created_at: new Date().toISOString(),
+                updated_at: new Date().toISOString()
+            });
+
+            if (!data) {
+                return null;
+            }
+
+            await this.addMember(roomId, createdBy, 'owner');
+
+            return data;
+        } catch (error) {
+            console.error('Exception creating room:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Rename a room or change its description
+     */
+    async updateRoom(roomId: string, changes: { name?: string; description?: string }): Promise<RoomData | null> {
+        return this.store.updateRoom(roomId, {
+            ...changes,
+            updated_at: new Date().toISOString()
+        });
+    }
+
+    /**
+     * Archive a room; its messages are kept but it is no longer listed
+     */
+    async archiveRoom(roomId: string): Promise<RoomData | null> {
+        return this.store.updateRoom(roomId, {
+            archived_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+        });
+    }
+
+    /**
+     * Tell clients that a room changed. Only the room ID is sent so that private rooms
+     * are not revealed; clients refetch the rooms they can see.
+     */
+    async publishRoomsUpdated(roomId: string): Promise<void> {
+        try {
+            await this.realtime.publish('rooms', 'updated', { roomId });
+        } catch (error) {
+            console.error('Error publishing room list:', error);
+        }
+    }
+}
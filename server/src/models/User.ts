@@ -1,5 +1,6 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import * as Ably from 'ably';
+import { PresenceDataSchema, UserListEntry, parsePayload } from 'shared';
+import { ChatStore } from '../store/ChatStore';
+import { PresenceMember, RealtimeBus } from '../realtime/RealtimeBus';
 
 // Define user interface
 export interface UserData {
@@ -10,91 +11,75 @@ export interface UserData {
     lastSeen?: Date;
 }
 
-export class User {
-    private supabase: SupabaseClient;
-    private ably: Ably.Realtime;
-    private presenceChannel: Ably.RealtimeChannel;
+// A user's online status as stored in the database (lowercase column names)
+export interface UserStatusRow {
+    id: string;
+    username: string;
+    isonline: boolean;
+    lastseen: string | null;
+}
 
-    constructor(supabaseUrl: string, supabaseKey: string, ablyClient: Ably.Realtime) {
-        // Initialize Supabase client with service role key for admin operations
-        // This bypasses RLS policies for server-side operations
-        const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+// A user as stored in the database
+export interface UserRow extends UserStatusRow {
+    email: string;
+}
 
-        if (!serviceRoleKey) {
-            console.warn('SUPABASE_SERVICE_ROLE_KEY not set - using anon key instead');
-        }
+/**
+ * Map a stored user to the entry sent to clients in the user list
+ */
+export function toUserListEntry(row: UserStatusRow): UserListEntry {
+    return {
+        id: row.id,
+        username: row.username,
+        isOnline: row.isonline,
+        lastSeen: row.lastseen
+    };
+}
 
-        this.supabase = createClient(
-            supabaseUrl,
-            serviceRoleKey || supabaseKey // Use service role key if available, otherwise fall back to anon key
-        );
+/**
+ * Map a stored user to user data
+ */
+function toUserData(row: UserRow): UserData {
+    return {
+        id: row.id,
+        username: row.username,
+        email: row.email,
+        isOnline: row.isonline,
+        lastSeen: row.lastseen ? new Date(row.lastseen) : undefined
+    };
+}
+
+export class User {
+    private store: ChatStore;
+    private realtime: RealtimeBus;
 
-        this.ably = ablyClient;
-        this.presenceChannel = this.ably.channels.get('presence');
+    constructor(store: ChatStore, realtime: RealtimeBus) {
+        this.store = store;
+        this.realtime = realtime;
     }
 
     /**
      * Get user by ID
      */
     async getUserById(userId: string): Promise<UserData | null> {
-        const { data, error } = await this.supabase
-            .from('users')
-            .select('*')
-            .eq('id', userId)
-            .single();
-
-        if (error) {
-            console.error('Error fetching user:', error);
-            return null;
-        }
-
-        return data as UserData;
+        const row = await this.store.getUser(userId);
+        return row ? toUserData(row) : null;
     }
 
     /**
-     * Update user's online status
+     * Get all users with their online status
      */
-    async updateOnlineStatus(userId: string, isOnline: boolean): Promise<boolean> {
-        const { error } = await this.supabase
-            .from('users')
-            .update({
-                isonline: isOnline,
-                lastseen: isOnline ? null : new Date()
-            })
-            .eq('id', userId);
-
-        if (error) {
-            console.error('Error updating online status:', error);
-            return false;
-        }
-
-        // Publish the online status change to Ably
-        await this.publishOnlineStatus(userId, isOnline);
-        return true;
+    async getAllUsers(): Promise<UserListEntry[]> {
+        const rows = await this.store.listUsers();
+        return rows.map(toUserListEntry);
     }
 
     /**
-     * Publish user online status to Ably
+     * Update user's online status. Presence is left to the user's own clients, which enter the
+     * presence channel themselves and leave it when they disconnect.
      */
-    private async publishOnlineStatus(userId: string, isOnline: boolean): Promise<void> {
-        try {
-            const user = await this.getUserById(userId);
-            if (!user) return;
-
-            if (isOnline) {
-                // Enter presence set
-                await this.presenceChannel.presence.enter({
-                    userId: user.id,
-                    username: user.username,
-                    isonline: true
-                });
-            } else {
-                // Leave presence set
-                await this.presenceChannel.presence.leave();
-            }
-        } catch (error) {
-            console.error('Error publishing online status:', error);
-        }
+    async updateOnlineStatus(userId: string, isOnline: boolean): Promise<boolean> {
+        return this.store.updateUserStatus(userId, isOnline);
     }
 
     /**
@@ -106,17 +91,33 @@ export class User {
     }
 
     /**
-     * Setup presence listeners for real-time online status updates
+     * Setup presence listeners for real-time online status updates. The user is the member's
+     * client ID, which the realtime backend verifies; members whose data names anyone else are ignored.
      */
     setupPresenceListeners(callback: (userId: string, isOnline: boolean) => void): void {
-        this.presenceChannel.presence.subscribe('enter', (member) => {
-            const userData = member.data as { userId: string };
-            callback(userData.userId, true);
+        const presenceUserId = (member: PresenceMember): string | null => {
+            const userData = parsePayload(PresenceDataSchema, member.data, 'presence data');
+            if (!userData) return null;
+
+            if (userData.userId !== member.clientId) {
+                console.error(`Ignoring presence data for user ${userData.userId} from client ${member.clientId}`);
+                return null;
+            }
+            return member.clientId;
+        };
+
+        this.realtime.subscribePresence('presence', 'enter', (member) => {
+            const userId = presenceUserId(member);
+            if (userId) {
+                callback(userId, true);
+            }
         });
 
-        this.presenceChannel.presence.subscribe('leave', (member) => {
-            const userData = member.data as { userId: string };
-            callback(userData.userId, false);
+        this.realtime.subscribePresence('presence', 'leave', (member) => {
+            const userId = presenceUserId(member);
+            if (userId) {
+                callback(userId, false);
+            }
         });
     }
 
@@ -127,28 +128,14 @@ export class User {
         try {
             console.log(`Creating user profile for ID: ${userId}, username: ${username}`);
 
-            // Use service role key for admin operations to bypass RLS
-            const { data, error } = await this.supabase
-                .from('users')
-                .insert({
-                    id: userId,
-                    email,
-                    username,
-                    isonline: true,
-                    lastseen: new Date().toISOString(),
-                    created_at: new Date().toISOString(),
-                    updated_at: new Date().toISOString()
-                })
-                .select()
-                .single();
-
-            if (error) {
-                console.error('Error creating user profile:', error);
+            const data = await this.store.insertUser({ id: userId, email, username });
+
+            if (!data) {
                 return null;
             }
 
             console.log('User profile created successfully:', data);
-            return data as UserData;
+            return toUserData(data);
         } catch (error) {
             console.error('Exception during user creation:', error);
             return null;
@@ -0,0 +1,201 @@
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+import { LinkMetadata, LinkPreviewFetcher } from './LinkPreviewFetcher';
+import { parseOpenGraph } from './openGraph';
+
+export interface HttpLinkPreviewFetcherOptions {
+    // Time allowed for the whole fetch, redirects included
+    timeoutMs?: number;
+    // Most bytes of a page that are read; the metadata is near the top
+    maxBytes?: number;
+    maxRedirects?: number;
+    // Lets tests fetch from a server on localhost; never set in production
+    allowPrivateAddresses?: boolean;
+}
+
+// Defaults: 5 seconds and 512 KB
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.LINK_PREVIEW_TIMEOUT_MS || '5000');
+const DEFAULT_MAX_BYTES = parseInt(process.env.LINK_PREVIEW_MAX_KB || '512') * 1024;
+const DEFAULT_MAX_REDIRECTS = 3;
+
+const USER_AGENT = 'ChatLinkPreview/1.0';
+
+// Loopback, private networks, link-local (where cloud metadata services live), and other
+// ranges that are not on the public internet. IPv4-mapped IPv6 addresses, such as
+// ::ffff:127.0.0.1, are checked against the IPv4 ranges; the deprecated IPv4-compatible
+// form, such as ::127.0.0.1, is blocked as a whole with ::/96, which also covers :: and ::1.
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.0.2.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['198.51.100.0', 24],
+    ['203.0.113.0', 24],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4]
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 96],
+    ['64:ff9b::', 96],
+    ['100::', 64],
+    ['2001:db8::', 32],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8]
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Check whether an IP address is on the public internet, and so safe for the server to fetch from
+ */
+export function isPublicAddress(address: string): boolean {
+    const family = net.isIP(address);
+    if (family === 0) {
+        return false;
+    }
+    return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// The outcome of a single request: a redirect to follow, or the start of an HTML page
+interface PageResponse {
+    redirect?: string;
+    html: string | null;
+}
+
+/**
+ * Fetch link previews over HTTP(S). Requests to private and reserved addresses are refused,
+ * including after redirects and whatever a hostname resolves to, and each fetch is limited
+ * in time and size.
+ */
+export class HttpLinkPreviewFetcher implements LinkPreviewFetcher {
+    private timeoutMs: number;
+    private maxBytes: number;
+    private maxRedirects: number;
+    private allowPrivateAddresses: boolean;
+
+    constructor(options: HttpLinkPreviewFetcherOptions = {}) {
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+        this.maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+        this.allowPrivateAddresses = options.allowPrivateAddresses ?? false;
+    }
+
+    async fetchMetadata(url: string): Promise<LinkMetadata | null> {
+        const deadline = Date.now() + this.timeoutMs;
+
+        try {
+            let target = new URL(url);
+            for (let redirects = 0; ; redirects++) {
+                const response = await this.request(target, deadline);
+                if (response.redirect === undefined) {
+                    return response.html === null ? null : parseOpenGraph(response.html, target.href);
+                }
+                if (redirects >= this.maxRedirects) {
+                    return null;
+                }
+                target = new URL(response.redirect, target);
+            }
+        } catch (error) {
+            console.warn(`Could not fetch link preview for ${url}:`, error instanceof Error ? error.message : error);
+            return null;
+        }
+    }
+
+    private isAllowedAddress(address: string): boolean {
+        return this.allowPrivateAddresses || isPublicAddress(address);
+    }
+
+    /**
+     * Resolve a hostname for a request, refusing it if any of its addresses is not allowed.
+     * Checking the addresses actually connected to also defeats DNS rebinding.
+     */
+    private lookup: net.LookupFunction = (hostname, options, callback) => {
+        dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+            if (error) {
+                callback(error, '', 0);
+                return;
+            }
+            if (addresses.length === 0 || addresses.some(entry => !this.isAllowedAddress(entry.address))) {
+                callback(new Error(`Refusing to fetch from ${hostname}: not a public address`), '', 0);
+                return;
+            }
+            if (options.all) {
+                callback(null, addresses);
+            } else {
+                callback(null, addresses[0].address, addresses[0].family);
+            }
+        });
+    };
+
+    private request(target: URL, deadline: number): Promise<PageResponse> {
+        if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+            return Promise.reject(new Error(`Unsupported protocol ${target.protocol}`));
+        }
+
+        // Addresses in the URL itself are not looked up, so they are checked here
+        const hostname = target.hostname.replace(/^\[|\]$/g, '');
+        if (net.isIP(hostname) && !this.isAllowedAddress(hostname)) {
+            return Promise.reject(new Error(`Refusing to fetch from ${hostname}: not a public address`));
+        }
+
+        const remainingMs = deadline - Date.now();
+        if (remainingMs <= 0) {
+            return Promise.reject(new Error('Timed out'));
+        }
+
+        return new Promise((resolve, reject) => {
+            const client = target.protocol === 'https:' ? https : http;
+            const request = client.get(target, {
+                headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml' },
+                lookup: this.lookup
+            }, response => {
+                const status = response.statusCode || 0;
+
+                if (status >= 300 && status < 400 && response.headers.location) {
+                    response.destroy();
+                    resolve({ redirect: response.headers.location, html: null });
+                    return;
+                }
+
+                const contentType = response.headers['content-type'] || '';
+                if (status !== 200 || !/^(text\/html|application\/xhtml\+xml)/i.test(contentType)) {
+                    response.destroy();
+                    resolve({ html: null });
+                    return;
+                }
+
+                const chunks: Buffer[] = [];
+                let size = 0;
+                const finish = () => resolve({ html: Buffer.concat(chunks).subarray(0, this.maxBytes).toString('utf8') });
+
+                response.on('data', (chunk: Buffer) => {
+                    chunks.push(chunk);
+                    size += chunk.length;
+                    // Stop reading large pages once the limit is reached
+                    if (size >= this.maxBytes) {
+                        response.destroy();
+                        finish();
+                    }
+                });
+                response.on('end', finish);
+                response.on('error', reject);
+            });
+
+            const timer = setTimeout(() => request.destroy(new Error('Timed out')), remainingMs);
+            request.on('close', () => clearTimeout(timer));
+            request.on('error', reject);
+        });
+    }
+}
@@ -0,0 +1,13 @@
+// What a link preview shows about a web page, from its OpenGraph tags or title
+export interface LinkMetadata {
+    title: string | null;
+    description: string | null;
+    image_url: string | null;
+    site_name: string | null;
+}
+
+// Fetches the metadata of the pages linked in messages
+export interface LinkPreviewFetcher {
+    // Resolves to null when the page cannot be fetched or has nothing to show
+    fetchMetadata(url: string): Promise<LinkMetadata | null>;
+}
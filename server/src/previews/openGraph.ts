@@ -0,0 +1,94 @@
+import { LinkMetadata } from './LinkPreviewFetcher';
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 300;
+
+const META_TAG = /<meta\s[^>]*>/gi;
+const ATTRIBUTE = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+const TITLE_TAG = /<title[^>]*>([\s\S]*?)<\/title>/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' '
+};
+
+/**
+ * Decode the HTML entities in a tag attribute or title
+ */
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+        if (name[0] === '#') {
+            const codePoint = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+            return codePoint > 0 && codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : entity;
+        }
+        return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    });
+}
+
+/**
+ * Tidy a piece of page text for display: decoded, on one line and not too long
+ */
+function cleanText(text: string | undefined, maxLength: number): string | null {
+    if (!text) return null;
+    const cleaned = decodeEntities(text).replace(/\s+/g, ' ').trim();
+    if (!cleaned) return null;
+    return cleaned.length > maxLength ? `${cleaned.slice(0, maxLength - 1)}…` : cleaned;
+}
+
+/**
+ * Read the preview metadata of an HTML page from its OpenGraph and Twitter card tags,
+ * falling back to its <title> and description. Returns null when there is neither a title
+ * nor a description to show.
+ */
+export function parseOpenGraph(html: string, pageUrl: string): LinkMetadata | null {
+    // The first value of each property or name wins
+    const properties = new Map<string, string>();
+    for (const [tag] of html.matchAll(META_TAG)) {
+        const attributes = new Map<string, string>();
+        for (const match of tag.matchAll(ATTRIBUTE)) {
+            attributes.set(match[1].toLowerCase(), match[2] ?? match[3] ?? match[4]);
+        }
+
+        const key = (attributes.get('property') || attributes.get('name'))?.toLowerCase();
+        const content = attributes.get('content');
+        if (key && content !== undefined && !properties.has(key)) {
+            properties.set(key, content);
+        }
+    }
+
+    const title = cleanText(
+        properties.get('og:title') || properties.get('twitter:title') || TITLE_TAG.exec(html)?.[1],
+        MAX_TITLE_LENGTH
+    );
+    const description = cleanText(
+        properties.get('og:description') || properties.get('twitter:description') || properties.get('description'),
+        MAX_DESCRIPTION_LENGTH
+    );
+    if (!title && !description) {
+        return null;
+    }
+
+    // Images may be given relative to the page; only web images are shown
+    let imageUrl: string | null = null;
+    const image = properties.get('og:image') || properties.get('og:image:url') || properties.get('twitter:image');
+    if (image) {
+        try {
+            const url = new URL(decodeEntities(image.trim()), pageUrl);
+            imageUrl = ['http:', 'https:'].includes(url.protocol) ? url.href : null;
+        } catch {
+            imageUrl = null;
+        }
+    }
+
+    return {
+        title,
+        description,
+        image_url: imageUrl,
+        site_name: cleanText(properties.get('og:site_name'), MAX_TITLE_LENGTH)
+            || new URL(pageUrl).hostname.replace(/^www\./, '')
+    };
+}
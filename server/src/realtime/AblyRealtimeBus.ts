@@ -0,0 +1,43 @@
+import * as Ably from 'ably';
+import { RealtimeBus, RealtimeMessage, PresenceAction, PresenceMember, ClientToken } from './RealtimeBus';
+import { ChannelCapability } from './capabilities';
+
+/**
+ * Carries events over Ably; clients connect to Ably directly with token requests signed by the server
+ */
+export class AblyRealtimeBus implements RealtimeBus {
+    private ably: Ably.Realtime;
+
+    constructor(apiKey: string) {
+        this.ably = new Ably.Realtime({ key: apiKey });
+    }
+
+    async publish(channel: string, name: string, data: unknown): Promise<void> {
+        await this.ably.channels.get(channel).publish(name, data);
+    }
+
+    subscribe(channel: string, name: string, listener: (message: RealtimeMessage) => void): void {
+        this.ably.channels.get(channel).subscribe(name, message => listener({
+            name: message.name || name,
+            data: message.data,
+            clientId: message.clientId
+        }));
+    }
+
+    subscribePresence(channel: string, action: PresenceAction, listener: (member: PresenceMember) => void): void {
+        this.ably.channels.get(channel).presence.subscribe(action, member => listener({
+            clientId: member.clientId,
+            data: member.data,
+            action
+        }));
+    }
+
+    async createClientToken(clientId: string, capability: ChannelCapability, ttlMs: number): Promise<ClientToken> {
+        const tokenRequest = await this.ably.auth.createTokenRequest({ clientId, capability, ttl: ttlMs });
+        return { backend: 'ably', token: tokenRequest };
+    }
+
+    attach(): void {
+        // Clients connect to Ably rather than to the API server
+    }
+}
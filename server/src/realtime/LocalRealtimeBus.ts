@@ -0,0 +1,260 @@
+import { Server, IncomingMessage } from 'http';
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { RealtimeBus, RealtimeMessage, PresenceAction, PresenceMember, ClientToken } from './RealtimeBus';
+import { ChannelCapability, hasCapability } from './capabilities';
+
+// Clients connect to the API server at this path
+export const LOCAL_REALTIME_PATH = '/realtime';
+
+// Sent when closing a connection whose token is missing, invalid or expired; clients reconnect with a new token
+const TOKEN_ERROR_CLOSE_CODE = 4001;
+
+interface TokenPayload {
+    clientId: string;
+    capability: ChannelCapability;
+    expires: number;
+}
+
+// A request from a client. Requests with an ID are answered with an ack or nack carrying the same ID.
+interface ClientFrame {
+    id?: number;
+    action: 'auth' | 'subscribe' | 'unsubscribe' | 'presence.enter' | 'presence.update' | 'presence.leave' | 'presence.get';
+    channel?: string;
+    data?: unknown;
+    token?: string;
+}
+
+interface Connection {
+    // Identifies the connection's presence, as a client may be connected more than once
+    id: string;
+    socket: WebSocket;
+    clientId: string;
+    capability: ChannelCapability;
+    channels: Set<string>;
+    expiryTimer: NodeJS.Timeout;
+}
+
+interface Listener<T> {
+    // The event name or presence action listened for
+    name: string;
+    listener: (event: T) => void;
+}
+
+const PRESENCE_ACTIONS: Record<string, PresenceAction> = {
+    'presence.enter': 'enter',
+    'presence.update': 'update',
+    'presence.leave': 'leave'
+};
+
+/**
+ * Carries events within this process and to clients connected over a WebSocket,
+ * so the app runs without an Ably account. Clients authenticate with tokens signed by this server.
+ */
+export class LocalRealtimeBus implements RealtimeBus {
+    private secret: Buffer;
+    private listeners = new Map<string, Listener<RealtimeMessage>[]>();
+    private presenceListeners = new Map<string, Listener<PresenceMember>[]>();
+    // The members present on each channel, keyed by connection
+    private members = new Map<string, Map<string, PresenceMember>>();
+    private connections = new Set<Connection>();
+
+    constructor(secret?: string) {
+        // Without a configured secret, tokens stop working when the server restarts and clients fetch new ones
+        this.secret = secret ? Buffer.from(secret) : randomBytes(32);
+    }
+
+    async publish(channel: string, name: string, data: unknown): Promise<void> {
+        this.listeners.get(channel)
+            ?.filter(entry => entry.name === name)
+            .forEach(entry => entry.listener({ name, data }));
+
+        this.sendToChannel(channel, { action: 'message', channel, message: { name, data } });
+    }
+
+    subscribe(channel: string, name: string, listener: (message: RealtimeMessage) => void): void {
+        this.listeners.set(channel, [...(this.listeners.get(channel) || []), { name, listener }]);
+    }
+
+    subscribePresence(channel: string, action: PresenceAction, listener: (member: PresenceMember) => void): void {
+        this.presenceListeners.set(channel, [...(this.presenceListeners.get(channel) || []), { name: action, listener }]);
+    }
+
+    async createClientToken(clientId: string, capability: ChannelCapability, ttlMs: number): Promise<ClientToken> {
+        const payload: TokenPayload = { clientId, capability, expires: Date.now() + ttlMs };
+        const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+        return { backend: 'local', token: `${encoded}.${this.sign(encoded)}` };
+    }
+
+    attach(server: Server): void {
+        const wss = new WebSocketServer({ server, path: LOCAL_REALTIME_PATH });
+        wss.on('connection', (socket, req) => this.handleConnection(socket, req));
+        console.log(`Serving realtime clients at ${LOCAL_REALTIME_PATH}`);
+    }
+
+    private sign(encoded: string): string {
+        return createHmac('sha256', this.secret).update(encoded).digest('base64url');
+    }
+
+    /**
+     * Check a client token, returning its payload if it is valid and has not expired
+     */
+    private verifyToken(token: string | null | undefined): TokenPayload | null {
+        const [encoded, signature] = (token || '').split('.');
+        if (!encoded || !signature) {
+            return null;
+        }
+
+        const expected = Buffer.from(this.sign(encoded));
+        const actual = Buffer.from(signature);
+        if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+            return null;
+        }
+
+        try {
+            const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as TokenPayload;
+            return payload.expires > Date.now() ? payload : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private handleConnection(socket: WebSocket, req: IncomingMessage): void {
+        const token = new URL(req.url || '', 'http://localhost').searchParams.get('token');
+        const payload = this.verifyToken(token);
+        if (!payload) {
+            socket.close(TOKEN_ERROR_CLOSE_CODE, 'Invalid or expired token');
+            return;
+        }
+
+        const connection: Connection = {
+            id: randomUUID(),
+            socket,
+            clientId: payload.clientId,
+            capability: payload.capability,
+            channels: new Set(),
+            expiryTimer: this.closeWhenExpired(socket, payload.expires)
+        };
+        this.connections.add(connection);
+
+        socket.on('message', raw => this.handleFrame(connection, raw.toString()));
+        socket.on('close', () => {
+            clearTimeout(connection.expiryTimer);
+            this.connections.delete(connection);
+            this.members.forEach((members, channel) => {
+                if (members.has(connection.id)) {
+                    this.setPresence(channel, connection.id, connection.clientId, undefined, 'leave');
+                }
+            });
+        });
+    }
+
+    private closeWhenExpired(socket: WebSocket, expires: number): NodeJS.Timeout {
+        return setTimeout(() => socket.close(TOKEN_ERROR_CLOSE_CODE, 'Token expired'), expires - Date.now());
+    }
+
+    private handleFrame(connection: Connection, raw: string): void {
+        let frame: ClientFrame;
+        try {
+            frame = JSON.parse(raw);
+        } catch {
+            return;
+        }
+
+        const { id, action, channel = '' } = frame;
+        const reply = (error: string | null, result?: unknown) => {
+            if (id !== undefined) {
+                this.send(connection, error ? { action: 'nack', id, error } : { action: 'ack', id, result });
+            }
+        };
+
+        switch (action) {
+            case 'auth': {
+                // A new token, e.g. after the client joined a room; the client stays connected
+                const payload = this.verifyToken(frame.token);
+                if (!payload || payload.clientId !== connection.clientId) {
+                    return reply('Invalid or expired token');
+                }
+
+                connection.capability = payload.capability;
+                clearTimeout(connection.expiryTimer);
+                connection.expiryTimer = this.closeWhenExpired(connection.socket, payload.expires);
+
+                // Leave the channels the new token no longer allows
+                [...connection.channels]
+                    .filter(name => !hasCapability(payload.capability, name, 'subscribe'))
+                    .forEach(name => connection.channels.delete(name));
+                return reply(null);
+            }
+
+            case 'subscribe':
+                if (!hasCapability(connection.capability, channel, 'subscribe')) {
+                    return reply(`Not allowed to subscribe to ${channel}`);
+                }
+                connection.channels.add(channel);
+                return reply(null);
+
+            case 'unsubscribe':
+                connection.channels.delete(channel);
+                return reply(null);
+
+            case 'presence.enter':
+            case 'presence.update':
+            case 'presence.leave':
+                if (!hasCapability(connection.capability, channel, 'presence')) {
+                    return reply(`Not allowed to use presence on ${channel}`);
+                }
+                this.setPresence(channel, connection.id, connection.clientId, frame.data, PRESENCE_ACTIONS[action]);
+                return reply(null);
+
+            case 'presence.get':
+                if (!hasCapability(connection.capability, channel, 'subscribe')) {
+                    return reply(`Not allowed to subscribe to ${channel}`);
+                }
+                return reply(null, [...(this.members.get(channel)?.values() || [])]);
+
+            default:
+                return reply(`Unknown action: ${action}`);
+        }
+    }
+
+    /**
+     * Enter, update or leave a channel's presence, telling listeners in the same way as Ably:
+     * entering again counts as an update, and leaving without having entered does nothing
+     */
+    private setPresence(channel: string, key: string, clientId: string, data: unknown, action: PresenceAction): void {
+        const members = this.members.get(channel) || new Map<string, PresenceMember>();
+        const existing = members.get(key);
+
+        let member: PresenceMember;
+        if (action === 'leave') {
+            if (!existing) return;
+            members.delete(key);
+            member = { clientId, data: data ?? existing.data, action: 'leave' };
+        } else {
+            member = { clientId, data, action: existing ? 'update' : 'enter' };
+            members.set(key, { clientId, data });
+        }
+        this.members.set(channel, members);
+
+        this.presenceListeners.get(channel)
+            ?.filter(entry => entry.name === member.action)
+            .forEach(entry => entry.listener(member));
+
+        this.sendToChannel(channel, { action: 'presence', channel, presence: member });
+    }
+
+    private sendToChannel(channel: string, frame: object): void {
+        this.connections.forEach(connection => {
+            if (connection.channels.has(channel)) {
+                this.send(connection, frame);
+            }
+        });
+    }
+
+    private send(connection: Connection, frame: object): void {
+        if (connection.socket.readyState === WebSocket.OPEN) {
+            connection.socket.send(JSON.stringify(frame));
+        }
+    }
+}
@@ -0,0 +1,57 @@
+import { Server } from 'http';
+import { ChannelCapability } from './capabilities';
+import { AblyRealtimeBus } from './AblyRealtimeBus';
+import { LocalRealtimeBus } from './LocalRealtimeBus';
+
+// An event published on a channel
+export interface RealtimeMessage {
+    name: string;
+    data: unknown;
+    // The client that published it, if it was not the server
+    clientId?: string;
+}
+
+export type PresenceAction = 'enter' | 'update' | 'leave';
+
+// A client present on a channel, with the data it entered with
+export interface PresenceMember {
+    clientId: string;
+    data: unknown;
+    action?: PresenceAction;
+}
+
+// What a client needs to connect: the backend to use and its credentials
+export interface ClientToken {
+    backend: 'ably' | 'local';
+    token: unknown;
+}
+
+/**
+ * Carries events between the server and clients in real time
+ */
+export interface RealtimeBus {
+    publish(channel: string, name: string, data: unknown): Promise<void>;
+    subscribe(channel: string, name: string, listener: (message: RealtimeMessage) => void): void;
+    subscribePresence(channel: string, action: PresenceAction, listener: (member: PresenceMember) => void): void;
+    // Credentials for a client, limited to its channels and valid for ttlMs
+    createClientToken(clientId: string, capability: ChannelCapability, ttlMs: number): Promise<ClientToken>;
+    // Start serving clients from the API server, for backends that do not have their own
+    attach(server: Server): void;
+}
+
+/**
+ * Create the realtime backend selected by REALTIME_BUS: `ably` (the default) uses Ably with ABLY_API_KEY,
+ * `local` serves clients over a WebSocket at /realtime on the API server
+ */
+export function createRealtimeBus(): RealtimeBus {
+    const backend = process.env.REALTIME_BUS || 'ably';
+
+    switch (backend) {
+        case 'ably':
+            return new AblyRealtimeBus(process.env.ABLY_API_KEY || '');
+        case 'local':
+            return new LocalRealtimeBus(process.env.REALTIME_SECRET);
+        default:
+            throw new Error(`Unknown REALTIME_BUS backend: ${backend}`);
+    }
+}
@@ -0,0 +1,54 @@
+import * as Ably from 'ably';
+
+// Lifetime of tokens issued to clients; clients re-authenticate when it runs out. Capabilities are
+// fixed for a token's lifetime, so this bounds how long a removed member can still subscribe to a room.
+export const ABLY_TOKEN_TTL_MS = parseInt(process.env.ABLY_TOKEN_TTL_MS || '600000');
+
+export type ChannelCapability = { [channel: string]: Ably.CapabilityOp[] };
+
+/**
+ * Build the channel capabilities for a client token.
+ * Clients never publish directly: messages and user updates go through the API server,
+ * so clients only get subscribe rights plus presence on the shared presence channel.
+ * Room channels are listed one by one so that private rooms stay closed to non-members.
+ * Typing indicators use presence on a `typing:<chatId>` channel for each room and conversation.
+ */
+export function buildClientCapability(userId: string, roomIds: string[], conversationIds: string[] = []): ChannelCapability {
+    const capability: ChannelCapability = {
+        // Room list updates are published by the server
+        'rooms': ['subscribe'],
+        // Online presence
+        'presence': ['presence', 'subscribe'],
+        // Direct messages addressed to this user only
+        [`direct:${userId}`]: ['subscribe'],
+        // User list updates are published by the server
+        'users': ['subscribe'],
+        // Unread counts for this user only
+        [`notifications:${userId}`]: ['subscribe']
+    };
+
+    // Messages and thread replies in the rooms this user can see
+    roomIds.forEach(roomId => {
+        capability[`chat:${roomId}`] = ['subscribe'];
+        capability[`thread:${roomId}:*`] = ['subscribe'];
+        capability[`typing:${roomId}`] = ['presence', 'subscribe'];
+    });
+
+    // Typing indicators in direct message conversations this user takes part in
+    conversationIds.forEach(conversationId => {
+        capability[`typing:${conversationId}`] = ['presence', 'subscribe'];
+    });
+
+    return capability;
+}
+
+/**
+ * Check whether a capability allows an operation on a channel, following Ably's rules:
+ * a `*` at the end of a channel name matches any channel starting with the rest of the name
+ */
+export function hasCapability(capability: ChannelCapability, channel: string, op: Ably.CapabilityOp): boolean {
+    return Object.entries(capability).some(([pattern, ops]) =>
+        (pattern === channel || (pattern.endsWith('*') && channel.startsWith(pattern.slice(0, -1))))
+        && ops.includes(op)
+    );
+}
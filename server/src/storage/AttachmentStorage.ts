@@ -0,0 +1,27 @@
+import { LocalDiskStorage } from './LocalDiskStorage';
+import { SupabaseStorage } from './SupabaseStorage';
+
+// Where the contents of uploaded attachments are kept
+export interface AttachmentStorage {
+    put(key: string, data: Buffer, mimeType: string): Promise<void>;
+    // Resolves to null when there is nothing stored under the key
+    get(key: string): Promise<Buffer | null>;
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Create the storage backend selected by ATTACHMENT_STORAGE: `local` (the default)
+ * keeps files in ATTACHMENT_DIR, `supabase` uses the Supabase Storage bucket ATTACHMENT_BUCKET
+ */
+export function createAttachmentStorage(supabaseUrl: string, supabaseKey: string): AttachmentStorage {
+    const backend = process.env.ATTACHMENT_STORAGE || 'local';
+
+    switch (backend) {
+        case 'local':
+            return new LocalDiskStorage(process.env.ATTACHMENT_DIR || 'uploads');
+        case 'supabase':
+            return new SupabaseStorage(supabaseUrl, supabaseKey, process.env.ATTACHMENT_BUCKET || 'attachments');
+        default:
+            throw new Error(`Unknown ATTACHMENT_STORAGE backend: ${backend}`);
+    }
+}
@@ -0,0 +1,46 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AttachmentStorage } from './AttachmentStorage';
+
+/**
+ * Keep attachments as files under a directory, for development
+ */
+export class LocalDiskStorage implements AttachmentStorage {
+    private root: string;
+
+    constructor(root: string) {
+        this.root = path.resolve(root);
+    }
+
+    /**
+     * Map a storage key to a file path, refusing keys that would leave the root directory
+     */
+    private resolve(key: string): string {
+        const filePath = path.resolve(this.root, key);
+        if (!filePath.startsWith(this.root + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return filePath;
+    }
+
+    async put(key: string, data: Buffer): Promise<void> {
+        const filePath = this.resolve(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, data);
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        try {
+            return await fs.readFile(this.resolve(key));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.resolve(key), { force: true });
+    }
+}
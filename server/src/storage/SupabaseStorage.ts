@@ -0,0 +1,60 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { AttachmentStorage } from './AttachmentStorage';
+
+/**
+ * Keep attachments in a private Supabase Storage bucket, for production
+ */
+export class SupabaseStorage implements AttachmentStorage {
+    private supabase: SupabaseClient;
+    private bucket: string;
+
+    constructor(supabaseUrl: string, supabaseKey: string, bucket: string) {
+        // Initialize Supabase client with service role key for admin operations
+        const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+        if (!serviceRoleKey) {
+            console.warn('SUPABASE_SERVICE_ROLE_KEY not set - using anon key instead');
+        }
+
+        this.supabase = createClient(
+            supabaseUrl,
+            serviceRoleKey || supabaseKey
+        );
+
+        this.bucket = bucket;
+    }
+
+    async put(key: string, data: Buffer, mimeType: string): Promise<void> {
+        const { error } = await this.supabase.storage
+            .from(this.bucket)
+            .upload(key, data, { contentType: mimeType, upsert: false });
+
+        if (error) {
+            throw error;
+        }
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        const { data, error } = await this.supabase.storage
+            .from(this.bucket)
+            .download(key);
+
+        if (error) {
+            // Missing objects are reported as errors too
+            console.error('Error downloading attachment:', error);
+            return null;
+        }
+
+        return Buffer.from(await data.arrayBuffer());
+    }
+
+    async delete(key: string): Promise<void> {
+        const { error } = await this.supabase.storage
+            .from(this.bucket)
+            .remove([key]);
+
+        if (error) {
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,168 @@
+import { UserData, UserRow, UserStatusRow } from '../models/User';
+import { MessageData, MessageCursor, MessageEditData, MessageSearchOptions, MessageSearchResult, ReactionData } from '../models/Message';
+import { AttachmentData, AttachmentRow } from '../models/Attachment';
+import { LinkPreviewData, LinkPreviewRow } from '../models/LinkPreview';
+import { RoomData, RoomMemberData, RoomRole } from '../models/Room';
+import { InviteData } from '../models/Invite';
+import { ReadMarkerData, UnreadCountData } from '../models/ReadMarker';
+import { PinData } from '../models/Pin';
+import { BookmarkData } from '../models/Bookmark';
+import { SupabaseChatStore } from './SupabaseChatStore';
+import { MemoryChatStore } from './MemoryChatStore';
+
+// A user's ID and name, as shown next to what they wrote
+export interface UserSummary {
+    id: string;
+    username: string;
+}
+
+// A user as first stored when they register
+export type NewUser = Pick<UserData, 'id' | 'email' | 'username'>;
+
+// A message as first stored; the store assigns its ID
+export type NewMessage = Pick<MessageData, 'sender_id' | 'content' | 'chat_id' | 'created_at' | 'updated_at'> & {
+    recipient_id: string | null;
+    parent_id: string | null;
+};
+
+// The parts of a message that change when it is edited or deleted
+export type MessageChanges = Partial<Pick<MessageData, 'content' | 'updated_at' | 'edited_at' | 'deleted_at' | 'deleted_by'>>;
+
+// A page of a chat's top-level messages, or of one thread's replies
+export interface MessageQuery {
+    chatId: string;
+    // Replies to this message, or the top-level messages when null
+    parentId: string | null;
+    // Messages before a position come newest first, messages after it oldest first.
+    // Without either, the latest messages come newest first.
+    before?: MessageCursor;
+    after?: MessageCursor;
+    limit: number;
+}
+
+// A room as first stored
+export type NewRoom = Pick<RoomData, 'id' | 'name' | 'description' | 'is_private' | 'created_by' | 'created_at' | 'updated_at'>;
+
+// An invite as first stored; the store assigns its ID
+export type NewInvite = Pick<InviteData, 'token' | 'room_id' | 'created_by' | 'invitee_id' | 'created_at' | 'expires_at'>;
+
+// A preview of one of a message's links
+export interface MessageLinkPreview {
+    message_id: string;
+    preview: LinkPreviewData;
+}
+
+/**
+ * Where the chat's data is kept. Reads resolve to null or an empty list and writes to
+ * null or false when they fail, after logging the error, so that callers never have to catch.
+ */
+export interface ChatStore {
+    // Users
+    getUser(userId: string): Promise<UserRow | null>;
+    getUsers(userIds: string[]): Promise<UserSummary[]>;
+    getUserIdsByUsername(usernames: string[]): Promise<string[]>;
+    listUsers(): Promise<UserStatusRow[]>;
+    insertUser(user: NewUser): Promise<UserRow | null>;
+    updateUserStatus(userId: string, isOnline: boolean): Promise<boolean>;
+
+    // Messages
+    getMessage(messageId: string): Promise<MessageData | null>;
+    getMessages(messageIds: string[]): Promise<MessageData[]>;
+    listMessages(query: MessageQuery): Promise<MessageData[]>;
+    // The latest top-level message of each of a user's direct message conversations, newest first
+    listLatestDirectMessages(userId: string): Promise<MessageData[]>;
+    // Best matches first, without senders; deleted messages are never found
+    searchMessages(options: MessageSearchOptions & { limit: number }): Promise<MessageSearchResult[]>;
+    // Top-level messages from others that are not deleted, optionally only those sent after a time
+    countUnreadMessages(chatId: string, userId: string, sentAfter?: string): Promise<UnreadCountData>;
+    // Replies also raise the reply count and last reply time of their parent
+    insertMessage(message: NewMessage): Promise<MessageData | null>;
+    updateMessage(messageId: string, changes: MessageChanges): Promise<MessageData | null>;
+
+    // Replaces the content and adds the previous content to the edit history in one step,
+    // so neither is saved without the other
+    editMessage(messageId: string, content: string, editedBy: string, editedAt: string): Promise<MessageData | null>;
+    // Edit history, newest first
+    listMessageEdits(messageId: string): Promise<MessageEditData[]>;
+
+    // Reactions, oldest first; adding a reaction that exists resolves to false
+    listReactions(messageIds: string[]): Promise<ReactionData[]>;
+    insertReaction(reaction: ReactionData): Promise<boolean>;
+    deleteReaction(messageId: string, userId: string, emoji: string): Promise<boolean>;
+
+    // Mentions
+    insertMentions(messageId: string, userIds: string[]): Promise<boolean>;
+    deleteMentions(messageId: string): Promise<boolean>;
+
+    // Attachments, oldest first
+    insertAttachment(attachment: AttachmentRow): Promise<AttachmentData | null>;
+    getAttachment(attachmentId: string): Promise<AttachmentRow | null>;
+    countUnsentAttachments(attachmentIds: string[], userId: string): Promise<number>;
+    linkAttachments(attachmentIds: string[], messageId: string, userId: string): Promise<AttachmentData[]>;
+    listAttachments(messageIds: string[]): Promise<AttachmentData[]>;
+
+    // Link previews: cached pages, and the links of each message in the order they appear
+    getLinkPreviews(urls: string[]): Promise<LinkPreviewRow[]>;
+    upsertLinkPreviews(previews: LinkPreviewRow[]): Promise<boolean>;
+    insertMessageLinks(messageId: string, urls: string[]): Promise<boolean>;
+    deleteMessageLinks(messageId: string): Promise<boolean>;
+    listMessageLinkPreviews(messageIds: string[]): Promise<MessageLinkPreview[]>;
+
+    // Rooms; only listRooms leaves out archived rooms
+    listRooms(): Promise<RoomData[]>;
+    getRoom(roomId: string): Promise<RoomData | null>;
+    getRooms(roomIds: string[]): Promise<RoomData[]>;
+    insertRoom(room: NewRoom): Promise<RoomData | null>;
+    updateRoom(roomId: string, changes: Partial<Pick<RoomData, 'name' | 'description' | 'updated_at' | 'archived_at'>>): Promise<RoomData | null>;
+
+    // Room members, in the order they joined
+    listMemberships(userId: string): Promise<RoomMemberData[]>;
+    getMembership(roomId: string, userId: string): Promise<RoomMemberData | null>;
+    listRoomMembers(roomId: string): Promise<RoomMemberData[]>;
+    upsertRoomMember(member: Omit<RoomMemberData, 'user'>): Promise<RoomMemberData | null>;
+    updateRoomMemberRole(roomId: string, userId: string, role: RoomRole): Promise<RoomMemberData | null>;
+    deleteRoomMember(roomId: string, userId: string): Promise<boolean>;
+
+    // Invites
+    insertInvite(invite: NewInvite): Promise<InviteData | null>;
+    getInviteByToken(token: string): Promise<InviteData | null>;
+    // Invites addressed to a user that are neither accepted nor expired, newest first
+    listPendingInvites(userId: string): Promise<InviteData[]>;
+    markInviteAccepted(inviteId: string, userId: string): Promise<boolean>;
+    deleteInvite(inviteId: string): Promise<boolean>;
+
+    // Read markers
+    listReadMarkers(chatId: string): Promise<ReadMarkerData[]>;
+    listReadMarkersForUser(userId: string, chatIds: string[]): Promise<ReadMarkerData[]>;
+    getReadMarker(userId: string, chatId: string): Promise<ReadMarkerData | null>;
+    upsertReadMarker(marker: Omit<ReadMarkerData, 'user'>): Promise<ReadMarkerData | null>;
+
+    // Pins, most recently pinned first
+    listPins(chatId: string): Promise<PinData[]>;
+    getPin(messageId: string): Promise<PinData | null>;
+    countPins(chatId: string): Promise<number>;
+    insertPin(pin: Pick<PinData, 'message_id' | 'chat_id' | 'pinned_by' | 'pinned_at'>): Promise<PinData | null>;
+    deletePin(messageId: string): Promise<PinData | null>;
+
+    // Bookmarks, most recently saved first; saving a bookmark again replaces its note
+    listBookmarks(userId: string): Promise<BookmarkData[]>;
+    upsertBookmark(bookmark: Pick<BookmarkData, 'user_id' | 'message_id' | 'chat_id' | 'note'>): Promise<BookmarkData | null>;
+    deleteBookmark(userId: string, messageId: string): Promise<BookmarkData | null>;
+}
+
+/**
+ * Create the store selected by CHAT_STORE: `supabase` (the default) uses the Supabase project,
+ * `memory` keeps everything in this process and starts empty apart from the default rooms
+ */
+export function createChatStore(supabaseUrl: string, supabaseKey: string): ChatStore {
+    const backend = process.env.CHAT_STORE || 'supabase';
+
+    switch (backend) {
+        case 'supabase':
+            return new SupabaseChatStore(supabaseUrl, supabaseKey);
+        case 'memory':
+            return new MemoryChatStore();
+        default:
+            throw new Error(`Unknown CHAT_STORE backend: ${backend}`);
+    }
+}
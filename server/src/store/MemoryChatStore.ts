@@ -0,0 +1,667 @@
+import { randomUUID } from 'crypto';
+import { TextRange, isConversationId } from 'shared';
+import { ChatStore, UserSummary, NewUser, NewMessage, MessageChanges, MessageQuery, NewRoom, NewInvite, MessageLinkPreview } from './ChatStore';
+import { UserRow, UserStatusRow } from '../models/User';
+import { MessageData, MessageCursor, MessageEditData, MessageSearchOptions, MessageSearchResult, ReactionData } from '../models/Message';
+import { AttachmentData, AttachmentRow } from '../models/Attachment';
+import { LinkPreviewRow } from '../models/LinkPreview';
+import { RoomData, RoomMemberData, RoomRole } from '../models/Room';
+import { InviteData } from '../models/Invite';
+import { ReadMarkerData, UnreadCountData } from '../models/ReadMarker';
+import { PinData } from '../models/Pin';
+import { BookmarkData } from '../models/Bookmark';
+
+// A user as stored, with the same lowercase column names as the users table
+interface StoredUser extends UserRow {
+    created_at: string;
+    updated_at: string;
+}
+
+interface MentionRow {
+    message_id: string;
+    user_id: string;
+}
+
+interface MessageLinkRow {
+    message_id: string;
+    url: string;
+    position: number;
+}
+
+// The rooms every new database starts with, as seeded by db/schema.sql
+const DEFAULT_ROOMS: Pick<RoomData, 'id' | 'name' | 'description'>[] = [
+    { id: 'general', name: 'General Chat', description: 'Public chat room for general discussions' },
+    { id: 'tech', name: 'Tech Chat', description: 'Discuss programming, technology, and development' },
+    { id: 'resources', name: 'Resources', description: 'Share useful links and learning resources' }
+];
+
+// How many words of a message a search snippet shows, like ts_headline's MaxWords
+const SNIPPET_WORDS = 25;
+
+/**
+ * Order messages by (created_at, id), the order history pages use
+ */
+function compareMessages(a: MessageCursor, b: MessageCursor): number {
+    const byTime = Date.parse(a.createdAt) - Date.parse(b.createdAt);
+    if (byTime !== 0 || !a.id || !b.id) {
+        return byTime;
+    }
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+const toCursor = (message: MessageData): MessageCursor => ({ createdAt: message.created_at, id: message.id });
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Split a web search style query into the words or "quoted phrases" a message must contain
+ * and the -words it must not contain
+ */
+function parseSearchQuery(query: string): { include: RegExp[]; exclude: RegExp[] } {
+    const include: RegExp[] = [];
+    const exclude: RegExp[] = [];
+
+    for (const match of query.matchAll(/(-?)"([^"]+)"|(-?)(\S+)/g)) {
+        const negated = (match[1] || match[3]) === '-';
+        const term = (match[2] || match[4]).trim();
+        if (!term || (!match[2] && term.toLowerCase() === 'or')) continue;
+
+        const pattern = new RegExp(`\\b${escapeRegExp(term).replace(/\s+/g, '\\s+')}\\w*`, 'gi');
+        (negated ? exclude : include).push(pattern);
+    }
+
+    return { include, exclude };
+}
+
+/**
+ * Get the words of a message around the first match, and where the matching words are in them
+ */
+function buildSnippet(content: string, patterns: RegExp[]): { snippet: string; highlights: TextRange[] } {
+    const matches = patterns
+        .flatMap(pattern => [...content.matchAll(pattern)])
+        .map(match => ({ start: match.index!, end: match.index! + match[0].length }))
+        .sort((a, b) => a.start - b.start);
+
+    // Overlapping matches of different terms become one highlight
+    const highlights: TextRange[] = [];
+    for (const match of matches) {
+        const last = highlights[highlights.length - 1];
+        if (last && match.start <= last.end) {
+            last.end = Math.max(last.end, match.end);
+        } else {
+            highlights.push(match);
+        }
+    }
+
+    const words = [...content.matchAll(/\S+/g)].map(word => ({ start: word.index!, end: word.index! + word[0].length }));
+    if (words.length <= SNIPPET_WORDS) {
+        return { snippet: content, highlights };
+    }
+
+    const firstMatch = highlights.length > 0 ? words.findIndex(word => word.end > highlights[0].start) : 0;
+    const first = Math.max(0, Math.min(firstMatch - 5, words.length - SNIPPET_WORDS));
+    const from = words[first].start;
+    const to = words[first + SNIPPET_WORDS - 1].end;
+
+    return {
+        snippet: content.slice(from, to),
+        highlights: highlights
+            .filter(range => range.start < to && range.end > from)
+            .map(range => ({ start: Math.max(range.start, from) - from, end: Math.min(range.end, to) - from }))
+    };
+}
+
+/**
+ * Keeps the chat's data in this process, for development and tests without a Supabase project.
+ * Everything is lost when the server stops.
+ */
+export class MemoryChatStore implements ChatStore {
+    private users = new Map<string, StoredUser>();
+    private messages = new Map<string, MessageData>();
+    private edits: MessageEditData[] = [];
+    private reactions: ReactionData[] = [];
+    private mentions: MentionRow[] = [];
+    private attachments = new Map<string, AttachmentRow>();
+    private linkPreviews = new Map<string, LinkPreviewRow>();
+    private messageLinks: MessageLinkRow[] = [];
+    private rooms = new Map<string, RoomData>();
+    private roomMembers: RoomMemberData[] = [];
+    private invites = new Map<string, InviteData>();
+    private readMarkers: ReadMarkerData[] = [];
+    private pins = new Map<string, PinData>();
+    private bookmarks: BookmarkData[] = [];
+
+    constructor() {
+        const now = new Date().toISOString();
+        DEFAULT_ROOMS.forEach(room => this.rooms.set(room.id, {
+            ...room,
+            created_by: null,
+            created_at: now,
+            updated_at: now,
+            archived_at: null,
+            is_private: false
+        }));
+    }
+
+    async getUser(userId: string): Promise<UserRow | null> {
+        const user = this.users.get(userId);
+        return user ? { ...user } : null;
+    }
+
+    async getUsers(userIds: string[]): Promise<UserSummary[]> {
+        return [...new Set(userIds)]
+            .map(id => this.users.get(id))
+            .filter((user): user is StoredUser => !!user)
+            .map(user => ({ id: user.id, username: user.username }));
+    }
+
+    async getUserIdsByUsername(usernames: string[]): Promise<string[]> {
+        return [...this.users.values()]
+            .filter(user => usernames.includes(user.username))
+            .map(user => user.id);
+    }
+
+    async listUsers(): Promise<UserStatusRow[]> {
+        return [...this.users.values()].map(user => ({
+            id: user.id,
+            username: user.username,
+            isonline: user.isonline,
+            lastseen: user.lastseen
+        }));
+    }
+
+    async insertUser(user: NewUser): Promise<UserRow | null> {
+        if (this.users.has(user.id)) {
+            console.error('Error creating user profile: user already exists');
+            return null;
+        }
+
+        const now = new Date().toISOString();
+        const row: StoredUser = { ...user, isonline: true, lastseen: now, created_at: now, updated_at: now };
+        this.users.set(user.id, row);
+        return { ...row };
+    }
+
+    async updateUserStatus(userId: string, isOnline: boolean): Promise<boolean> {
+        const user = this.users.get(userId);
+        if (user) {
+            user.isonline = isOnline;
+            user.lastseen = isOnline ? null : new Date().toISOString();
+        }
+        return true;
+    }
+
+    async getMessage(messageId: string): Promise<MessageData | null> {
+        const message = this.messages.get(messageId);
+        return message ? { ...message } : null;
+    }
+
+    async getMessages(messageIds: string[]): Promise<MessageData[]> {
+        return [...new Set(messageIds)]
+            .map(id => this.messages.get(id))
+            .filter((message): message is MessageData => !!message)
+            .map(message => ({ ...message }));
+    }
+
+    async listMessages(options: MessageQuery): Promise<MessageData[]> {
+        const ascending = !options.before && !!options.after;
+
+        return [...this.messages.values()]
+            .filter(message => message.chat_id === options.chatId
+                && (message.parent_id || null) === options.parentId
+                && (!options.before || compareMessages(toCursor(message), options.before) < 0)
+                && (options.before || !options.after || compareMessages(toCursor(message), options.after) > 0))
+            .sort((a, b) => ascending
+                ? compareMessages(toCursor(a), toCursor(b))
+                : compareMessages(toCursor(b), toCursor(a)))
+            .slice(0, options.limit)
+            .map(message => ({ ...message }));
+    }
+
+    async listLatestDirectMessages(userId: string): Promise<MessageData[]> {
+        const latest = new Map<string, MessageData>();
+        [...this.messages.values()]
+            .filter(message => isConversationId(message.chat_id)
+                && !message.parent_id
+                && (message.sender_id === userId || message.recipient_id === userId))
+            .sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at))
+            .forEach(message => {
+                if (!latest.has(message.chat_id)) {
+                    latest.set(message.chat_id, { ...message });
+                }
+            });
+        return [...latest.values()];
+    }
+
+    async searchMessages(options: MessageSearchOptions & { limit: number }): Promise<MessageSearchResult[]> {
+        const { include, exclude } = parseSearchQuery(options.query);
+        if (include.length === 0) {
+            return [];
+        }
+
+        const from = options.from ? Date.parse(options.from) : null;
+        const to = options.to ? Date.parse(options.to) : null;
+
+        return [...this.messages.values()]
+            .filter(message => options.chatIds.includes(message.chat_id)
+                && !message.deleted_at
+                && (!options.senderId || message.sender_id === options.senderId)
+                && (from === null || Date.parse(message.created_at) >= from)
+                && (to === null || Date.parse(message.created_at) <= to)
+                && include.every(pattern => message.content.match(pattern))
+                && !exclude.some(pattern => message.content.match(pattern)))
+            .map(message => ({
+                id: message.id,
+                chat_id: message.chat_id,
+                sender_id: message.sender_id,
+                parent_id: message.parent_id || null,
+                content: message.content,
+                created_at: message.created_at,
+                ...buildSnippet(message.content, include),
+                // More matches rank higher, like ts_rank
+                rank: include.reduce((total, pattern) => total + (message.content.match(pattern)?.length || 0), 0)
+            }))
+            .sort((a, b) => b.rank - a.rank || Date.parse(b.created_at) - Date.parse(a.created_at))
+            .slice(0, options.limit);
+    }
+
+    async countUnreadMessages(chatId: string, userId: string, sentAfter?: string): Promise<UnreadCountData> {
+        const after = sentAfter ? Date.parse(sentAfter) : null;
+        const unread = [...this.messages.values()].filter(message => message.chat_id === chatId
+            && !message.parent_id
+            && !message.deleted_at
+            && message.sender_id !== userId
+            && (after === null || Date.parse(message.created_at) > after));
+
+        return {
+            chat_id: chatId,
+            unread_count: unread.length,
+            mention_count: unread.filter(message =>
+                this.mentions.some(mention => mention.message_id === message.id && mention.user_id === userId)
+            ).length
+        };
+    }
+
+    async insertMessage(message: NewMessage): Promise<MessageData | null> {
+        const parent = message.parent_id ? this.messages.get(message.parent_id) : null;
+        if (message.parent_id && !parent) {
+            console.error('Error saving message: thread parent not found');
+            return null;
+        }
+
+        const row: MessageData = {
+            ...message,
+            id: randomUUID(),
+            reply_count: 0,
+            last_reply_at: null,
+            edited_at: null,
+            deleted_at: null,
+            deleted_by: null
+        } as MessageData;
+        this.messages.set(row.id, row);
+
+        // Same as the on_thread_reply trigger
+        if (parent) {
+            parent.reply_count = (parent.reply_count || 0) + 1;
+            parent.last_reply_at = row.created_at;
+        }
+
+        return { ...row };
+    }
+
+    async updateMessage(messageId: string, changes: MessageChanges): Promise<MessageData | null> {
+        const message = this.messages.get(messageId);
+        if (!message) {
+            console.error('Error updating message: message not found');
+            return null;
+        }
+
+        Object.assign(message, changes);
+        return { ...message };
+    }
+
+    async editMessage(messageId: string, content: string, editedBy: string, editedAt: string): Promise<MessageData | null> {
+        const message = this.messages.get(messageId);
+        if (!message || message.deleted_at) {
+            console.error('Error editing message: message not found');
+            return null;
+        }
+
+        this.edits.push({
+            id: randomUUID(),
+            message_id: messageId,
+            previous_content: message.content,
+            edited_by: editedBy,
+            edited_at: editedAt
+        });
+        Object.assign(message, { content, edited_at: editedAt, updated_at: editedAt });
+        return { ...message };
+    }
+
+    async listMessageEdits(messageId: string): Promise<MessageEditData[]> {
+        return this.edits
+            .filter(edit => edit.message_id === messageId)
+            .sort((a, b) => Date.parse(b.edited_at) - Date.parse(a.edited_at))
+            .map(edit => ({ ...edit }));
+    }
+
+    async listReactions(messageIds: string[]): Promise<ReactionData[]> {
+        return this.reactions
+            .filter(reaction => messageIds.includes(reaction.message_id))
+            .map(reaction => ({ ...reaction }));
+    }
+
+    async insertReaction(reaction: ReactionData): Promise<boolean> {
+        const exists = this.reactions.some(r => r.message_id === reaction.message_id
+            && r.user_id === reaction.user_id
+            && r.emoji === reaction.emoji);
+        if (exists) {
+            return false;
+        }
+
+        this.reactions.push({ ...reaction });
+        return true;
+    }
+
+    async deleteReaction(messageId: string, userId: string, emoji: string): Promise<boolean> {
+        const count = this.reactions.length;
+        this.reactions = this.reactions.filter(r => !(r.message_id === messageId && r.user_id === userId && r.emoji === emoji));
+        return this.reactions.length < count;
+    }
+
+    async insertMentions(messageId: string, userIds: string[]): Promise<boolean> {
+        userIds.forEach(userId => this.mentions.push({ message_id: messageId, user_id: userId }));
+        return true;
+    }
+
+    async deleteMentions(messageId: string): Promise<boolean> {
+        this.mentions = this.mentions.filter(mention => mention.message_id !== messageId);
+        return true;
+    }
+
+    async insertAttachment(attachment: AttachmentRow): Promise<AttachmentData | null> {
+        this.attachments.set(attachment.id, { ...attachment, message_id: attachment.message_id ?? null });
+        return this.toAttachmentData(attachment);
+    }
+
+    async getAttachment(attachmentId: string): Promise<AttachmentRow | null> {
+        const attachment = this.attachments.get(attachmentId);
+        return attachment ? { ...attachment } : null;
+    }
+
+    async countUnsentAttachments(attachmentIds: string[], userId: string): Promise<number> {
+        return [...new Set(attachmentIds)]
+            .map(id => this.attachments.get(id))
+            .filter(attachment => attachment && attachment.uploaded_by === userId && !attachment.message_id)
+            .length;
+    }
+
+    async linkAttachments(attachmentIds: string[], messageId: string, userId: string): Promise<AttachmentData[]> {
+        return this.sortByCreatedAt([...this.attachments.values()]
+            .filter(attachment => attachmentIds.includes(attachment.id)
+                && attachment.uploaded_by === userId
+                && !attachment.message_id))
+            .map(attachment => {
+                attachment.message_id = messageId;
+                return this.toAttachmentData(attachment);
+            });
+    }
+
+    async listAttachments(messageIds: string[]): Promise<AttachmentData[]> {
+        return this.sortByCreatedAt([...this.attachments.values()]
+            .filter(attachment => attachment.message_id && messageIds.includes(attachment.message_id)))
+            .map(attachment => this.toAttachmentData(attachment));
+    }
+
+    async getLinkPreviews(urls: string[]): Promise<LinkPreviewRow[]> {
+        return urls
+            .map(url => this.linkPreviews.get(url))
+            .filter((preview): preview is LinkPreviewRow => !!preview)
+            .map(preview => ({ ...preview }));
+    }
+
+    async upsertLinkPreviews(previews: LinkPreviewRow[]): Promise<boolean> {
+        previews.forEach(preview => this.linkPreviews.set(preview.url, { ...preview }));
+        return true;
+    }
+
+    async insertMessageLinks(messageId: string, urls: string[]): Promise<boolean> {
+        urls.forEach((url, position) => this.messageLinks.push({ message_id: messageId, url, position }));
+        return true;
+    }
+
+    async deleteMessageLinks(messageId: string): Promise<boolean> {
+        this.messageLinks = this.messageLinks.filter(link => link.message_id !== messageId);
+        return true;
+    }
+
+    async listMessageLinkPreviews(messageIds: string[]): Promise<MessageLinkPreview[]> {
+        return this.messageLinks
+            .filter(link => messageIds.includes(link.message_id) && this.linkPreviews.has(link.url))
+            .sort((a, b) => a.position - b.position)
+            .map(link => {
+                const { fetched_at: _fetchedAt, ...preview } = this.linkPreviews.get(link.url)!;
+                return { message_id: link.message_id, preview };
+            });
+    }
+
+    async listRooms(): Promise<RoomData[]> {
+        return this.sortByCreatedAt([...this.rooms.values()].filter(room => !room.archived_at))
+            .map(room => ({ ...room }));
+    }
+
+    async getRoom(roomId: string): Promise<RoomData | null> {
+        const room = this.rooms.get(roomId);
+        return room ? { ...room } : null;
+    }
+
+    async getRooms(roomIds: string[]): Promise<RoomData[]> {
+        return [...new Set(roomIds)]
+            .map(id => this.rooms.get(id))
+            .filter((room): room is RoomData => !!room)
+            .map(room => ({ ...room }));
+    }
+
+    async insertRoom(room: NewRoom): Promise<RoomData | null> {
+        if (this.rooms.has(room.id)) {
+            console.error('Error creating room: room already exists');
+            return null;
+        }
+
+        const row: RoomData = { ...room, archived_at: null };
+        this.rooms.set(room.id, row);
+        return { ...row };
+    }
+
+    async updateRoom(roomId: string, changes: Partial<Pick<RoomData, 'name' | 'description' | 'updated_at' | 'archived_at'>>): Promise<RoomData | null> {
+        const room = this.rooms.get(roomId);
+        if (!room) {
+            console.error('Error updating room: room not found');
+            return null;
+        }
+
+        Object.assign(room, changes);
+        return { ...room };
+    }
+
+    async listMemberships(userId: string): Promise<RoomMemberData[]> {
+        return this.roomMembers
+            .filter(member => member.user_id === userId)
+            .map(member => ({ ...member }));
+    }
+
+    async getMembership(roomId: string, userId: string): Promise<RoomMemberData | null> {
+        const member = this.findMember(roomId, userId);
+        return member ? { ...member } : null;
+    }
+
+    async listRoomMembers(roomId: string): Promise<RoomMemberData[]> {
+        return this.roomMembers
+            .filter(member => member.room_id === roomId)
+            .sort((a, b) => Date.parse(a.joined_at) - Date.parse(b.joined_at))
+            .map(member => ({ ...member }));
+    }
+
+    async upsertRoomMember(member: Omit<RoomMemberData, 'user'>): Promise<RoomMemberData | null> {
+        const existing = this.findMember(member.room_id, member.user_id);
+        if (existing) {
+            Object.assign(existing, member);
+            return { ...existing };
+        }
+
+        this.roomMembers.push({ ...member });
+        return { ...member };
+    }
+
+    async updateRoomMemberRole(roomId: string, userId: string, role: RoomRole): Promise<RoomMemberData | null> {
+        const member = this.findMember(roomId, userId);
+        if (!member) {
+            return null;
+        }
+
+        member.role = role;
+        return { ...member };
+    }
+
+    async deleteRoomMember(roomId: string, userId: string): Promise<boolean> {
+        this.roomMembers = this.roomMembers.filter(member => !(member.room_id === roomId && member.user_id === userId));
+        return true;
+    }
+
+    async insertInvite(invite: NewInvite): Promise<InviteData | null> {
+        const row: InviteData = { ...invite, id: randomUUID(), accepted_at: null, accepted_by: null };
+        this.invites.set(row.id, row);
+        return { ...row };
+    }
+
+    async getInviteByToken(token: string): Promise<InviteData | null> {
+        const invite = [...this.invites.values()].find(i => i.token === token);
+        return invite ? { ...invite } : null;
+    }
+
+    async listPendingInvites(userId: string): Promise<InviteData[]> {
+        const now = Date.now();
+        return this.sortByCreatedAt([...this.invites.values()]
+            .filter(invite => invite.invitee_id === userId
+                && !invite.accepted_at
+                && Date.parse(invite.expires_at) > now))
+            .reverse()
+            .map(invite => ({ ...invite }));
+    }
+
+    async markInviteAccepted(inviteId: string, userId: string): Promise<boolean> {
+        const invite = this.invites.get(inviteId);
+        if (invite) {
+            invite.accepted_at = new Date().toISOString();
+            invite.accepted_by = userId;
+        }
+        return true;
+    }
+
+    async deleteInvite(inviteId: string): Promise<boolean> {
+        this.invites.delete(inviteId);
+        return true;
+    }
+
+    async listReadMarkers(chatId: string): Promise<ReadMarkerData[]> {
+        return this.readMarkers
+            .filter(marker => marker.chat_id === chatId)
+            .map(marker => ({ ...marker }));
+    }
+
+    async listReadMarkersForUser(userId: string, chatIds: string[]): Promise<ReadMarkerData[]> {
+        return this.readMarkers
+            .filter(marker => marker.user_id === userId && chatIds.includes(marker.chat_id))
+            .map(marker => ({ ...marker }));
+    }
+
+    async getReadMarker(userId: string, chatId: string): Promise<ReadMarkerData | null> {
+        const marker = this.readMarkers.find(m => m.user_id === userId && m.chat_id === chatId);
+        return marker ? { ...marker } : null;
+    }
+
+    async upsertReadMarker(marker: Omit<ReadMarkerData, 'user'>): Promise<ReadMarkerData | null> {
+        const existing = this.readMarkers.find(m => m.user_id === marker.user_id && m.chat_id === marker.chat_id);
+        if (existing) {
+            Object.assign(existing, marker);
+            return { ...existing };
+        }
+
+        this.readMarkers.push({ ...marker });
+        return { ...marker };
+    }
+
+    async listPins(chatId: string): Promise<PinData[]> {
+        return [...this.pins.values()]
+            .filter(pin => pin.chat_id === chatId)
+            .sort((a, b) => Date.parse(b.pinned_at) - Date.parse(a.pinned_at))
+            .map(pin => ({ ...pin }));
+    }
+
+    async getPin(messageId: string): Promise<PinData | null> {
+        const pin = this.pins.get(messageId);
+        return pin ? { ...pin } : null;
+    }
+
+    async countPins(chatId: string): Promise<number> {
+        return [...this.pins.values()].filter(pin => pin.chat_id === chatId).length;
+    }
+
+    async insertPin(pin: Pick<PinData, 'message_id' | 'chat_id' | 'pinned_by' | 'pinned_at'>): Promise<PinData | null> {
+        if (this.pins.has(pin.message_id)) {
+            console.error('Error pinning message: message already pinned');
+            return null;
+        }
+
+        this.pins.set(pin.message_id, { ...pin });
+        return { ...pin };
+    }
+
+    async deletePin(messageId: string): Promise<PinData | null> {
+        const pin = this.pins.get(messageId);
+        this.pins.delete(messageId);
+        return pin ? { ...pin } : null;
+    }
+
+    async listBookmarks(userId: string): Promise<BookmarkData[]> {
+        return this.sortByCreatedAt(this.bookmarks.filter(bookmark => bookmark.user_id === userId))
+            .reverse()
+            .map(bookmark => ({ ...bookmark }));
+    }
+
+    async upsertBookmark(bookmark: Pick<BookmarkData, 'user_id' | 'message_id' | 'chat_id' | 'note'>): Promise<BookmarkData | null> {
+        const existing = this.bookmarks.find(b => b.user_id === bookmark.user_id && b.message_id === bookmark.message_id);
+        if (existing) {
+            existing.note = bookmark.note;
+            return { ...existing };
+        }
+
+        const row: BookmarkData = { ...bookmark, created_at: new Date().toISOString() };
+        this.bookmarks.push(row);
+        return { ...row };
+    }
+
+    async deleteBookmark(userId: string, messageId: string): Promise<BookmarkData | null> {
+        const bookmark = this.bookmarks.find(b => b.user_id === userId && b.message_id === messageId);
+        if (!bookmark) {
+            return null;
+        }
+
+        this.bookmarks = this.bookmarks.filter(b => b !== bookmark);
+        return { ...bookmark };
+    }
+
+    private findMember(roomId: string, userId: string): RoomMemberData | undefined {
+        return this.roomMembers.find(member => member.room_id === roomId && member.user_id === userId);
+    }
+
+    // Oldest first; rows created at the same time keep the order they were added in
+    private sortByCreatedAt<T extends { created_at: string }>(rows: T[]): T[] {
+        return [...rows].sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at));
+    }
+
+    private toAttachmentData(attachment: AttachmentRow): AttachmentData {
+        const { storage_key: _storageKey, ...data } = attachment;
+        return { ...data };
+    }
+}
@@ -0,0 +1,1063 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { TextRange } from 'shared';
+import { ChatStore, UserSummary, NewUser, NewMessage, MessageChanges, MessageQuery, NewRoom, NewInvite, MessageLinkPreview } from './ChatStore';
+import { UserRow, UserStatusRow } from '../models/User';
+import { MessageData, MessageEditData, MessageSearchOptions, MessageSearchResult, ReactionData } from '../models/Message';
+import { AttachmentData, AttachmentRow } from '../models/Attachment';
+import { LinkPreviewData, LinkPreviewRow } from '../models/LinkPreview';
+import { RoomData, RoomMemberData, RoomRole } from '../models/Room';
+import { InviteData } from '../models/Invite';
+import { ReadMarkerData, UnreadCountData } from '../models/ReadMarker';
+import { PinData } from '../models/Pin';
+import { BookmarkData } from '../models/Bookmark';
+
+// The columns of an attachment that clients may see
+const ATTACHMENT_COLUMNS = 'id, message_id, uploaded_by, filename, mime_type, size_bytes, width, height, created_at';
+
+// The columns of a link preview that clients see
+const LINK_PREVIEW_COLUMNS = 'url, title, description, image_url, site_name';
+
+// The characters search_messages puts around matching words in its snippets. They are
+// removed from message content before the snippet is built, so they only ever mark matches.
+const HIGHLIGHT_START = '\x01';
+const HIGHLIGHT_STOP = '\x02';
+
+/**
+ * Split a snippet from search_messages into its plain text and the positions of its matching words
+ */
+function parseHighlights(marked: string): { snippet: string; highlights: TextRange[] } {
+    let snippet = '';
+    const highlights: TextRange[] = [];
+    let start: number | null = null;
+
+    for (const char of marked) {
+        if (char === HIGHLIGHT_START) {
+            start = snippet.length;
+        } else if (char === HIGHLIGHT_STOP) {
+            if (start !== null && snippet.length > start) {
+                highlights.push({ start, end: snippet.length });
+            }
+            start = null;
+        } else {
+            snippet += char;
+        }
+    }
+
+    return { snippet, highlights };
+}
+
+/**
+ * Keeps the chat's data in the Supabase project's Postgres tables (see db/schema.sql)
+ */
+export class SupabaseChatStore implements ChatStore {
+    private supabase: SupabaseClient;
+
+    constructor(supabaseUrl: string, supabaseKey: string) {
+        // Initialize Supabase client with service role key for admin operations
+        // This bypasses RLS policies for server-side operations
+        const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+        if (!serviceRoleKey) {
+            console.warn('SUPABASE_SERVICE_ROLE_KEY not set - using anon key instead');
+        }
+
+        this.supabase = createClient(
+            supabaseUrl,
+            serviceRoleKey || supabaseKey // Use service role key if available, otherwise fall back to anon key
+        );
+    }
+
+    async getUser(userId: string): Promise<UserRow | null> {
+        const { data, error } = await this.supabase
+            .from('users')
+            .select('*')
+            .eq('id', userId)
+            .single();
+
+        if (error) {
+            console.error('Error fetching user:', error);
+            return null;
+        }
+
+        return data as UserRow;
+    }
+
+    async getUsers(userIds: string[]): Promise<UserSummary[]> {
+        if (userIds.length === 0) {
+            return [];
+        }
+
+        const { data, error } = await this.supabase
+            .from('users')
+            .select('id, username')
+            .in('id', [...new Set(userIds)]);
+
+        if (error) {
+            console.error('Error fetching users:', error);
+            return [];
+        }
+
+        return (data || []) as UserSummary[];
+    }
+
+    async getUserIdsByUsername(usernames: string[]): Promise<string[]> {
+        if (usernames.length === 0) {
+            return [];
+        }
+
+        const { data, error } = await this.supabase
+            .from('users')
+            .select('id')
+            .in('username', usernames);
+
+        if (error) {
+            console.error('Error resolving usernames:', error);
+            return [];
+        }
+
+        return (data || []).map(user => user.id as string);
+    }
+
+    async listUsers(): Promise<UserStatusRow[]> {
+        const { data, error } = await this.supabase
+            .from('users')
+            .select('id, username, isonline, lastseen');
+
+        if (error) {
+            console.error('Error fetching users:', error);
+            return [];
+        }
+
+        return (data || []) as UserStatusRow[];
+    }
+
+    async insertUser(user: NewUser): Promise<UserRow | null> {
+        const { data, error } = await this.supabase
+            .from('users')
+            .insert({
+                ...user,
+                isonline: true,
+                lastseen: new Date().toISOString(),
+                created_at: new Date().toISOString(),
+                updated_at: new Date().toISOString()
+            })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating user profile:', error);
+            return null;
+        }
+
+        return data as UserRow;
+    }
+
+    async updateUserStatus(userId: string, isOnline: boolean): Promise<boolean> {
+        const { error } = await this.supabase
+            .from('users')
+            .update({
+                isonline: isOnline,
+                lastseen: isOnline ? null : new Date()
+            })
+            .eq('id', userId);
+
+        if (error) {
+            console.error('Error updating online status:', error);
+            return false;
+        }
+
+        return true;
+    }
+
+    async getMessage(messageId: string): Promise<MessageData | null> {
+        const { data, error } = await this.supabase
+            .from('messages')
+            .select('*')
+            .eq('id', messageId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching message:', error);
+            return null;
+        }
+
+        return data as MessageData | null;
+    }
+
+    async getMessages(messageIds: string[]): Promise<MessageData[]> {
+        if (messageIds.length === 0) {
+            return [];
+        }
+
+        const { data, error } = await this.supabase
+            .from('messages')
+            .select('*')
+            .in('id', messageIds);
+
+        if (error) {
+            console.error('Error fetching messages:', error);
+            return [];
+        }
+
+        return (data || []) as MessageData[];
+    }
+
+    async listMessages(options: MessageQuery): Promise<MessageData[]> {
+        const ascending = !options.before && !!options.after;
+
+        let query = this.supabase
+            .from('messages')
+            .select('*')
+            .eq('chat_id', options.chatId);
+
+        query = options.parentId
+            ? query.eq('parent_id', options.parentId)
+            : query.is('parent_id', null);
+
+        const cursor = options.before || options.after;
+        if (cursor) {
+            const op = options.before ? 'lt' : 'gt';
+            query = cursor.id
+                ? query.or(`created_at.${op}."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.${op}.${cursor.id})`)
+                : query[op]('created_at', cursor.createdAt);
+        }
+
+        const { data, error } = await query
+            .order('created_at', { ascending })
+            .order('id', { ascending })
+            .limit(options.limit);
+
+        if (error) {
+            console.error('Error fetching messages:', error);
+            return [];
+        }
+
+        return (data || []) as MessageData[];
+    }
+
+    async listLatestDirectMessages(userId: string): Promise<MessageData[]> {
+        const { data, error } = await this.supabase.rpc('latest_direct_messages', {
+            for_user_id: userId
+        });
+
+        if (error) {
+            console.error('Error fetching conversations:', error);
+            return [];
+        }
+
+        return (data || []) as MessageData[];
+    }
+
+    async searchMessages(options: MessageSearchOptions & { limit: number }): Promise<MessageSearchResult[]> {
+        const { data, error } = await this.supabase.rpc('search_messages', {
+            search_query: options.query,
+            chat_ids: options.chatIds,
+            filter_sender_id: options.senderId || null,
+            sent_from: options.from || null,
+            sent_to: options.to || null,
+            result_limit: options.limit
+        });
+
+        if (error) {
+            console.error('Error searching messages:', error);
+            return [];
+        }
+
+        return ((data || []) as (Omit<MessageSearchResult, 'highlights'>)[])
+            .map(row => ({ ...row, ...parseHighlights(row.snippet) }));
+    }
+
+    async countUnreadMessages(chatId: string, userId: string, sentAfter?: string): Promise<UnreadCountData> {
+        const unreadQuery = (columns: string) => {
+            let query = this.supabase
+                .from('messages')
+                .select(columns, { count: 'exact', head: true })
+                .eq('chat_id', chatId)
+                .is('parent_id', null)
+                .is('deleted_at', null)
+                .neq('sender_id', userId);
+            if (sentAfter) {
+                query = query.gt('created_at', sentAfter);
+            }
+            return query;
+        };
+
+        const [unread, mentions] = await Promise.all([
+            unreadQuery('id'),
+            // Only messages with a mention of this user
+            unreadQuery('id, message_mentions!inner(user_id)').eq('message_mentions.user_id', userId)
+        ]);
+
+        if (unread.error || mentions.error) {
+            console.error('Error counting unread messages:', unread.error || mentions.error);
+        }
+
+        return {
+            chat_id: chatId,
+            unread_count: unread.count || 0,
+            mention_count: mentions.count || 0
+        };
+    }
+
+    async insertMessage(message: NewMessage): Promise<MessageData | null> {
+        const { data, error } = await this.supabase
+            .from('messages')
+            .insert(message)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error saving message:', error);
+            return null;
+        }
+
+        return data as MessageData;
+    }
+
+    async updateMessage(messageId: string, changes: MessageChanges): Promise<MessageData | null> {
+        const { data, error } = await this.supabase
+            .from('messages')
+            .update(changes)
+            .eq('id', messageId)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error updating message:', error);
+            return null;
+        }
+
+        return data as MessageData;
+    }
+
+    async editMessage(messageId: string, content: string, editedBy: string, editedAt: string): Promise<MessageData | null> {
+        const { data, error } = await this.supabase
+            .rpc('edit_message', {
+                target_message_id: messageId,
+                new_content: content,
+                editor_id: editedBy,
+                edit_time: editedAt
+            })
+            .single();
+
+        if (error) {
+            console.error('Error editing message:', error);
+            return null;
+        }
+
+        return data as MessageData;
+    }
+
+    async listMessageEdits(messageId: string): Promise<MessageEditData[]> {
+        const { data, error } = await this.supabase
+            .from('message_edits')
+            .select('*')
+            .eq('message_id', messageId)
+            .order('edited_at', { ascending: false });
+
+        if (error) {
+            console.error('Error fetching message edits:', error);
+            return [];
+        }
+
+        return (data || []) as MessageEditData[];
+    }
+
+    async listReactions(messageIds: string[]): Promise<ReactionData[]> {
+        if (messageIds.length === 0) {
+            return [];
+        }
+
+        const { data, error } = await this.supabase
+            .from('message_reactions')
+            .select('*')
+            .in('message_id', messageIds)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            console.error('Error fetching reactions:', error);
+            return [];
+        }
+
+        return (data || []) as ReactionData[];
+    }
+
+    async insertReaction(reaction: ReactionData): Promise<boolean> {
+        const { error } = await this.supabase
+            .from('message_reactions')
+            .insert(reaction);
+
+        if (error) {
+            // Unique violation: the reaction already exists
+            if (error.code !== '23505') {
+                console.error('Error adding reaction:', error);
+            }
+            return false;
+        }
+
+        return true;
+    }
+
+    async deleteReaction(messageId: string, userId: string, emoji: string): Promise<boolean> {
+        const { data, error } = await this.supabase
+            .from('message_reactions')
+            .delete()
+            .eq('message_id', messageId)
+            .eq('user_id', userId)
+            .eq('emoji', emoji)
+            .select();
+
+        if (error) {
+            console.error('Error removing reaction:', error);
+            return false;
+        }
+
+        return (data || []).length > 0;
+    }
+
+    async insertMentions(messageId: string, userIds: string[]): Promise<boolean> {
+        const { error } = await this.supabase
+            .from('message_mentions')
+            .insert(userIds.map(userId => ({
+                message_id: messageId,
+                user_id: userId,
+                created_at: new Date().toISOString()
+            })));
+
+        if (error) {
+            console.error('Error saving mentions:', error);
+            return false;
+        }
+
+        return true;
+    }
+
+    async deleteMentions(messageId: string): Promise<boolean> {
+        const { error } = await this.supabase
+            .from('message_mentions')
+            .delete()
+            .eq('message_id', messageId);
+
+        if (error) {
+            console.error('Error clearing mentions:', error);
+            return false;
+        }
+
+        return true;
+    }
+
+    async insertAttachment(attachment: AttachmentRow): Promise<AttachmentData | null> {
+        const { data, error } = await this.supabase
+            .from('attachments')
+            .insert(attachment)
+            .select(ATTACHMENT_COLUMNS)
+            .single();
+
+        if (error) {
+            console.error('Error saving attachment:', error);
+            return null;
+        }
+
+        return data as AttachmentData;
+    }
+
+    async getAttachment(attachmentId: string): Promise<AttachmentRow | null> {
+        const { data, error } = await this.supabase
+            .from('attachments')
+            .select('*')
+            .eq('id', attachmentId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching attachment:', error);
+            return null;
+        }
+
+        return data as AttachmentRow | null;
+    }
+
+    async countUnsentAttachments(attachmentIds: string[], userId: string): Promise<number> {
+        const { count, error } = await this.supabase
+            .from('attachments')
+            .select('id', { count: 'exact', head: true })
+            .in('id', attachmentIds)
+            .eq('uploaded_by', userId)
+            .is('message_id', null);
+
+        if (error) {
+            console.error('Error checking attachments:', error);
+            return 0;
+        }
+
+        return count || 0;
+    }
+
+    async linkAttachments(attachmentIds: string[], messageId: string, userId: string): Promise<AttachmentData[]> {
+        const { data, error } = await this.supabase
+            .from('attachments')
+            .update({ message_id: messageId })
+            .in('id', attachmentIds)
+            .eq('uploaded_by', userId)
+            .is('message_id', null)
+            .select(ATTACHMENT_COLUMNS)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            console.error('Error linking attachments:', error);
+            return [];
+        }
+
+        return (data || []) as AttachmentData[];
+    }
+
+    async listAttachments(messageIds: string[]): Promise<AttachmentData[]> {
+        if (messageIds.length === 0) {
+            return [];
+        }
+
+        const { data, error } = await this.supabase
+            .from('attachments')
+            .select(ATTACHMENT_COLUMNS)
+            .in('message_id', messageIds)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            console.error('Error fetching attachments:', error);
+            return [];
+        }
+
+        return (data || []) as AttachmentData[];
+    }
+
+    async getLinkPreviews(urls: string[]): Promise<LinkPreviewRow[]> {
+        if (urls.length === 0) {
+            return [];
+        }
+
+        const { data, error } = await this.supabase
+            .from('link_previews')
+            .select('*')
+            .in('url', urls);
+
+        if (error) {
+            console.error('Error fetching cached link previews:', error);
+            return [];
+        }
+
+        return (data || []) as LinkPreviewRow[];
+    }
+
+    async upsertLinkPreviews(previews: LinkPreviewRow[]): Promise<boolean> {
+        const { error } = await this.supabase
+            .from('link_previews')
+            .upsert(previews, { onConflict: 'url' });
+
+        if (error) {
+            console.error('Error caching link previews:', error);
+            return false;
+        }
+
+        return true;
+    }
+
+    async insertMessageLinks(messageId: string, urls: string[]): Promise<boolean> {
+        const { error } = await this.supabase
+            .from('message_link_previews')
+            .insert(urls.map((url, position) => ({
+                message_id: messageId,
+                url,
+                position
+            })));
+
+        if (error) {
+            console.error('Error saving link previews:', error);
+            return false;
+        }
+
+        return true;
+    }
+
+    async deleteMessageLinks(messageId: string): Promise<boolean> {
+        const { error } = await this.supabase
+            .from('message_link_previews')
+            .delete()
+            .eq('message_id', messageId);
+
+        if (error) {
+            console.error('Error clearing link previews:', error);
+            return false;
+        }
+
+        return true;
+    }
+
+    async listMessageLinkPreviews(messageIds: string[]): Promise<MessageLinkPreview[]> {
+        if (messageIds.length === 0) {
+            return [];
+        }
+
+        const { data: links, error: linksError } = await this.supabase
+            .from('message_link_previews')
+            .select('message_id, url')
+            .in('message_id', messageIds)
+            .order('position', { ascending: true });
+
+        if (linksError) {
+            console.error('Error fetching message links:', linksError);
+            return [];
+        }
+        if (!links || links.length === 0) {
+            return [];
+        }
+
+        const { data, error } = await this.supabase
+            .from('link_previews')
+            .select(LINK_PREVIEW_COLUMNS)
+            .in('url', [...new Set(links.map(link => link.url as string))]);
+
+        if (error) {
+            console.error('Error fetching link previews:', error);
+            return [];
+        }
+
+        const previewsByUrl = new Map(((data || []) as LinkPreviewData[]).map(preview => [preview.url, preview]));
+        return (links as { message_id: string; url: string }[])
+            .filter(link => previewsByUrl.has(link.url))
+            .map(link => ({ message_id: link.message_id, preview: previewsByUrl.get(link.url)! }));
+    }
+
+    async listRooms(): Promise<RoomData[]> {
+        const { data, error } = await this.supabase
+            .from('rooms')
+            .select('*')
+            .is('archived_at', null)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            console.error('Error fetching rooms:', error);
+            return [];
+        }
+
+        return (data || []) as RoomData[];
+    }
+
+    async getRoom(roomId: string): Promise<RoomData | null> {
+        const { data, error } = await this.supabase
+            .from('rooms')
+            .select('*')
+            .eq('id', roomId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching room:', error);
+            return null;
+        }
+
+        return data as RoomData | null;
+    }
+
+    async getRooms(roomIds: string[]): Promise<RoomData[]> {
+        if (roomIds.length === 0) {
+            return [];
+        }
+
+        const { data, error } = await this.supabase
+            .from('rooms')
+            .select('*')
+            .in('id', [...new Set(roomIds)]);
+
+        if (error) {
+            console.error('Error fetching rooms:', error);
+            return [];
+        }
+
+        return (data || []) as RoomData[];
+    }
+
+    async insertRoom(room: NewRoom): Promise<RoomData | null> {
+        const { data, error } = await this.supabase
+            .from('rooms')
+            .insert(room)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating room:', error);
+            return null;
+        }
+
+        return data as RoomData;
+    }
+
+    async updateRoom(roomId: string, changes: Partial<Pick<RoomData, 'name' | 'description' | 'updated_at' | 'archived_at'>>): Promise<RoomData | null> {
+        const { data, error } = await this.supabase
+            .from('rooms')
+            .update(changes)
+            .eq('id', roomId)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error updating room:', error);
+            return null;
+        }
+
+        return data as RoomData;
+    }
+
+    async listMemberships(userId: string): Promise<RoomMemberData[]> {
+        const { data, error } = await this.supabase
+            .from('room_members')
+            .select('*')
+            .eq('user_id', userId);
+
+        if (error) {
+            console.error('Error fetching room memberships:', error);
+            return [];
+        }
+
+        return (data || []) as RoomMemberData[];
+    }
+
+    async getMembership(roomId: string, userId: string): Promise<RoomMemberData | null> {
+        const { data, error } = await this.supabase
+            .from('room_members')
+            .select('*')
+            .eq('room_id', roomId)
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching room role:', error);
+            return null;
+        }
+
+        return data as RoomMemberData | null;
+    }
+
+    async listRoomMembers(roomId: string): Promise<RoomMemberData[]> {
+        const { data, error } = await this.supabase
+            .from('room_members')
+            .select('*')
+            .eq('room_id', roomId)
+            .order('joined_at', { ascending: true });
+
+        if (error) {
+            console.error('Error fetching room members:', error);
+            return [];
+        }
+
+        return (data || []) as RoomMemberData[];
+    }
+
+    async upsertRoomMember(member: Omit<RoomMemberData, 'user'>): Promise<RoomMemberData | null> {
+        const { data, error } = await this.supabase
+            .from('room_members')
+            .upsert(member, { onConflict: 'room_id,user_id' })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error adding room member:', error);
+            return null;
+        }
+
+        return data as RoomMemberData;
+    }
+
+    async updateRoomMemberRole(roomId: string, userId: string, role: RoomRole): Promise<RoomMemberData | null> {
+        const { data, error } = await this.supabase
+            .from('room_members')
+            .update({ role })
+            .eq('room_id', roomId)
+            .eq('user_id', userId)
+            .select()
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error updating room member:', error);
+            return null;
+        }
+
+        return data as RoomMemberData | null;
+    }
+
+    async deleteRoomMember(roomId: string, userId: string): Promise<boolean> {
+        const { error } = await this.supabase
+            .from('room_members')
+            .delete()
+            .eq('room_id', roomId)
+            .eq('user_id', userId);
+
+        if (error) {
+            console.error('Error removing room member:', error);
+            return false;
+        }
+
+        return true;
+    }
+
+    async insertInvite(invite: NewInvite): Promise<InviteData | null> {
+        const { data, error } = await this.supabase
+            .from('room_invites')
+            .insert(invite)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating invite:', error);
+            return null;
+        }
+
+        return data as InviteData;
+    }
+
+    async getInviteByToken(token: string): Promise<InviteData | null> {
+        const { data, error } = await this.supabase
+            .from('room_invites')
+            .select('*')
+            .eq('token', token)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching invite:', error);
+            return null;
+        }
+
+        return data as InviteData | null;
+    }
+
+    async listPendingInvites(userId: string): Promise<InviteData[]> {
+        const { data, error } = await this.supabase
+            .from('room_invites')
+            .select('*')
+            .eq('invitee_id', userId)
+            .is('accepted_at', null)
+            .gt('expires_at', new Date().toISOString())
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            console.error('Error fetching invites:', error);
+            return [];
+        }
+
+        return (data || []) as InviteData[];
+    }
+
+    async markInviteAccepted(inviteId: string, userId: string): Promise<boolean> {
+        const { error } = await this.supabase
+            .from('room_invites')
+            .update({
+                accepted_at: new Date().toISOString(),
+                accepted_by: userId
+            })
+            .eq('id', inviteId);
+
+        if (error) {
+            console.error('Error accepting invite:', error);
+            return false;
+        }
+
+        return true;
+    }
+
+    async deleteInvite(inviteId: string): Promise<boolean> {
+        const { error } = await this.supabase
+            .from('room_invites')
+            .delete()
+            .eq('id', inviteId);
+
+        if (error) {
+            console.error('Error deleting invite:', error);
+            return false;
+        }
+
+        return true;
+    }
+
+    async listReadMarkers(chatId: string): Promise<ReadMarkerData[]> {
+        const { data, error } = await this.supabase
+            .from('read_markers')
+            .select('*')
+            .eq('chat_id', chatId);
+
+        if (error) {
+            console.error('Error fetching read markers:', error);
+            return [];
+        }
+
+        return (data || []) as ReadMarkerData[];
+    }
+
+    async listReadMarkersForUser(userId: string, chatIds: string[]): Promise<ReadMarkerData[]> {
+        if (chatIds.length === 0) {
+            return [];
+        }
+
+        const { data, error } = await this.supabase
+            .from('read_markers')
+            .select('*')
+            .eq('user_id', userId)
+            .in('chat_id', chatIds);
+
+        if (error) {
+            console.error('Error fetching read markers:', error);
+            return [];
+        }
+
+        return (data || []) as ReadMarkerData[];
+    }
+
+    async getReadMarker(userId: string, chatId: string): Promise<ReadMarkerData | null> {
+        const { data, error } = await this.supabase
+            .from('read_markers')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('chat_id', chatId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching read marker:', error);
+            return null;
+        }
+
+        return data as ReadMarkerData | null;
+    }
+
+    async upsertReadMarker(marker: Omit<ReadMarkerData, 'user'>): Promise<ReadMarkerData | null> {
+        const { data, error } = await this.supabase
+            .from('read_markers')
+            .upsert(marker, { onConflict: 'user_id,chat_id' })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error saving read marker:', error);
+            return null;
+        }
+
+        return data as ReadMarkerData;
+    }
+
+    async listPins(chatId: string): Promise<PinData[]> {
+        const { data, error } = await this.supabase
+            .from('pinned_messages')
+            .select('*')
+            .eq('chat_id', chatId)
+            .order('pinned_at', { ascending: false });
+
+        if (error) {
+            console.error('Error fetching pins:', error);
+            return [];
+        }
+
+        return (data || []) as PinData[];
+    }
+
+    async getPin(messageId: string): Promise<PinData | null> {
+        const { data, error } = await this.supabase
+            .from('pinned_messages')
+            .select('*')
+            .eq('message_id', messageId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching pin:', error);
+            return null;
+        }
+
+        return data as PinData | null;
+    }
+
+    async countPins(chatId: string): Promise<number> {
+        const { count, error } = await this.supabase
+            .from('pinned_messages')
+            .select('message_id', { count: 'exact', head: true })
+            .eq('chat_id', chatId);
+
+        if (error) {
+            console.error('Error counting pins:', error);
+            return 0;
+        }
+
+        return count || 0;
+    }
+
+    async insertPin(pin: Pick<PinData, 'message_id' | 'chat_id' | 'pinned_by' | 'pinned_at'>): Promise<PinData | null> {
+        const { data, error } = await this.supabase
+            .from('pinned_messages')
+            .insert(pin)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error pinning message:', error);
+            return null;
+        }
+
+        return data as PinData;
+    }
+
+    async deletePin(messageId: string): Promise<PinData | null> {
+        const { data, error } = await this.supabase
+            .from('pinned_messages')
+            .delete()
+            .eq('message_id', messageId)
+            .select()
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error unpinning message:', error);
+            return null;
+        }
+
+        return data as PinData | null;
+    }
+
+    async listBookmarks(userId: string): Promise<BookmarkData[]> {
+        const { data, error } = await this.supabase
+            .from('bookmarks')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            console.error('Error fetching bookmarks:', error);
+            return [];
+        }
+
+        return (data || []) as BookmarkData[];
+    }
+
+    async upsertBookmark(bookmark: Pick<BookmarkData, 'user_id' | 'message_id' | 'chat_id' | 'note'>): Promise<BookmarkData | null> {
+        const { data, error } = await this.supabase
+            .from('bookmarks')
+            .upsert(bookmark, { onConflict: 'user_id,message_id' })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error saving bookmark:', error);
+            return null;
+        }
+
+        return data as BookmarkData;
+    }
+
+    async deleteBookmark(userId: string, messageId: string): Promise<BookmarkData | null> {
+        const { data, error } = await this.supabase
+            .from('bookmarks')
+            .delete()
+            .eq('user_id', userId)
+            .eq('message_id', messageId)
+            .select()
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error removing bookmark:', error);
+            return null;
+        }
+
+        return data as BookmarkData | null;
+    }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { MessageSchema } from 'shared';
+import { createTestServer, TestServer, ALICE, BOB, CAROL } from './server';
+
+/**
+ * Build the start of a PNG file, enough for its size to be read
+ */
+function pngHeader(width: number, height: number): Buffer {
+    const data = Buffer.alloc(24);
+    Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]).copy(data, 0);
+    data.writeUInt32BE(13, 8);
+    data.write('IHDR', 12, 'latin1');
+    data.writeUInt32BE(width, 16);
+    data.writeUInt32BE(height, 20);
+    return data;
+}
+
+describe('ChatServer attachments', () => {
+    let server: TestServer;
+    let alice: { Authorization: string };
+    let bob: { Authorization: string };
+
+    beforeEach(async () => {
+        server = createTestServer();
+        alice = await server.createUser(ALICE, 'alice');
+        bob = await server.createUser(BOB, 'bob');
+    });
+
+    const upload = (auth: { Authorization: string }, filename: string, type: string, data: Buffer) =>
+        request(server.app)
+            .post(`/api/attachments?filename=${encodeURIComponent(filename)}`)
+            .set(auth)
+            .set('Content-Type', type)
+            .send(data);
+
+    describe('POST /api/attachments', () => {
+        it('stores an image with its size', async () => {
+            const res = await upload(alice, 'photo.png', 'image/png', pngHeader(640, 480));
+
+            expect(res.status).toBe(201);
+            expect(res.body).toMatchObject({ filename: 'photo.png', mime_type: 'image/png', width: 640, height: 480 });
+            expect(server.attachmentStorage.files.size).toBe(1);
+        });
+
+        it('rejects file types that cannot be attached', async () => {
+            const res = await upload(alice, 'run.exe', 'application/x-msdownload', Buffer.from('MZ'));
+
+            expect(res.status).toBe(415);
+        });
+
+        it('rejects images that are not really images', async () => {
+            const res = await upload(alice, 'photo.png', 'image/png', Buffer.from('not a png'));
+
+            expect(res.status).toBe(400);
+            expect(server.attachmentStorage.files.size).toBe(0);
+        });
+    });
+
+    describe('GET /api/attachments/:id', () => {
+        it('only shows unsent uploads to their uploader', async () => {
+            const { body: attachment } = await upload(alice, 'notes.txt', 'text/plain', Buffer.from('hello'));
+
+            const own = await request(server.app).get(`/api/attachments/${attachment.id}`).set(alice);
+            const other = await request(server.app).get(`/api/attachments/${attachment.id}`).set(bob);
+
+            expect(own.status).toBe(200);
+            expect(own.headers['content-type']).toContain('text/plain');
+            expect(own.headers['content-disposition']).toBe("attachment; filename*=UTF-8''notes.txt");
+            expect(own.text).toBe('hello');
+            expect(other.status).toBe(404);
+        });
+
+        it('shows sent attachments to everyone who can read the message', async () => {
+            const { body: attachment } = await upload(alice, 'notes.txt', 'text/plain', Buffer.from('hello'));
+            const sent = await request(server.app)
+                .post('/api/chat-rooms/general/messages')
+                .set(alice)
+                .send({ content: '', attachmentIds: [attachment.id] });
+
+            expect(sent.status).toBe(201);
+            expect(sent.body.attachments).toEqual([expect.objectContaining({ id: attachment.id })]);
+            expect(MessageSchema.parse(server.realtime.eventsOn('chat:general', 'message')[0].data).attachments)
+                .toEqual([expect.objectContaining({ id: attachment.id })]);
+
+            const res = await request(server.app).get(`/api/attachments/${attachment.id}`).set(bob);
+            expect(res.status).toBe(200);
+        });
+
+        it('does not let uploads be sent by anyone else', async () => {
+            const { body: attachment } = await upload(alice, 'notes.txt', 'text/plain', Buffer.from('hello'));
+
+            const res = await request(server.app)
+                .post('/api/chat-rooms/general/messages')
+                .set(bob)
+                .send({ content: 'Mine now', attachmentIds: [attachment.id] });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe('Attachments not found');
+        });
+
+        it('hides attachments of messages in private rooms from non-members', async () => {
+            const carol = await server.createUser(CAROL, 'carol');
+            const room = await request(server.app).post('/api/chat-rooms').set(alice).send({ name: 'Secret', isPrivate: true });
+            const { body: attachment } = await upload(alice, 'notes.txt', 'text/plain', Buffer.from('hello'));
+            await request(server.app)
+                .post(`/api/chat-rooms/${room.body.id}/messages`)
+                .set(alice)
+                .send({ content: 'Private notes', attachmentIds: [attachment.id] });
+
+            const res = await request(server.app).get(`/api/attachments/${attachment.id}`).set(carol);
+
+            expect(res.status).toBe(403);
+        });
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { BookmarkSchema } from 'shared';
+import { createTestServer, TestServer, ALICE, BOB } from './server';
+
+describe('ChatServer bookmarks', () => {
+    let server: TestServer;
+    let alice: { Authorization: string };
+    let bob: { Authorization: string };
+    let messageId: string;
+
+    beforeEach(async () => {
+        server = createTestServer();
+        alice = await server.createUser(ALICE, 'alice');
+        bob = await server.createUser(BOB, 'bob');
+
+        const message = await request(server.app)
+            .post('/api/chat-rooms/general/messages')
+            .set(bob)
+            .send({ content: 'Remember this' });
+        messageId = message.body.id;
+    });
+
+    it('saves a bookmark with the message and its chat', async () => {
+        const res = await request(server.app)
+            .post('/api/users/me/bookmarks')
+            .set(alice)
+            .send({ messageId, note: ' for later ' });
+
+        expect(res.status).toBe(201);
+        expect(res.body).toMatchObject({
+            user_id: ALICE,
+            message_id: messageId,
+            note: 'for later',
+            message: { id: messageId, content: 'Remember this' },
+            chat: { id: 'general', type: 'room', name: 'General Chat', archived: false }
+        });
+        expect(BookmarkSchema.safeParse(res.body).success).toBe(true);
+
+        const list = await request(server.app).get('/api/users/me/bookmarks').set(alice);
+        expect(list.status).toBe(200);
+        expect(list.body).toEqual([expect.objectContaining({ message_id: messageId, note: 'for later' })]);
+        expect(BookmarkSchema.array().safeParse(list.body).success).toBe(true);
+
+        // Bookmarks are private to the user who saved them
+        const other = await request(server.app).get('/api/users/me/bookmarks').set(bob);
+        expect(other.body).toEqual([]);
+    });
+
+    it('updates the note when a message is bookmarked again', async () => {
+        await request(server.app).post('/api/users/me/bookmarks').set(alice).send({ messageId, note: 'first' });
+
+        await request(server.app).post('/api/users/me/bookmarks').set(alice).send({ messageId, note: 'second' });
+
+        const list = await request(server.app).get('/api/users/me/bookmarks').set(alice);
+        expect(list.body).toEqual([expect.objectContaining({ note: 'second' })]);
+    });
+
+    it('rejects bookmarks of unknown messages', async () => {
+        const missing = await request(server.app).post('/api/users/me/bookmarks').set(alice).send({});
+        const unknown = await request(server.app)
+            .post('/api/users/me/bookmarks')
+            .set(alice)
+            .send({ messageId: '00000000-0000-4000-8000-00000000abcd' });
+
+        expect(missing.status).toBe(400);
+        expect(unknown.status).toBe(404);
+    });
+
+    it('removes a bookmark', async () => {
+        await request(server.app).post('/api/users/me/bookmarks').set(alice).send({ messageId });
+
+        const res = await request(server.app).delete(`/api/users/me/bookmarks/${messageId}`).set(alice);
+        const again = await request(server.app).delete(`/api/users/me/bookmarks/${messageId}`).set(alice);
+
+        expect(res.status).toBe(204);
+        expect(again.status).toBe(404);
+    });
+});
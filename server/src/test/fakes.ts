@@ -0,0 +1,111 @@
+import { RealtimeBus, RealtimeMessage, PresenceAction, PresenceMember, ClientToken } from '../realtime/RealtimeBus';
+import { ChannelCapability } from '../realtime/capabilities';
+import { AttachmentStorage } from '../storage/AttachmentStorage';
+import { LinkMetadata, LinkPreviewFetcher } from '../previews/LinkPreviewFetcher';
+
+// An event published through the fake realtime bus
+export interface PublishedEvent {
+    channel: string;
+    name: string;
+    data: unknown;
+}
+
+/**
+ * Keeps every published event so that tests can check what clients would have received
+ */
+export class RecordingRealtimeBus implements RealtimeBus {
+    published: PublishedEvent[] = [];
+    // Present members by channel and client ID
+    members = new Map<string, Map<string, unknown>>();
+    private listeners: { channel: string; name: string; listener: (message: RealtimeMessage) => void }[] = [];
+    private presenceListeners: { channel: string; action: PresenceAction; listener: (member: PresenceMember) => void }[] = [];
+
+    async publish(channel: string, name: string, data: unknown): Promise<void> {
+        this.published.push({ channel, name, data });
+        this.listeners
+            .filter(entry => entry.channel === channel && entry.name === name)
+            .forEach(entry => entry.listener({ name, data }));
+    }
+
+    subscribe(channel: string, name: string, listener: (message: RealtimeMessage) => void): void {
+        this.listeners.push({ channel, name, listener });
+    }
+
+    subscribePresence(channel: string, action: PresenceAction, listener: (member: PresenceMember) => void): void {
+        this.presenceListeners.push({ channel, action, listener });
+    }
+
+    /**
+     * Enter presence as a client would; the server itself never enters presence
+     */
+    async enterPresence(channel: string, clientId: string, data: unknown): Promise<void> {
+        const members = this.members.get(channel) || new Map<string, unknown>();
+        const action = members.has(clientId) ? 'update' : 'enter';
+        members.set(clientId, data);
+        this.members.set(channel, members);
+        this.notifyPresence(channel, { clientId, data, action });
+    }
+
+    /**
+     * Leave presence as a client would, e.g. when its connection closes
+     */
+    async leavePresence(channel: string, clientId: string): Promise<void> {
+        const members = this.members.get(channel);
+        if (!members?.has(clientId)) return;
+
+        const data = members.get(clientId);
+        members.delete(clientId);
+        this.notifyPresence(channel, { clientId, data, action: 'leave' });
+    }
+
+    async createClientToken(clientId: string, capability: ChannelCapability, ttlMs: number): Promise<ClientToken> {
+        return { backend: 'local', token: { clientId, capability, ttlMs } };
+    }
+
+    attach(): void {
+        // Nothing to serve
+    }
+
+    /**
+     * Get the events published on a channel, optionally only those with a name
+     */
+    eventsOn(channel: string, name?: string): PublishedEvent[] {
+        return this.published.filter(event => event.channel === channel && (!name || event.name === name));
+    }
+
+    private notifyPresence(channel: string, member: PresenceMember): void {
+        this.presenceListeners
+            .filter(entry => entry.channel === channel && entry.action === member.action)
+            .forEach(entry => entry.listener(member));
+    }
+}
+
+/**
+ * Keeps attachment contents in memory
+ */
+export class MemoryAttachmentStorage implements AttachmentStorage {
+    files = new Map<string, Buffer>();
+
+    async put(key: string, data: Buffer): Promise<void> {
+        this.files.set(key, data);
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        return this.files.get(key) || null;
+    }
+
+    async delete(key: string): Promise<void> {
+        this.files.delete(key);
+    }
+}
+
+/**
+ * Answers link preview requests from a fixed set of pages instead of the network
+ */
+export class StaticLinkPreviewFetcher implements LinkPreviewFetcher {
+    pages = new Map<string, LinkMetadata>();
+
+    async fetchMetadata(url: string): Promise<LinkMetadata | null> {
+        return this.pages.get(url) || null;
+    }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { HttpLinkPreviewFetcher, isPublicAddress } from '../previews/HttpLinkPreviewFetcher';
+
+describe('HttpLinkPreviewFetcher', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('treats only public addresses as public', () => {
+        expect(isPublicAddress('93.184.216.34')).toBe(true);
+        expect(isPublicAddress('2606:4700::1111')).toBe(true);
+
+        for (const address of ['127.0.0.1', '169.254.169.254', '10.1.2.3', '::', '::1', 'fd00::1']) {
+            expect(isPublicAddress(address)).toBe(false);
+        }
+    });
+
+    it('checks IPv4 addresses written as IPv6 against the blocked ranges', () => {
+        for (const address of ['::ffff:127.0.0.1', '::ffff:a9fe:a9fe', '::127.0.0.1', '::a9fe:a9fe', '::808:808']) {
+            expect(isPublicAddress(address)).toBe(false);
+        }
+    });
+
+    it('refuses URLs whose host is an IPv4-compatible IPv6 address', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        const metadata = await new HttpLinkPreviewFetcher().fetchMetadata('http://[::127.0.0.1]/');
+
+        expect(metadata).toBeNull();
+        expect(warn).toHaveBeenCalledWith(
+            'Could not fetch link preview for http://[::127.0.0.1]/:',
+            'Refusing to fetch from ::7f00:1: not a public address'
+        );
+    });
+});
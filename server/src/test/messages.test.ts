@@ -0,0 +1,532 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import {
+    MAX_MESSAGE_LENGTH,
+    MessageSchema,
+    MessageUpdateSchema,
+    MessagePageSchema,
+    MessageReactionsSchema,
+    MessageSearchResultSchema,
+    MessageNotificationSchema,
+    MentionNotificationSchema,
+    PinnedMessageSchema,
+    UnpinEventSchema,
+    ReadMarkerSchema,
+    UnreadCountSchema,
+    getConversationId
+} from 'shared';
+import { createTestServer, TestServer, ALICE, BOB, CAROL } from './server';
+
+describe('ChatServer messages', () => {
+    let server: TestServer;
+    let alice: { Authorization: string };
+    let bob: { Authorization: string };
+
+    beforeEach(async () => {
+        // Only the clock is faked, so that messages sent one after another never share a timestamp
+        vi.useFakeTimers({ toFake: ['Date'] });
+        server = createTestServer();
+        alice = await server.createUser(ALICE, 'alice');
+        bob = await server.createUser(BOB, 'bob');
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const send = (auth: { Authorization: string }, chatId: string, body: object) => {
+        vi.advanceTimersByTime(1000);
+        return request(server.app)
+            .post(`/api/chat-rooms/${encodeURIComponent(chatId)}/messages`)
+            .set(auth)
+            .send(body);
+    };
+
+    describe('POST /api/chat-rooms/:chatId/messages', () => {
+        it('saves the message and publishes it on the room channel', async () => {
+            const res = await send(alice, 'general', { content: 'Hello everyone' });
+
+            expect(res.status).toBe(201);
+            expect(res.body).toMatchObject({
+                chat_id: 'general',
+                sender_id: ALICE,
+                content: 'Hello everyone',
+                parent_id: null,
+                sender: { id: ALICE, username: 'alice' }
+            });
+
+            const events = server.realtime.eventsOn('chat:general', 'message');
+            expect(events).toHaveLength(1);
+            expect(events[0].data).toMatchObject({
+                id: res.body.id,
+                content: 'Hello everyone',
+                sender: { id: ALICE, username: 'alice' }
+            });
+        });
+
+        it('sends the message and its event in the shared message format', async () => {
+            const res = await send(alice, 'general', { content: 'Hello everyone' });
+            const [event] = server.realtime.eventsOn('chat:general', 'message');
+
+            expect(MessageSchema.safeParse(res.body).success).toBe(true);
+            expect(MessageSchema.safeParse(event.data).success).toBe(true);
+
+            const page = await request(server.app).get('/api/chat-rooms/general/messages').set(bob);
+            expect(MessagePageSchema.safeParse(page.body).success).toBe(true);
+        });
+
+        it('notifies the other users of the new message', async () => {
+            const res = await send(alice, 'general', { content: 'Hello' });
+
+            expect(server.realtime.eventsOn(`notifications:${ALICE}`)).toHaveLength(0);
+            const [notification] = server.realtime.eventsOn(`notifications:${BOB}`, 'message');
+            expect(notification.data).toEqual({
+                chat_id: 'general',
+                message_id: res.body.id,
+                sender_id: ALICE
+            });
+            expect(MessageNotificationSchema.safeParse(notification.data).success).toBe(true);
+        });
+
+        it('sends a mention notification to mentioned users', async () => {
+            const res = await send(alice, 'general', { content: 'Hi @bob' });
+
+            expect(res.body.mentions).toEqual([BOB]);
+            const [mention] = server.realtime.eventsOn(`notifications:${BOB}`, 'mention');
+            expect(mention.data).toMatchObject({
+                chat_id: 'general',
+                message_id: res.body.id,
+                sender: { id: ALICE, username: 'alice' },
+                content: 'Hi @bob'
+            });
+            expect(MentionNotificationSchema.safeParse(mention.data).success).toBe(true);
+        });
+
+        it('rejects empty messages', async () => {
+            const res = await send(alice, 'general', { content: '   ' });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe('Message content is required');
+            expect(server.realtime.published).toHaveLength(0);
+        });
+
+        it('rejects messages over the maximum length', async () => {
+            const res = await send(alice, 'general', { content: 'a'.repeat(MAX_MESSAGE_LENGTH + 1) });
+
+            expect(res.status).toBe(400);
+            expect(res.body.error).toBe(`Messages can be at most ${MAX_MESSAGE_LENGTH} characters`);
+            expect(server.realtime.published).toHaveLength(0);
+        });
+
+        it('rejects messages to unknown rooms', async () => {
+            const res = await send(alice, 'nowhere', { content: 'Hello?' });
+
+            expect(res.status).toBe(404);
+        });
+
+        it('requires the sender to have a profile', async () => {
+            const carol = server.authHeader({ id: CAROL, email: 'carol@example.com' });
+
+            const res = await send(carol, 'general', { content: 'Hello' });
+
+            expect(res.status).toBe(404);
+            expect(res.body.error).toBe('Sender not found');
+        });
+
+        it('publishes link previews once they are fetched', async () => {
+            server.linkPreviewFetcher.pages.set('https://example.com/page', {
+                title: 'Example page',
+                description: null,
+                image_url: null,
+                site_name: 'Example'
+            });
+
+            const res = await send(alice, 'general', { content: 'Look at https://example.com/page' });
+
+            await vi.waitFor(() => {
+                const update = server.realtime.eventsOn('chat:general', 'message.updated')
+                    .map(event => MessageUpdateSchema.parse(event.data))
+                    .find(data => data.id === res.body.id);
+                expect(update?.link_previews).toEqual([
+                    expect.objectContaining({ url: 'https://example.com/page', title: 'Example page' })
+                ]);
+            });
+        });
+    });
+
+    describe('GET /api/chat-rooms/:chatId/messages', () => {
+        it('returns the latest page of messages, oldest first', async () => {
+            await send(alice, 'general', { content: 'First' });
+            await send(bob, 'general', { content: 'Second' });
+
+            const res = await request(server.app).get('/api/chat-rooms/general/messages').set(alice);
+
+            expect(res.status).toBe(200);
+            expect(res.body.messages.map((message: { content: string }) => message.content)).toEqual(['First', 'Second']);
+            expect(res.body.hasMore).toBe(false);
+        });
+
+        it('pages back through older messages with the cursor', async () => {
+            for (const content of ['One', 'Two', 'Three']) {
+                await send(alice, 'general', { content });
+            }
+
+            const first = await request(server.app).get('/api/chat-rooms/general/messages?limit=2').set(alice);
+            expect(first.body.messages.map((message: { content: string }) => message.content)).toEqual(['Two', 'Three']);
+            expect(first.body.hasMore).toBe(true);
+
+            const second = await request(server.app)
+                .get(`/api/chat-rooms/general/messages?limit=2&before=${encodeURIComponent(first.body.nextCursor)}`)
+                .set(alice);
+            expect(second.body.messages.map((message: { content: string }) => message.content)).toEqual(['One']);
+            expect(second.body.hasMore).toBe(false);
+        });
+
+        it('returns the page around a message', async () => {
+            await send(alice, 'general', { content: 'Before' });
+            const target = await send(alice, 'general', { content: 'Target' });
+            await send(alice, 'general', { content: 'After' });
+
+            const res = await request(server.app)
+                .get(`/api/chat-rooms/general/messages?around=${target.body.id}`)
+                .set(alice);
+
+            expect(res.status).toBe(200);
+            expect(res.body.messages.map((message: { content: string }) => message.content)).toContain('Target');
+        });
+
+        it('rejects conflicting pagination parameters', async () => {
+            const res = await request(server.app)
+                .get('/api/chat-rooms/general/messages?before=x&after=y')
+                .set(alice);
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    describe('threads', () => {
+        it('publishes replies on the thread channel and updates the parent', async () => {
+            const parent = await send(alice, 'general', { content: 'Question' });
+
+            const reply = await send(bob, 'general', { content: 'Answer', parentId: parent.body.id });
+
+            expect(reply.status).toBe(201);
+            expect(server.realtime.eventsOn(`thread:general:${parent.body.id}`, 'message')[0].data)
+                .toMatchObject({ id: reply.body.id, parent_id: parent.body.id });
+
+            const update = server.realtime.eventsOn('chat:general', 'message.updated')
+                .map(event => MessageUpdateSchema.parse(event.data))
+                .find(data => data.id === parent.body.id);
+            expect(update?.reply_count).toBe(1);
+
+            // Replies do not count as new messages in the room
+            expect(server.realtime.eventsOn(`notifications:${ALICE}`, 'message')).toHaveLength(0);
+        });
+
+        it('GET /api/chat-rooms/:chatId/messages/:id/thread returns the parent and its replies', async () => {
+            const parent = await send(alice, 'general', { content: 'Question' });
+            await send(bob, 'general', { content: 'Answer', parentId: parent.body.id });
+
+            const res = await request(server.app)
+                .get(`/api/chat-rooms/general/messages/${parent.body.id}/thread`)
+                .set(alice);
+
+            expect(res.status).toBe(200);
+            expect(res.body.parent).toMatchObject({ id: parent.body.id, reply_count: 1 });
+            expect(res.body.messages.map((message: { content: string }) => message.content)).toEqual(['Answer']);
+        });
+
+        it('does not allow replies to replies', async () => {
+            const parent = await send(alice, 'general', { content: 'Question' });
+            const reply = await send(bob, 'general', { content: 'Answer', parentId: parent.body.id });
+
+            const res = await send(alice, 'general', { content: 'Nested', parentId: reply.body.id });
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    describe('PATCH /api/chat-rooms/:chatId/messages/:id', () => {
+        it('edits the message and publishes the update', async () => {
+            const message = await send(alice, 'general', { content: 'Helo' });
+
+            const res = await request(server.app)
+                .patch(`/api/chat-rooms/general/messages/${message.body.id}`)
+                .set(alice)
+                .send({ content: 'Hello' });
+
+            expect(res.status).toBe(200);
+            expect(res.body.content).toBe('Hello');
+            expect(res.body.edited_at).toBeTruthy();
+            expect(server.realtime.eventsOn('chat:general', 'message.updated')[0].data)
+                .toMatchObject({ id: message.body.id, content: 'Hello' });
+
+            const edits = await request(server.app)
+                .get(`/api/chat-rooms/general/messages/${message.body.id}/edits`)
+                .set(alice);
+            expect(edits.status).toBe(200);
+            expect(edits.body).toEqual([expect.objectContaining({ previous_content: 'Helo', edited_by: ALICE })]);
+        });
+
+        it('only lets the sender edit', async () => {
+            const message = await send(alice, 'general', { content: 'Mine' });
+
+            const res = await request(server.app)
+                .patch(`/api/chat-rooms/general/messages/${message.body.id}`)
+                .set(bob)
+                .send({ content: 'Yours now' });
+
+            expect(res.status).toBe(403);
+            expect(server.realtime.eventsOn('chat:general', 'message.updated')).toHaveLength(0);
+        });
+
+        it('rejects edits over the maximum length', async () => {
+            const message = await send(alice, 'general', { content: 'Short' });
+
+            const res = await request(server.app)
+                .patch(`/api/chat-rooms/general/messages/${message.body.id}`)
+                .set(alice)
+                .send({ content: 'a'.repeat(MAX_MESSAGE_LENGTH + 1) });
+
+            expect(res.status).toBe(400);
+            expect(server.realtime.eventsOn('chat:general', 'message.updated')).toHaveLength(0);
+        });
+    });
+
+    describe('DELETE /api/chat-rooms/:chatId/messages/:id', () => {
+        it('deletes the message and publishes a tombstone', async () => {
+            const message = await send(alice, 'general', { content: 'Oops' });
+
+            const res = await request(server.app)
+                .delete(`/api/chat-rooms/general/messages/${message.body.id}`)
+                .set(alice);
+
+            expect(res.status).toBe(200);
+            expect(res.body.deleted_at).toBeTruthy();
+            expect(server.realtime.eventsOn('chat:general', 'message.deleted')[0].data)
+                .toMatchObject({ id: message.body.id, deleted_by: ALICE });
+
+            const edits = await request(server.app)
+                .get(`/api/chat-rooms/general/messages/${message.body.id}/edits`)
+                .set(alice);
+            expect(edits.body).toEqual([]);
+        });
+
+        it('does not let others delete the message', async () => {
+            const message = await send(alice, 'general', { content: 'Mine' });
+
+            const res = await request(server.app)
+                .delete(`/api/chat-rooms/general/messages/${message.body.id}`)
+                .set(bob);
+
+            expect(res.status).toBe(403);
+        });
+
+        it('lets room admins delete messages', async () => {
+            const room = await request(server.app).post('/api/chat-rooms').set(alice).send({ name: 'Team' });
+            const message = await send(bob, room.body.id, { content: 'Spam' });
+
+            const res = await request(server.app)
+                .delete(`/api/chat-rooms/${room.body.id}/messages/${message.body.id}`)
+                .set(alice);
+
+            expect(res.status).toBe(200);
+            expect(res.body.deleted_by).toBe(ALICE);
+        });
+    });
+
+    describe('reactions', () => {
+        it('adds and removes a reaction, publishing the new count', async () => {
+            const message = await send(alice, 'general', { content: 'Nice' });
+            const path = `/api/chat-rooms/general/messages/${message.body.id}/reactions/${encodeURIComponent('👍')}`;
+
+            const added = await request(server.app).put(path).set(bob);
+
+            expect(added.status).toBe(200);
+            expect(added.body).toEqual({
+                message_id: message.body.id,
+                reactions: [{ emoji: '👍', count: 1, reacted: true }]
+            });
+            expect(MessageReactionsSchema.safeParse(added.body).success).toBe(true);
+            expect(server.realtime.eventsOn('chat:general', 'reaction.added')[0].data)
+                .toMatchObject({ message_id: message.body.id, user_id: BOB, emoji: '👍', count: 1 });
+
+            // Adding it again changes nothing
+            await request(server.app).put(path).set(bob);
+            expect(server.realtime.eventsOn('chat:general', 'reaction.added')).toHaveLength(1);
+
+            const removed = await request(server.app).delete(path).set(bob);
+
+            expect(removed.body.reactions).toEqual([]);
+            expect(server.realtime.eventsOn('chat:general', 'reaction.removed')[0].data)
+                .toMatchObject({ emoji: '👍', count: 0 });
+        });
+
+        it('rejects reactions that are not emoji', async () => {
+            const message = await send(alice, 'general', { content: 'Nice' });
+
+            const res = await request(server.app)
+                .put(`/api/chat-rooms/general/messages/${message.body.id}/reactions/hello`)
+                .set(bob);
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    describe('read markers', () => {
+        it('advances the marker and publishes it with the new unread count', async () => {
+            const message = await send(bob, 'general', { content: 'Read me' });
+
+            const res = await request(server.app)
+                .post('/api/chat-rooms/general/read')
+                .set(alice)
+                .send({ messageId: message.body.id });
+
+            expect(res.status).toBe(200);
+            expect(res.body).toMatchObject({ user_id: ALICE, chat_id: 'general', last_read_message_id: message.body.id });
+            expect(ReadMarkerSchema.safeParse(res.body).success).toBe(true);
+
+            const [marker] = server.realtime.eventsOn('chat:general', 'read.updated');
+            expect(marker.data).toMatchObject({ user_id: ALICE, user: { id: ALICE, username: 'alice' } });
+            expect(ReadMarkerSchema.safeParse(marker.data).success).toBe(true);
+
+            const [unread] = server.realtime.eventsOn(`notifications:${ALICE}`, 'unread');
+            expect(unread.data).toEqual({ chat_id: 'general', unread_count: 0, mention_count: 0 });
+            expect(UnreadCountSchema.safeParse(unread.data).success).toBe(true);
+
+            const markers = await request(server.app).get('/api/chat-rooms/general/read').set(bob);
+            expect(markers.body).toEqual([expect.objectContaining({ user_id: ALICE })]);
+            expect(ReadMarkerSchema.array().safeParse(markers.body).success).toBe(true);
+        });
+
+        it('requires a message ID', async () => {
+            const res = await request(server.app).post('/api/chat-rooms/general/read').set(alice).send({});
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    describe('pins', () => {
+        let roomId: string;
+
+        beforeEach(async () => {
+            const room = await request(server.app).post('/api/chat-rooms').set(alice).send({ name: 'Team' });
+            roomId = room.body.id;
+        });
+
+        it('lets moderators pin and unpin messages', async () => {
+            const message = await send(bob, roomId, { content: 'Important' });
+
+            const pinned = await request(server.app)
+                .put(`/api/chat-rooms/${roomId}/messages/${message.body.id}/pin`)
+                .set(alice);
+
+            expect(pinned.status).toBe(201);
+            expect(pinned.body).toMatchObject({ message_id: message.body.id, pinned_by_user: { id: ALICE, username: 'alice' } });
+            expect(PinnedMessageSchema.safeParse(pinned.body).success).toBe(true);
+            const added = server.realtime.eventsOn(`chat:${roomId}`, 'pin.added');
+            expect(added).toHaveLength(1);
+            expect(PinnedMessageSchema.safeParse(added[0].data).success).toBe(true);
+
+            const pins = await request(server.app).get(`/api/chat-rooms/${roomId}/pins`).set(bob);
+            expect(pins.body).toEqual([expect.objectContaining({ message_id: message.body.id })]);
+            expect(PinnedMessageSchema.array().safeParse(pins.body).success).toBe(true);
+
+            const unpinned = await request(server.app)
+                .delete(`/api/chat-rooms/${roomId}/messages/${message.body.id}/pin`)
+                .set(alice);
+
+            expect(unpinned.status).toBe(204);
+            const removed = server.realtime.eventsOn(`chat:${roomId}`, 'pin.removed');
+            expect(removed).toHaveLength(1);
+            expect(UnpinEventSchema.safeParse(removed[0].data).success).toBe(true);
+        });
+
+        it('does not let members pin messages', async () => {
+            const message = await send(bob, roomId, { content: 'Important' });
+
+            const res = await request(server.app)
+                .put(`/api/chat-rooms/${roomId}/messages/${message.body.id}/pin`)
+                .set(bob);
+
+            expect(res.status).toBe(403);
+        });
+
+        it('unpins messages when they are deleted', async () => {
+            const message = await send(bob, roomId, { content: 'Important' });
+            await request(server.app).put(`/api/chat-rooms/${roomId}/messages/${message.body.id}/pin`).set(alice);
+
+            await request(server.app).delete(`/api/chat-rooms/${roomId}/messages/${message.body.id}`).set(bob);
+
+            expect(server.realtime.eventsOn(`chat:${roomId}`, 'pin.removed')).toHaveLength(1);
+            const pins = await request(server.app).get(`/api/chat-rooms/${roomId}/pins`).set(alice);
+            expect(pins.body).toEqual([]);
+        });
+    });
+
+    describe('direct messages', () => {
+        it('publishes to both participants\' direct channels', async () => {
+            const chatId = getConversationId(ALICE, BOB);
+
+            const res = await send(alice, chatId, { content: 'Just between us' });
+
+            expect(res.status).toBe(201);
+            expect(res.body.recipient_id).toBe(BOB);
+            expect(server.realtime.eventsOn(`direct:${ALICE}`, 'message')).toHaveLength(1);
+            expect(server.realtime.eventsOn(`direct:${BOB}`, 'message')).toHaveLength(1);
+            expect(server.realtime.eventsOn(`notifications:${BOB}`, 'message')).toHaveLength(1);
+        });
+
+        it('keeps others out of the conversation', async () => {
+            const carol = await server.createUser(CAROL, 'carol');
+            const chatId = getConversationId(ALICE, BOB);
+
+            const res = await request(server.app)
+                .get(`/api/chat-rooms/${encodeURIComponent(chatId)}/messages`)
+                .set(carol);
+
+            expect(res.status).toBe(403);
+        });
+    });
+
+    describe('GET /api/search/messages', () => {
+        it('finds messages in the chats the user can see', async () => {
+            await send(alice, 'general', { content: 'The deploy is done' });
+            await send(alice, 'tech', { content: 'Unrelated' });
+
+            const res = await request(server.app).get('/api/search/messages?q=deploy').set(bob);
+
+            expect(res.status).toBe(200);
+            expect(res.body).toEqual([expect.objectContaining({ chat_id: 'general', content: 'The deploy is done' })]);
+            expect(res.body[0]).toMatchObject({ snippet: 'The deploy is done', highlights: [{ start: 4, end: 10 }] });
+            expect(MessageSearchResultSchema.array().safeParse(res.body).success).toBe(true);
+        });
+
+        it('highlights matches by position, not by markup typed in the message', async () => {
+            await send(alice, 'general', { content: 'Wrap <mark>words</mark> to deploy them' });
+
+            const res = await request(server.app).get('/api/search/messages?q=deploy').set(bob);
+
+            expect(res.body[0].snippet).toBe('Wrap <mark>words</mark> to deploy them');
+            expect(res.body[0].highlights).toEqual([{ start: 27, end: 33 }]);
+        });
+
+        it('shows the words around the first match of a long message', async () => {
+            const filler = (word: string) => Array.from({ length: 20 }, () => word).join(' ');
+            await send(alice, 'general', { content: `${filler('before')} deploy ${filler('after')}` });
+
+            const res = await request(server.app).get('/api/search/messages?q=deploy').set(bob);
+
+            const [{ snippet, highlights }] = res.body;
+            expect(snippet).toBe(`before before before before before deploy ${filler('after').split(' ').slice(0, 19).join(' ')}`);
+            expect(highlights).toEqual([{ start: 35, end: 41 }]);
+            expect(snippet.slice(35, 41)).toBe('deploy');
+        });
+
+        it('requires a query', async () => {
+            const res = await request(server.app).get('/api/search/messages?q=').set(bob);
+
+            expect(res.status).toBe(400);
+        });
+    });
+});
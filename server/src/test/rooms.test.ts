@@ -0,0 +1,321 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { ChatRoomSchema, RoomInviteSchema, RoomMemberSchema } from 'shared';
+import { createTestServer, TestServer, ALICE, BOB, CAROL } from './server';
+
+describe('ChatServer rooms and invites', () => {
+    let server: TestServer;
+    let alice: { Authorization: string };
+    let bob: { Authorization: string };
+
+    beforeEach(async () => {
+        server = createTestServer();
+        alice = await server.createUser(ALICE, 'alice');
+        bob = await server.createUser(BOB, 'bob');
+    });
+
+    const createRoom = async (auth: { Authorization: string }, body: object) => {
+        const res = await request(server.app).post('/api/chat-rooms').set(auth).send(body);
+        return res.body.id as string;
+    };
+
+    describe('GET /api/chat-rooms', () => {
+        it('lists the default rooms', async () => {
+            const res = await request(server.app).get('/api/chat-rooms').set(alice);
+
+            expect(res.status).toBe(200);
+            expect(res.body.map((room: { id: string }) => room.id).sort()).toEqual(['general', 'resources', 'tech']);
+            expect(res.body[0].role).toBeNull();
+            expect(ChatRoomSchema.array().safeParse(res.body).success).toBe(true);
+        });
+
+        it('shows private rooms to their members only', async () => {
+            const roomId = await createRoom(alice, { name: 'Secret', isPrivate: true });
+
+            const own = await request(server.app).get('/api/chat-rooms').set(alice);
+            const other = await request(server.app).get('/api/chat-rooms').set(bob);
+
+            expect(own.body).toContainEqual(expect.objectContaining({ id: roomId, role: 'owner' }));
+            expect(other.body.map((room: { id: string }) => room.id)).not.toContain(roomId);
+        });
+    });
+
+    describe('POST /api/chat-rooms', () => {
+        it('creates the room with the creator as owner and announces it', async () => {
+            const res = await request(server.app)
+                .post('/api/chat-rooms')
+                .set(alice)
+                .send({ name: '  Book Club  ', description: 'Reading together' });
+
+            expect(res.status).toBe(201);
+            expect(res.body).toMatchObject({
+                id: 'book-club',
+                name: 'Book Club',
+                description: 'Reading together',
+                created_by: ALICE,
+                is_private: false,
+                role: 'owner'
+            });
+            expect(ChatRoomSchema.safeParse(res.body).success).toBe(true);
+            expect(server.realtime.eventsOn('rooms', 'updated')[0].data).toEqual({ roomId: 'book-club' });
+        });
+
+        it('gives rooms with the same name different IDs', async () => {
+            const first = await createRoom(alice, { name: 'Team' });
+            const second = await createRoom(bob, { name: 'Team' });
+
+            expect(first).toBe('team');
+            expect(second).toMatch(/^team-/);
+        });
+
+        it('rejects rooms without a valid name', async () => {
+            const missing = await request(server.app).post('/api/chat-rooms').set(alice).send({});
+            const blank = await request(server.app).post('/api/chat-rooms').set(alice).send({ name: '  ' });
+            const long = await request(server.app).post('/api/chat-rooms').set(alice).send({ name: 'x'.repeat(51) });
+
+            expect([missing.status, blank.status, long.status]).toEqual([400, 400, 400]);
+            expect(server.realtime.eventsOn('rooms')).toHaveLength(0);
+        });
+    });
+
+    describe('PATCH /api/chat-rooms/:chatId', () => {
+        it('lets the owner rename the room', async () => {
+            const roomId = await createRoom(alice, { name: 'Team' });
+
+            const res = await request(server.app)
+                .patch(`/api/chat-rooms/${roomId}`)
+                .set(alice)
+                .send({ name: 'Dream Team' });
+
+            expect(res.status).toBe(200);
+            expect(res.body).toMatchObject({ id: roomId, name: 'Dream Team' });
+            expect(server.realtime.eventsOn('rooms', 'updated')).toHaveLength(2);
+        });
+
+        it('does not let members change the room', async () => {
+            const roomId = await createRoom(alice, { name: 'Team' });
+
+            const res = await request(server.app)
+                .patch(`/api/chat-rooms/${roomId}`)
+                .set(bob)
+                .send({ description: 'Taken over' });
+
+            expect(res.status).toBe(403);
+        });
+
+        it('requires something to change', async () => {
+            const roomId = await createRoom(alice, { name: 'Team' });
+
+            const res = await request(server.app).patch(`/api/chat-rooms/${roomId}`).set(alice).send({});
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    describe('DELETE /api/chat-rooms/:chatId', () => {
+        it('archives the room, keeping its history readable but closed to new messages', async () => {
+            const roomId = await createRoom(alice, { name: 'Team' });
+            await request(server.app).post(`/api/chat-rooms/${roomId}/messages`).set(bob).send({ content: 'Bye' });
+
+            const res = await request(server.app).delete(`/api/chat-rooms/${roomId}`).set(alice);
+
+            expect(res.status).toBe(200);
+            expect(res.body.archived_at).toBeTruthy();
+
+            const rooms = await request(server.app).get('/api/chat-rooms').set(alice);
+            expect(rooms.body.map((room: { id: string }) => room.id)).not.toContain(roomId);
+
+            const history = await request(server.app).get(`/api/chat-rooms/${roomId}/messages`).set(bob);
+            expect(history.body.messages).toHaveLength(1);
+
+            const send = await request(server.app).post(`/api/chat-rooms/${roomId}/messages`).set(bob).send({ content: 'Hello?' });
+            expect(send.status).toBe(404);
+        });
+
+        it('does not let members archive the room', async () => {
+            const roomId = await createRoom(alice, { name: 'Team' });
+
+            const res = await request(server.app).delete(`/api/chat-rooms/${roomId}`).set(bob);
+
+            expect(res.status).toBe(403);
+        });
+    });
+
+    describe('members', () => {
+        let roomId: string;
+        let carol: { Authorization: string };
+
+        // Alice owns a private room with Bob as a member
+        beforeEach(async () => {
+            carol = await server.createUser(CAROL, 'carol');
+            roomId = await createRoom(alice, { name: 'Secret', isPrivate: true });
+            await server.store.upsertRoomMember({ room_id: roomId, user_id: BOB, role: 'member', joined_at: new Date().toISOString() });
+        });
+
+        it('GET /api/chat-rooms/:chatId/members lists members with usernames', async () => {
+            const res = await request(server.app).get(`/api/chat-rooms/${roomId}/members`).set(bob);
+
+            expect(res.status).toBe(200);
+            expect(res.body).toEqual(expect.arrayContaining([
+                expect.objectContaining({ user_id: ALICE, role: 'owner', user: { id: ALICE, username: 'alice' } }),
+                expect.objectContaining({ user_id: BOB, role: 'member', user: { id: BOB, username: 'bob' } })
+            ]));
+            expect(RoomMemberSchema.array().safeParse(res.body).success).toBe(true);
+        });
+
+        it('keeps non-members out of private rooms', async () => {
+            const members = await request(server.app).get(`/api/chat-rooms/${roomId}/members`).set(carol);
+            const messages = await request(server.app).get(`/api/chat-rooms/${roomId}/messages`).set(carol);
+
+            expect(members.status).toBe(403);
+            expect(messages.status).toBe(403);
+        });
+
+        it('lets the owner promote a member', async () => {
+            const res = await request(server.app)
+                .patch(`/api/chat-rooms/${roomId}/members/${BOB}`)
+                .set(alice)
+                .send({ role: 'admin' });
+
+            expect(res.status).toBe(200);
+            expect(res.body).toMatchObject({ user_id: BOB, role: 'admin' });
+            expect(server.realtime.eventsOn('rooms', 'updated').pop()?.data).toEqual({ roomId });
+        });
+
+        it('only lets the owner change roles', async () => {
+            const res = await request(server.app)
+                .patch(`/api/chat-rooms/${roomId}/members/${BOB}`)
+                .set(bob)
+                .send({ role: 'admin' });
+
+            expect(res.status).toBe(403);
+        });
+
+        it('rejects unknown roles', async () => {
+            const res = await request(server.app)
+                .patch(`/api/chat-rooms/${roomId}/members/${BOB}`)
+                .set(alice)
+                .send({ role: 'owner' });
+
+            expect(res.status).toBe(400);
+        });
+
+        it('lets the owner remove a member', async () => {
+            const res = await request(server.app).delete(`/api/chat-rooms/${roomId}/members/${BOB}`).set(alice);
+
+            expect(res.status).toBe(200);
+            const rooms = await request(server.app).get('/api/chat-rooms').set(bob);
+            expect(rooms.body.map((room: { id: string }) => room.id)).not.toContain(roomId);
+        });
+
+        it('lets members leave', async () => {
+            const res = await request(server.app).delete(`/api/chat-rooms/${roomId}/members/${BOB}`).set(bob);
+
+            expect(res.status).toBe(200);
+        });
+
+        it('does not let the owner be removed', async () => {
+            const res = await request(server.app).delete(`/api/chat-rooms/${roomId}/members/${ALICE}`).set(alice);
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    describe('invites', () => {
+        let roomId: string;
+
+        beforeEach(async () => {
+            roomId = await createRoom(alice, { name: 'Secret', isPrivate: true });
+        });
+
+        const invite = (body: object) =>
+            request(server.app).post(`/api/chat-rooms/${roomId}/invites`).set(alice).send(body);
+
+        it('invites a user and tells them on their direct channel', async () => {
+            const res = await invite({ userId: BOB });
+
+            expect(res.status).toBe(201);
+            expect(res.body).toMatchObject({ room_id: roomId, created_by: ALICE, invitee_id: BOB });
+            expect(server.realtime.eventsOn(`direct:${BOB}`, 'invite')[0].data).toEqual({ inviteId: res.body.id, roomId });
+
+            const pending = await request(server.app).get('/api/invites').set(bob);
+            expect(pending.body).toEqual([expect.objectContaining({ id: res.body.id, room: { id: roomId, name: 'Secret' } })]);
+            expect(RoomInviteSchema.array().safeParse(pending.body).success).toBe(true);
+        });
+
+        it('creates link invites that are not addressed to anyone', async () => {
+            const res = await invite({});
+
+            expect(res.status).toBe(201);
+            expect(res.body.invitee_id).toBeNull();
+            expect(server.realtime.eventsOn(`direct:${BOB}`)).toHaveLength(0);
+        });
+
+        it('does not invite existing members or unknown users', async () => {
+            const member = await invite({ userId: ALICE });
+            const unknown = await invite({ userId: CAROL });
+
+            expect(member.status).toBe(409);
+            expect(unknown.status).toBe(404);
+        });
+
+        it('only lets moderators invite', async () => {
+            const publicRoom = await createRoom(alice, { name: 'Open' });
+
+            const res = await request(server.app).post(`/api/chat-rooms/${publicRoom}/invites`).set(bob).send({});
+
+            expect(res.status).toBe(403);
+        });
+
+        it('accepting an invite joins the room', async () => {
+            const { body: created } = await invite({ userId: BOB });
+
+            const res = await request(server.app).post(`/api/invites/${created.token}/accept`).set(bob);
+
+            expect(res.status).toBe(200);
+            expect(res.body).toMatchObject({ id: roomId, role: 'member' });
+            expect(ChatRoomSchema.safeParse(res.body).success).toBe(true);
+            expect(server.realtime.eventsOn('rooms', 'updated').pop()?.data).toEqual({ roomId });
+
+            const messages = await request(server.app).get(`/api/chat-rooms/${roomId}/messages`).set(bob);
+            expect(messages.status).toBe(200);
+
+            // Invites addressed to a user can only be used once
+            const again = await request(server.app).post(`/api/invites/${created.token}/accept`).set(bob);
+            expect(again.status).toBe(410);
+        });
+
+        it('does not let others accept an invite addressed to a user', async () => {
+            const carol = await server.createUser(CAROL, 'carol');
+            const { body: created } = await invite({ userId: BOB });
+
+            const res = await request(server.app).post(`/api/invites/${created.token}/accept`).set(carol);
+
+            expect(res.status).toBe(403);
+        });
+
+        it('rejects unknown invite tokens', async () => {
+            const res = await request(server.app).post('/api/invites/nope/accept').set(bob);
+
+            expect(res.status).toBe(404);
+        });
+
+        it('declining an invite deletes it', async () => {
+            const { body: created } = await invite({ userId: BOB });
+
+            const res = await request(server.app).delete(`/api/invites/${created.token}`).set(bob);
+
+            expect(res.status).toBe(200);
+            const pending = await request(server.app).get('/api/invites').set(bob);
+            expect(pending.body).toEqual([]);
+        });
+
+        it('only lets the invitee decline', async () => {
+            const { body: created } = await invite({ userId: BOB });
+
+            const res = await request(server.app).delete(`/api/invites/${created.token}`).set(alice);
+
+            expect(res.status).toBe(404);
+        });
+    });
+});
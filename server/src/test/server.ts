@@ -0,0 +1,60 @@
+import { Application } from 'express';
+import { ChatServer } from '../ChatServer';
+import { AuthUser } from '../middleware/auth';
+import { MemoryChatStore } from '../store/MemoryChatStore';
+import { RecordingRealtimeBus, MemoryAttachmentStorage, StaticLinkPreviewFetcher } from './fakes';
+
+// IDs of the users the tests sign in as
+export const ALICE = '00000000-0000-4000-8000-000000000001';
+export const BOB = '00000000-0000-4000-8000-000000000002';
+export const CAROL = '00000000-0000-4000-8000-000000000003';
+
+export interface TestServer {
+    app: Application;
+    store: MemoryChatStore;
+    realtime: RecordingRealtimeBus;
+    attachmentStorage: MemoryAttachmentStorage;
+    linkPreviewFetcher: StaticLinkPreviewFetcher;
+    // Get an Authorization header for a signed-in user
+    authHeader(user: AuthUser): { Authorization: string };
+    // Sign a user in and create their profile, as the client does after sign-up
+    createUser(id: string, username: string): Promise<{ Authorization: string }>;
+}
+
+/**
+ * Build a ChatServer backed by in-memory fakes. It is not listening; send requests to `app`.
+ * Access tokens are `token-<userId>` for the users signed in through `authHeader`.
+ */
+export function createTestServer(): TestServer {
+    const store = new MemoryChatStore();
+    const realtime = new RecordingRealtimeBus();
+    const attachmentStorage = new MemoryAttachmentStorage();
+    const linkPreviewFetcher = new StaticLinkPreviewFetcher();
+    const signedIn = new Map<string, AuthUser>();
+
+    const server = new ChatServer({
+        store,
+        realtime,
+        attachmentStorage,
+        linkPreviewFetcher,
+        verifyToken: async (token) => signedIn.get(token) || null
+    });
+
+    const authHeader = (user: AuthUser) => {
+        signedIn.set(`token-${user.id}`, user);
+        return { Authorization: `Bearer token-${user.id}` };
+    };
+
+    return {
+        app: server.getApp(),
+        store,
+        realtime,
+        attachmentStorage,
+        linkPreviewFetcher,
+        authHeader,
+        async createUser(id: string, username: string) {
+            await store.insertUser({ id, email: `${username}@example.com`, username });
+            return authHeader({ id, email: `${username}@example.com`, username });
+        }
+    };
+}
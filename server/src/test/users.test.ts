@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import { ConversationSchema, UnreadCountSchema, UserListSchema, UsersUpdateEventSchema, getConversationId } from 'shared';
+import { createTestServer, TestServer, ALICE, BOB, CAROL } from './server';
+
+describe('ChatServer users and authentication', () => {
+    let server: TestServer;
+    let alice: { Authorization: string };
+
+    beforeEach(async () => {
+        server = createTestServer();
+        alice = await server.createUser(ALICE, 'alice');
+    });
+
+    it('answers the health check without a token', async () => {
+        const res = await request(server.app).get('/');
+
+        expect(res.status).toBe(200);
+        expect(res.text).toBe('Chat Server is running');
+    });
+
+    it('rejects API requests without a token', async () => {
+        const res = await request(server.app).get('/api/users');
+
+        expect(res.status).toBe(401);
+        expect(res.body.error).toBe('Authorization token is required');
+    });
+
+    it('rejects API requests with an unknown token', async () => {
+        const res = await request(server.app).get('/api/users').set('Authorization', 'Bearer nope');
+
+        expect(res.status).toBe(401);
+        expect(res.body.error).toBe('Invalid or expired token');
+    });
+
+    describe('POST /api/users/register', () => {
+        it('creates the profile and publishes the new user list', async () => {
+            const bob = server.authHeader({ id: BOB, email: 'bob@example.com' });
+
+            const res = await request(server.app)
+                .post('/api/users/register')
+                .set(bob)
+                .send({ username: 'bob' });
+
+            expect(res.status).toBe(201);
+            expect(res.body).toMatchObject({ id: BOB, username: 'bob', email: 'bob@example.com', isOnline: true });
+
+            const [update] = server.realtime.eventsOn('users', 'update');
+            expect(UsersUpdateEventSchema.parse(update.data).users.map(user => user.username).sort()).toEqual(['alice', 'bob']);
+        });
+
+        it('takes the username from the token when none is sent', async () => {
+            const bob = server.authHeader({ id: BOB, email: 'bob@example.com', username: 'bobby' });
+
+            const res = await request(server.app).post('/api/users/register').set(bob).send({});
+
+            expect(res.status).toBe(201);
+            expect(res.body.username).toBe('bobby');
+        });
+
+        it('requires a username', async () => {
+            const bob = server.authHeader({ id: BOB, email: 'bob@example.com' });
+
+            const res = await request(server.app).post('/api/users/register').set(bob).send({});
+
+            expect(res.status).toBe(400);
+            expect(server.realtime.eventsOn('users')).toHaveLength(0);
+        });
+    });
+
+    it('GET /api/users lists users with their online status', async () => {
+        await server.createUser(BOB, 'bob');
+
+        const res = await request(server.app).get('/api/users').set(alice);
+
+        expect(res.status).toBe(200);
+        expect(res.body).toHaveLength(2);
+        // New users start out online
+        expect(res.body[0]).toEqual({ id: ALICE, username: 'alice', isOnline: true, lastSeen: expect.any(String) });
+        expect(UserListSchema.safeParse(res.body).success).toBe(true);
+    });
+
+    describe('/api/users/:userId/status', () => {
+        it('sets the caller online and publishes the user list', async () => {
+            await server.store.updateUserStatus(ALICE, false);
+
+            const res = await request(server.app)
+                .post(`/api/users/${ALICE}/status`)
+                .set(alice)
+                .send({ isOnline: true });
+
+            expect(res.status).toBe(200);
+            expect(res.body).toEqual({ success: true });
+            // Only the user's own clients enter presence
+            expect(server.realtime.members.get('presence')).toBeUndefined();
+
+            const [update] = server.realtime.eventsOn('users', 'update');
+            expect(update.data).toEqual({ users: [{ id: ALICE, username: 'alice', isOnline: true, lastSeen: null }] });
+            expect(UsersUpdateEventSchema.safeParse(update.data).success).toBe(true);
+
+            const status = await request(server.app).get(`/api/users/${ALICE}/status`).set(alice);
+            expect(status.body).toEqual({ isOnline: true });
+        });
+
+        it('sets the caller offline', async () => {
+            await request(server.app).post(`/api/users/${ALICE}/status`).set(alice).send({ isOnline: true });
+
+            const res = await request(server.app).post(`/api/users/${ALICE}/status`).set(alice).send({ isOnline: false });
+
+            expect(res.status).toBe(200);
+
+            const status = await request(server.app).get(`/api/users/${ALICE}/status`).set(alice);
+            expect(status.body).toEqual({ isOnline: false });
+        });
+
+        it('rejects a status that is not a boolean', async () => {
+            const res = await request(server.app).post(`/api/users/${ALICE}/status`).set(alice).send({ isOnline: 'yes' });
+
+            expect(res.status).toBe(400);
+            expect(server.realtime.published).toHaveLength(0);
+        });
+
+        it('does not let users change the status of others', async () => {
+            await server.createUser(BOB, 'bob');
+
+            const res = await request(server.app).post(`/api/users/${BOB}/status`).set(alice).send({ isOnline: true });
+
+            expect(res.status).toBe(403);
+            expect(server.realtime.published).toHaveLength(0);
+        });
+
+        it('reports unknown users as offline', async () => {
+            const res = await request(server.app).get(`/api/users/${BOB}/status`).set(alice);
+
+            expect(res.body).toEqual({ isOnline: false });
+        });
+    });
+
+    describe('presence', () => {
+        it('sets members online when they enter and offline when they leave', async () => {
+            await server.store.updateUserStatus(ALICE, false);
+
+            await server.realtime.enterPresence('presence', ALICE, { userId: ALICE });
+            await vi.waitFor(async () => {
+                const status = await request(server.app).get(`/api/users/${ALICE}/status`).set(alice);
+                expect(status.body).toEqual({ isOnline: true });
+            });
+
+            await server.realtime.leavePresence('presence', ALICE);
+            await vi.waitFor(async () => {
+                const status = await request(server.app).get(`/api/users/${ALICE}/status`).set(alice);
+                expect(status.body).toEqual({ isOnline: false });
+            });
+        });
+
+        it('sets a user offline when their client disconnects after setting their status', async () => {
+            await server.realtime.enterPresence('presence', ALICE, { userId: ALICE });
+            await request(server.app).post(`/api/users/${ALICE}/status`).set(alice).send({ isOnline: true });
+
+            // The client's connection closes, which removes its presence member
+            await server.realtime.leavePresence('presence', ALICE);
+
+            await vi.waitFor(async () => {
+                const status = await request(server.app).get(`/api/users/${ALICE}/status`).set(alice);
+                expect(status.body).toEqual({ isOnline: false });
+            });
+            expect(server.realtime.members.get('presence')?.size).toBe(0);
+        });
+
+        it('ignores members whose data names another user', async () => {
+            await server.createUser(BOB, 'bob');
+            await server.store.updateUserStatus(BOB, false);
+
+            await server.realtime.enterPresence('presence', ALICE, { userId: BOB });
+
+            const status = await request(server.app).get(`/api/users/${BOB}/status`).set(alice);
+            expect(status.body).toEqual({ isOnline: false });
+            expect(server.realtime.eventsOn('users', 'update')).toHaveLength(0);
+        });
+    });
+
+    describe('GET /api/realtime/token', () => {
+        it('issues a token scoped to the rooms and conversations the user can see', async () => {
+            await server.createUser(BOB, 'bob');
+
+            const res = await request(server.app).get('/api/realtime/token').set(alice);
+
+            expect(res.status).toBe(200);
+            expect(res.body.backend).toBe('local');
+
+            const { clientId, capability } = res.body.token;
+            expect(clientId).toBe(ALICE);
+            expect(capability['chat:general']).toEqual(['subscribe']);
+            expect(capability[`direct:${ALICE}`]).toEqual(['subscribe']);
+            expect(capability[`direct:${BOB}`]).toBeUndefined();
+            expect(capability[`typing:${getConversationId(ALICE, BOB)}`]).toEqual(['presence', 'subscribe']);
+        });
+
+        it('leaves out private rooms the user is not a member of', async () => {
+            const bob = await server.createUser(BOB, 'bob');
+            const room = await request(server.app)
+                .post('/api/chat-rooms')
+                .set(bob)
+                .send({ name: 'Secret', isPrivate: true });
+
+            const res = await request(server.app).get('/api/realtime/token').set(alice);
+
+            expect(res.body.token.capability[`chat:${room.body.id}`]).toBeUndefined();
+        });
+    });
+
+    it('GET /api/conversations lists direct message conversations', async () => {
+        await server.createUser(BOB, 'bob');
+        const chatId = getConversationId(ALICE, BOB);
+        await request(server.app)
+            .post(`/api/chat-rooms/${encodeURIComponent(chatId)}/messages`)
+            .set(alice)
+            .send({ content: 'Hi Bob' });
+
+        const res = await request(server.app).get('/api/conversations').set(alice);
+
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual([expect.objectContaining({ id: chatId })]);
+        expect(ConversationSchema.array().safeParse(res.body).success).toBe(true);
+    });
+
+    it('GET /api/conversations keeps quiet conversations however many messages others have', async () => {
+        await server.createUser(BOB, 'bob');
+        await server.createUser(CAROL, 'carol');
+        const message = (recipientId: string, content: string, createdAt: string) => ({
+            sender_id: ALICE,
+            recipient_id: recipientId,
+            chat_id: getConversationId(ALICE, recipientId),
+            parent_id: null,
+            content,
+            created_at: createdAt,
+            updated_at: createdAt
+        });
+
+        await server.store.insertMessage(message(CAROL, 'Long time no see', '2024-01-01T00:00:00.000Z'));
+        for (let i = 0; i < 600; i++) {
+            await server.store.insertMessage(message(BOB, `Message ${i}`, new Date(Date.UTC(2024, 1, 1, 0, 0, i)).toISOString()));
+        }
+
+        const res = await request(server.app).get('/api/conversations').set(alice);
+
+        expect(res.status).toBe(200);
+        expect(res.body.map((conversation: { id: string; last_message: { content: string } }) =>
+            [conversation.id, conversation.last_message.content]
+        )).toEqual([
+            [getConversationId(ALICE, BOB), 'Message 599'],
+            [getConversationId(ALICE, CAROL), 'Long time no see']
+        ]);
+    });
+
+    it('GET /api/unread counts unread messages per chat', async () => {
+        const bob = await server.createUser(BOB, 'bob');
+        await request(server.app).post('/api/chat-rooms/general/messages').set(bob).send({ content: 'Hello @alice' });
+
+        const res = await request(server.app).get('/api/unread').set(alice);
+
+        expect(res.status).toBe(200);
+        expect(res.body).toContainEqual(expect.objectContaining({ chat_id: 'general', unread_count: 1, mention_count: 1 }));
+        expect(UnreadCountSchema.array().safeParse(res.body).success).toBe(true);
+    });
+});
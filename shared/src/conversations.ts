@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { MessageSchema } from './messages';
+import { UserSummarySchema } from './users';
+
+// Direct message conversations are stored as messages whose chat_id is a conversation ID
+export const CONVERSATION_PREFIX = 'dm:';
+const CONVERSATION_ID_PATTERN = /^dm:([0-9a-f-]{36}):([0-9a-f-]{36})$/i;
+
+/**
+ * Get the conversation ID for a pair of users. The ID is the same whichever user starts it.
+ */
+export function getConversationId(userId: string, otherUserId: string): string {
+    const [first, second] = [userId, otherUserId].sort();
+    return `${CONVERSATION_PREFIX}${first}:${second}`;
+}
+
+/**
+ * Check whether a chat ID refers to a direct message conversation
+ */
+export function isConversationId(chatId: string): boolean {
+    return chatId.startsWith(CONVERSATION_PREFIX);
+}
+
+/**
+ * Get the two participants of a conversation, or null if the ID is malformed
+ */
+export function getConversationParticipants(chatId: string): [string, string] | null {
+    const match = CONVERSATION_ID_PATTERN.exec(chatId);
+    if (!match || match[1] === match[2] || getConversationId(match[1], match[2]) !== chatId) {
+        return null;
+    }
+    return [match[1], match[2]];
+}
+
+// A direct message conversation with another user
+export const ConversationSchema = z.object({
+    id: z.string(),
+    other_user: UserSummarySchema,
+    last_message: MessageSchema.nullable()
+});
+
+export type Conversation = z.infer<typeof ConversationSchema>;
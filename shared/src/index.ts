@@ -0,0 +1,6 @@
+export * from './users';
+export * from './messages';
+export * from './rooms';
+export * from './conversations';
+export * from './reads';
+export * from './parse';
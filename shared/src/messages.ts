@@ -0,0 +1,202 @@
+import { z } from 'zod';
+import { UserSummarySchema } from './users';
+
+// A file sent with a message; images have their dimensions
+export const MessageAttachmentSchema = z.object({
+    id: z.string(),
+    // Null until the message it was uploaded for is sent
+    message_id: z.string().nullable(),
+    filename: z.string(),
+    mime_type: z.string(),
+    size_bytes: z.number(),
+    width: z.number().nullable(),
+    height: z.number().nullable()
+});
+
+export type MessageAttachment = z.infer<typeof MessageAttachmentSchema>;
+
+// A preview of a page linked in a message, from its OpenGraph metadata
+export const LinkPreviewSchema = z.object({
+    url: z.string(),
+    title: z.string().nullable(),
+    description: z.string().nullable(),
+    image_url: z.string().nullable(),
+    site_name: z.string().nullable()
+});
+
+export type LinkPreview = z.infer<typeof LinkPreviewSchema>;
+
+// Reactions to a message grouped by emoji; `reacted` is true if the requesting user added one
+export const MessageReactionSchema = z.object({
+    emoji: z.string(),
+    count: z.number(),
+    reacted: z.boolean()
+});
+
+export type MessageReaction = z.infer<typeof MessageReactionSchema>;
+
+// The longest message content the server accepts when a message is sent or edited, in characters.
+// Messages stored before the limit may be longer, so the message schema does not enforce it.
+export const MAX_MESSAGE_LENGTH = 4000;
+
+export const MessageSchema = z.object({
+    id: z.string(),
+    content: z.string(),
+    sender_id: z.string(),
+    recipient_id: z.string().nullish(),
+    chat_id: z.string(),
+    // Set on thread replies; replies are not part of the main message flow
+    parent_id: z.string().nullish(),
+    reply_count: z.number().optional(),
+    last_reply_at: z.string().nullish(),
+    created_at: z.string(),
+    updated_at: z.string().optional(),
+    edited_at: z.string().nullish(),
+    deleted_at: z.string().nullish(),
+    deleted_by: z.string().nullish(),
+    sender: UserSummarySchema,
+    reactions: z.array(MessageReactionSchema).optional(),
+    // IDs of the users mentioned in the message
+    mentions: z.array(z.string()).optional(),
+    attachments: z.array(MessageAttachmentSchema).optional(),
+    // Previews of the pages linked in the message, added once they have been fetched
+    link_previews: z.array(LinkPreviewSchema).optional()
+});
+
+export type Message = z.infer<typeof MessageSchema>;
+
+// The changed fields of a message, as sent in message.updated events
+export const MessageUpdateSchema = MessageSchema.partial().extend({
+    id: z.string(),
+    chat_id: z.string()
+});
+
+export type MessageUpdate = z.infer<typeof MessageUpdateSchema>;
+
+// A page of messages, oldest first
+export const MessagePageSchema = z.object({
+    messages: z.array(MessageSchema),
+    hasMore: z.boolean(),
+    nextCursor: z.string().nullable(),
+    // Set on pages around a message: whether there are newer messages, and where they start
+    hasNewer: z.boolean().optional(),
+    newerCursor: z.string().nullish()
+});
+
+export type MessagePage = z.infer<typeof MessagePageSchema>;
+
+// A page of the replies to a message, with the message itself
+export const ThreadPageSchema = MessagePageSchema.extend({
+    parent: MessageSchema
+});
+
+export type ThreadPage = z.infer<typeof ThreadPageSchema>;
+
+// A previous version of an edited message
+export const MessageEditSchema = z.object({
+    id: z.string(),
+    message_id: z.string(),
+    previous_content: z.string(),
+    edited_by: z.string(),
+    edited_at: z.string()
+});
+
+export type MessageEdit = z.infer<typeof MessageEditSchema>;
+
+// Sent when a message is deleted; clients keep it in the list as a tombstone
+export const MessageDeletedEventSchema = z.object({
+    id: z.string(),
+    chat_id: z.string(),
+    parent_id: z.string().nullish(),
+    deleted_at: z.string(),
+    deleted_by: z.string()
+});
+
+export type MessageDeletedEvent = z.infer<typeof MessageDeletedEventSchema>;
+
+// Sent when someone adds or removes a reaction; `count` is the new total for the emoji
+export const ReactionEventSchema = z.object({
+    message_id: z.string(),
+    chat_id: z.string(),
+    parent_id: z.string().nullish(),
+    user_id: z.string(),
+    emoji: z.string(),
+    count: z.number()
+});
+
+export type ReactionEvent = z.infer<typeof ReactionEventSchema>;
+
+// The reactions of a message after the requesting user added or removed one
+export const MessageReactionsSchema = z.object({
+    message_id: z.string(),
+    reactions: z.array(MessageReactionSchema)
+});
+
+export type MessageReactions = z.infer<typeof MessageReactionsSchema>;
+
+// A highlighted part of a text, from start up to but not including end (UTF-16 offsets, as in String.slice)
+export const TextRangeSchema = z.object({
+    start: z.number(),
+    end: z.number()
+});
+
+export type TextRange = z.infer<typeof TextRangeSchema>;
+
+// A message matching a search, with the part of it around the matches as a plain text snippet
+// and the positions of the matching words in that snippet
+export const MessageSearchResultSchema = z.object({
+    id: z.string(),
+    chat_id: z.string(),
+    sender_id: z.string(),
+    parent_id: z.string().nullable(),
+    content: z.string(),
+    created_at: z.string(),
+    snippet: z.string(),
+    highlights: z.array(TextRangeSchema),
+    sender: UserSummarySchema.optional()
+});
+
+export type MessageSearchResult = z.infer<typeof MessageSearchResultSchema>;
+
+// A message pinned to the top of a room
+export const PinnedMessageSchema = z.object({
+    message_id: z.string(),
+    chat_id: z.string(),
+    pinned_by: z.string(),
+    pinned_at: z.string(),
+    pinned_by_user: UserSummarySchema.optional(),
+    message: MessageSchema
+});
+
+export type PinnedMessage = z.infer<typeof PinnedMessageSchema>;
+
+// Sent when a message is unpinned, or deleted while pinned
+export const UnpinEventSchema = PinnedMessageSchema.pick({
+    message_id: true,
+    chat_id: true
+});
+
+export type UnpinEvent = z.infer<typeof UnpinEventSchema>;
+
+// The room or direct message conversation a bookmarked message was sent in
+export const BookmarkChatSchema = z.object({
+    id: z.string(),
+    type: z.enum(['room', 'direct']),
+    // The room name, or the other participant's username
+    name: z.string(),
+    archived: z.boolean()
+});
+
+export type BookmarkChat = z.infer<typeof BookmarkChatSchema>;
+
+// A message a user has saved for later, with the chat it was sent in
+export const BookmarkSchema = z.object({
+    message_id: z.string(),
+    chat_id: z.string(),
+    note: z.string().nullable(),
+    created_at: z.string(),
+    message: MessageSchema,
+    chat: BookmarkChatSchema
+});
+
+export type Bookmark = z.infer<typeof BookmarkSchema>;
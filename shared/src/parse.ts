@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+/**
+ * Check a payload received from the other side against its schema. Payloads that do not
+ * match are logged and dropped, as there is no caller to report the error to.
+ */
+export function parsePayload<T>(schema: z.ZodType<T>, data: unknown, description: string): T | null {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+        console.error(`Ignoring invalid ${description}:`, z.prettifyError(result.error));
+        return null;
+    }
+    return result.data;
+}
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { UserSummarySchema } from './users';
+
+// How far a user has read in a chat
+export const ReadMarkerSchema = z.object({
+    user_id: z.string(),
+    chat_id: z.string(),
+    last_read_message_id: z.string().nullable(),
+    read_at: z.string(),
+    user: UserSummarySchema.optional()
+});
+
+export type ReadMarker = z.infer<typeof ReadMarkerSchema>;
+
+// Unread messages in a chat, and how many of them mention the user
+export const UnreadCountSchema = z.object({
+    chat_id: z.string(),
+    unread_count: z.number(),
+    mention_count: z.number()
+});
+
+export type UnreadCount = z.infer<typeof UnreadCountSchema>;
+
+// Sent on a user's notification channel when a message arrives in any of their chats
+export const MessageNotificationSchema = z.object({
+    chat_id: z.string(),
+    message_id: z.string(),
+    sender_id: z.string()
+});
+
+export type MessageNotification = z.infer<typeof MessageNotificationSchema>;
+
+// Sent on a user's notification channel when a message mentions them
+export const MentionNotificationSchema = z.object({
+    chat_id: z.string(),
+    message_id: z.string(),
+    parent_id: z.string().nullable(),
+    sender: UserSummarySchema,
+    content: z.string()
+});
+
+export type MentionNotification = z.infer<typeof MentionNotificationSchema>;
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { UserSummarySchema } from './users';
+
+export const RoomRoleSchema = z.enum(['owner', 'admin', 'member']);
+
+export type RoomRole = z.infer<typeof RoomRoleSchema>;
+
+// A room as seen by the requesting user, with their role if they are a member
+export const ChatRoomSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    created_by: z.string().nullish(),
+    is_private: z.boolean().optional(),
+    role: RoomRoleSchema.nullish()
+});
+
+export type ChatRoom = z.infer<typeof ChatRoomSchema>;
+
+// An invite to a private room; link invites have no invitee
+export const RoomInviteSchema = z.object({
+    id: z.string(),
+    token: z.string(),
+    room_id: z.string(),
+    invitee_id: z.string().nullable(),
+    expires_at: z.string(),
+    room: z.object({
+        id: z.string(),
+        name: z.string()
+    }).optional()
+});
+
+export type RoomInvite = z.infer<typeof RoomInviteSchema>;
+
+export const RoomMemberSchema = z.object({
+    room_id: z.string(),
+    user_id: z.string(),
+    role: RoomRoleSchema,
+    joined_at: z.string(),
+    user: UserSummarySchema.optional()
+});
+
+export type RoomMember = z.infer<typeof RoomMemberSchema>;
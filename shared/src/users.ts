@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+// A user as shown next to their messages
+export const UserSummarySchema = z.object({
+    id: z.string(),
+    username: z.string()
+});
+
+export type UserSummary = z.infer<typeof UserSummarySchema>;
+
+// A user in the user list, with their online status
+export const UserListEntrySchema = UserSummarySchema.extend({
+    isOnline: z.boolean(),
+    // When the user was last seen online; null while they are online
+    lastSeen: z.string().nullable()
+});
+
+export type UserListEntry = z.infer<typeof UserListEntrySchema>;
+
+export const UserListSchema = z.array(UserListEntrySchema);
+
+// Published on the users channel whenever the user list changes
+export const UsersUpdateEventSchema = z.object({
+    users: UserListSchema
+});
+
+export type UsersUpdateEvent = z.infer<typeof UsersUpdateEventSchema>;
+
+// The data users enter the presence channel with
+export const PresenceDataSchema = z.object({
+    userId: z.string(),
+    username: z.string().optional()
+});
+
+export type PresenceData = z.infer<typeof PresenceDataSchema>;
+
+// Sent to POST /api/users/:userId/status, and returned by GET
+export const UserStatusSchema = z.object({
+    isOnline: z.boolean()
+});
+
+export type UserStatus = z.infer<typeof UserStatusSchema>;
+
+// Presence data on a chat's typing channel, updated while the user types
+export const TypingPresenceDataSchema = z.object({
+    typing: z.boolean(),
+    username: z.string()
+});
+
+export type TypingPresenceData = z.infer<typeof TypingPresenceDataSchema>;